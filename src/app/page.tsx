@@ -1,16 +1,77 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { ScheduleTable } from "@/components/schedule/ScheduleTable";
-import { Schedule, Notes, Shift, PharmacistStats } from "@/types/schedule";
+import {
+  ArchivedPharmacist,
+  Pharmacist,
+  Schedule,
+  Notes,
+  Shift,
+  Availability,
+  AvailabilityMap,
+  CoverageRules,
+  EditableState,
+  EditHistory,
+  HolidayCalendar,
+  MonthIndex,
+  MonthStatus,
+  OvertimeEntry,
+  OvertimeMap,
+  PharmacistFte,
+  ShiftDefinitions,
+  Violation,
+} from "@/types/schedule";
 import toast from "react-hot-toast";
 import {
-  getDaysInMonth,
-  getRequiredShifts,
-  calculateStats,
+  AVAILABILITY_LABELS,
+  DEFAULT_COVERAGE_RULES,
+  DEFAULT_SHIFT_DEFINITIONS,
+  describeOvertimeEntry,
+  removeStaleOvertime,
 } from "@/utils/scheduleUtils";
+import { generateSchedule } from "@/utils/autoScheduler";
+import { validateSchedule, RuleConfig } from "@/utils/rulesEngine";
+import {
+  MAX_PHARMACISTS,
+  createDefaultPharmacists,
+  createPharmacist,
+  getPharmacistName,
+  getRosterForMonth,
+  mergeRosters,
+  reassignFutureShifts,
+  removePharmacistEntries,
+  validatePharmacistName,
+} from "@/utils/rosterUtils";
+import {
+  getMonthKeyRange,
+  getWorkspaceMonths,
+  isMonthEditable,
+  keepLockedMonths,
+  mergeWorkspace,
+  sliceWorkspace,
+} from "@/utils/workspaceUtils";
+import {
+  getTodayKey,
+  parseMonthKey,
+  toDateKey,
+  toMonthKey,
+} from "@/utils/calendarDate";
+import {
+  applyPatch,
+  createEmptyHistory,
+  createPatch,
+  getPatchMonths,
+  isEmptyPatch,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from "@/utils/historyUtils";
+import { RemovePharmacistOptions } from "@/components/ui/RosterManager";
 import {
   createSaveData,
+  generateFileName,
+  getDowngradeWarnings,
   saveToFile,
   loadFromFile,
   autoSave,
@@ -18,115 +79,135 @@ import {
   getAutoSaveInfo,
   saveDataToAppState,
 } from "@/utils/saveLoadUtils";
+import { QUARANTINE_FULL_ERROR, startNewSnapshot } from "@/utils/snapshotStore";
+import { CalendarExportMode, exportCalendar } from "@/utils/calendarExport";
+import {
+  SpreadsheetFormat,
+  SPREADSHEET_FORMAT_LABELS,
+  exportOvertimeReport,
+  exportSpreadsheet,
+  formatImportMonths,
+  parseScheduleRows,
+  readSpreadsheetFile,
+} from "@/utils/spreadsheetUtils";
+import {
+  CALENDAR_IMAGE_OUTPUT_LABELS,
+  CalendarImageOutput,
+  CalendarRenderInput,
+  calendarImageFileName,
+  canvasToBlob,
+  createCalendarCanvas,
+  exportCalendarImage,
+} from "@/utils/calendarRenderer";
+import {
+  CompareSelection,
+  CompareSide,
+  RosterChange,
+  ScheduleComparison,
+  applyCellChanges,
+  applyNoteChanges,
+  diffSchedules,
+} from "@/utils/scheduleDiff";
+
+// 比較模式的來源：incoming 與 base 比較，未指定 base 時與目前的工作區比較
+interface CompareSource {
+  title: string;
+  incoming: CompareSide;
+  monthKeys: string[];
+  base?: CompareSide;
+}
+
+// 修復存檔時確認視窗最多列出的修改項目
+const MAX_REPAIR_REPORT_LINES = 15;
+
+// 編輯記錄中的日期顯示（M/D）
+const formatDateLabel = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+
+const formatShifts = (shifts: Shift[] | undefined) =>
+  shifts && shifts.length > 0 ? shifts.join("") : "休";
 
 export default function Home() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [pharmacists, setPharmacists] = useState(["邱", "黃", "李", "陳"]);
+  const [monthIndex, setMonthIndex] = useState<MonthIndex>({});
+  const [pharmacists, setPharmacists] = useState<Pharmacist[]>(
+    createDefaultPharmacists
+  );
+  const [archivedPharmacists, setArchivedPharmacists] = useState<
+    ArchivedPharmacist[]
+  >([]);
   const [schedule, setSchedule] = useState<Schedule>({});
-  const [violations, setViolations] = useState<string[]>([]);
+  const [violations, setViolations] = useState<Violation[]>([]);
   const [notes, setNotes] = useState<Notes>({});
+  const [availability, setAvailability] = useState<AvailabilityMap>({});
+  const [overtime, setOvertime] = useState<OvertimeMap>({});
+  const [coverageRules, setCoverageRules] = useState<CoverageRules>(
+    DEFAULT_COVERAGE_RULES
+  );
+  const [shiftDefinitions, setShiftDefinitions] = useState<ShiftDefinitions>(
+    DEFAULT_SHIFT_DEFINITIONS
+  );
+  const [holidays, setHolidays] = useState<HolidayCalendar>({});
+  const [fte, setFte] = useState<PharmacistFte>({});
+  const [ruleConfig, setRuleConfig] = useState<RuleConfig>({});
+  const [history, setHistory] = useState<EditHistory>(createEmptyHistory);
+  // 修復存檔時保留的未知欄位，存檔時原樣寫回
+  const [fileExtras, setFileExtras] = useState<Record<string, unknown>>({});
   const [showStats, setShowStats] = useState(true);
   const [lastAutoSave, setLastAutoSave] = useState<Date | null>(null);
   const [isAutoSaving, setIsAutoSaving] = useState(false);
+  const [compareSource, setCompareSource] = useState<CompareSource | null>(
+    null
+  );
 
-  // 檢查排班違規
-  const checkViolations = useCallback(() => {
-    const newViolations: string[] = [];
-    const days = getDaysInMonth(currentMonth);
-
-    days.forEach((day) => {
-      const dateKey = day.toISOString().split("T")[0];
-      const daySchedule = schedule[dateKey] || {};
-      const required = getRequiredShifts(day);
-      const dayOfWeek = day.getDay();
-
-      if (dayOfWeek === 0) return; // 週日跳過
-
-      // 檢查每個時段的人數
-      (["morning", "afternoon", "evening"] as const).forEach((period) => {
-        const periodName =
-          period === "morning" ? "早" : period === "afternoon" ? "午" : "晚";
-        const requiredCount = required[period];
-
-        if (requiredCount > 0) {
-          const actualCount = pharmacists.filter((p) =>
-            (daySchedule[p] || []).includes(periodName)
-          ).length;
-
-          if (actualCount !== requiredCount) {
-            newViolations.push(
-              `${
-                day.getMonth() + 1
-              }/${day.getDate()} ${periodName}班人數不符：需要${requiredCount}人，實際${actualCount}人`
-            );
-          }
-        }
-      });
+  // 本月顯示的藥師：在職名單加上本月仍在職的封存藥師
+  const roster = useMemo(
+    () => getRosterForMonth(pharmacists, archivedPharmacists, currentMonth),
+    [pharmacists, archivedPharmacists, currentMonth]
+  );
 
-      // 檢查週一每人最多兩節的限制
-      if (dayOfWeek === 1) {
-        pharmacists.forEach((pharmacist) => {
-          const shifts = daySchedule[pharmacist] || [];
-          if (shifts.length > 2) {
-            newViolations.push(
-              `${
-                day.getMonth() + 1
-              }/${day.getDate()} ${pharmacist}超過週一最多兩節限制`
-            );
-          }
-        });
-      }
+  // 工作區中的所有月份（含目前瀏覽的月份）
+  const workspaceMonths = useMemo(() => {
+    const months = getWorkspaceMonths({
+      months: monthIndex,
+      schedule,
+      notes,
+      availability,
+      overtime,
     });
+    const currentKey = toMonthKey(currentMonth);
+    return months.includes(currentKey) ? months : [...months, currentKey].sort();
+  }, [monthIndex, schedule, notes, availability, overtime, currentMonth]);
 
-    // 檢查統計平衡
-    const stats = calculateStats(currentMonth, schedule, pharmacists);
-    const avgHolidays =
-      Object.values(stats).reduce(
-        (sum, s: PharmacistStats) => sum + s.holidays,
-        0
-      ) / 4;
-    const avgShifts =
-      Object.values(stats).reduce(
-        (sum, s: PharmacistStats) => sum + s.shifts,
-        0
-      ) / 4;
-    const avgMorningEvening =
-      Object.values(stats).reduce(
-        (sum, s: PharmacistStats) => sum + s.morningEveningDays,
-        0
-      ) / 4;
-    const avgMondayHolidays =
-      Object.values(stats).reduce(
-        (sum, s: PharmacistStats) => sum + s.mondayHolidays,
-        0
-      ) / 4;
-    const avgSaturdayHolidays =
-      Object.values(stats).reduce(
-        (sum, s: PharmacistStats) => sum + s.saturdayHolidays,
-        0
-      ) / 4;
-
-    pharmacists.forEach((pharmacist) => {
-      const s = stats[pharmacist];
-      if (Math.abs(s.holidays - avgHolidays) > 2) {
-        newViolations.push(`${pharmacist}假期天數不平均`);
-      }
-      if (Math.abs(s.shifts - avgShifts) > 3) {
-        newViolations.push(`${pharmacist}上班節數不平均`);
-      }
-      if (Math.abs(s.morningEveningDays - avgMorningEvening) > 1) {
-        newViolations.push(`${pharmacist}早晚班天數不平均`);
-      }
-      if (Math.abs(s.mondayHolidays - avgMondayHolidays) > 1) {
-        newViolations.push(`${pharmacist}週一假期不平均`);
-      }
-      if (Math.abs(s.saturdayHolidays - avgSaturdayHolidays) > 1) {
-        newViolations.push(`${pharmacist}週六假期不平均`);
-      }
-    });
+  // 檢查排班違規
+  const checkViolations = useCallback(() => {
+    const newViolations = validateSchedule(
+      {
+        currentMonth,
+        pharmacists: roster,
+        schedule,
+        availability,
+        overtime,
+        coverageRules,
+        holidays,
+        fte,
+        shiftDefinitions,
+      },
+      ruleConfig
+    );
 
     setViolations(newViolations);
-  }, [currentMonth, schedule, pharmacists]);
+  }, [
+    currentMonth,
+    schedule,
+    roster,
+    availability,
+    overtime,
+    coverageRules,
+    holidays,
+    fte,
+    shiftDefinitions,
+    ruleConfig,
+  ]);
 
   useEffect(() => {
     checkViolations();
@@ -134,18 +215,57 @@ export default function Home() {
 
   // 自動存檔功能
   const performAutoSave = useCallback(async () => {
+    // 還沒有任何資料或編輯時不建立快照（例如頁面剛載入），避免空白快照擠掉舊的版本
+    const isBlank =
+      Object.keys(schedule).length === 0 &&
+      Object.keys(notes).length === 0 &&
+      Object.keys(availability).length === 0 &&
+      history.past.length === 0;
+    if (isBlank) return;
+
     setIsAutoSaving(true);
     try {
-      const success = autoSave(currentMonth, pharmacists, schedule, notes);
-      if (success) {
+      const result = autoSave(currentMonth, pharmacists, schedule, notes, {
+        months: monthIndex,
+        archivedPharmacists,
+        availability,
+        overtime,
+        coverageRules,
+        holidays,
+        fte,
+        ruleConfig,
+        shiftDefinitions,
+        history,
+        extras: fileExtras,
+      });
+      if (result.success) {
         setLastAutoSave(new Date());
+      } else if (result.error === QUARANTINE_FULL_ERROR) {
+        // 以固定 id 顯示，每次自動存檔失敗不會重複堆疊
+        toast.error(result.error, { id: "autosave-quota", duration: 10000 });
       }
     } catch (error) {
       console.error('自動存檔失敗:', error);
     } finally {
       setIsAutoSaving(false);
     }
-  }, [currentMonth, pharmacists, schedule, notes]);
+  }, [
+    currentMonth,
+    monthIndex,
+    pharmacists,
+    archivedPharmacists,
+    schedule,
+    notes,
+    availability,
+    overtime,
+    coverageRules,
+    holidays,
+    fte,
+    ruleConfig,
+    shiftDefinitions,
+    history,
+    fileExtras,
+  ]);
 
   // 當排班資料變更時自動存檔（延遲500ms避免頻繁存檔）
   useEffect(() => {
@@ -156,7 +276,44 @@ export default function Home() {
     return () => clearTimeout(timeoutId);
   }, [performAutoSave]);
 
-  // 頁面載入時檢查是否有自動存檔
+  // 以自動存檔快照取代目前的狀態（未指定時使用最新的快照）
+  const restoreAutoSave = useCallback((snapshotId?: string) => {
+    const result = loadAutoSave(snapshotId);
+    if (!result.success || !result.data) {
+      toast.error('自動存檔載入失敗：' + result.errors.join('\n'));
+      return false;
+    }
+
+    const appState = saveDataToAppState(result.data);
+    setCurrentMonth(appState.currentMonth);
+    setMonthIndex(appState.months);
+    setPharmacists(appState.pharmacists);
+    setArchivedPharmacists(appState.archivedPharmacists);
+    setSchedule(appState.schedule);
+    setNotes(appState.notes);
+    setAvailability(appState.availability);
+    setOvertime(appState.overtime);
+    setCoverageRules(appState.coverageRules);
+    setHolidays(appState.holidays);
+    setFte(appState.fte);
+    setRuleConfig(appState.ruleConfig);
+    setShiftDefinitions(appState.shiftDefinitions);
+    setHistory(appState.history);
+    setFileExtras(appState.extras);
+    setLastAutoSave(new Date(result.data.savedAt));
+    // 之後的自動存檔寫入新的快照，不覆蓋較新的版本
+    startNewSnapshot();
+
+    if (result.warnings.length > 0) {
+      toast('注意：' + result.warnings.join('\n'), {
+        icon: '⚠️',
+        duration: 6000,
+      });
+    }
+    return true;
+  }, []);
+
+  // 頁面載入時檢查是否有自動存檔（其他快照可從「快照」按鈕選擇還原）
   useEffect(() => {
     const autoSaveInfo = getAutoSaveInfo();
     if (autoSaveInfo.hasAutoSave && autoSaveInfo.savedAt) {
@@ -165,41 +322,214 @@ export default function Home() {
       );
       
       if (shouldRestore) {
-        const result = loadAutoSave();
-        if (result.success && result.data) {
-          const appState = saveDataToAppState(result.data);
-          setCurrentMonth(appState.currentMonth);
-          setPharmacists(appState.pharmacists);
-          setSchedule(appState.schedule);
-          setNotes(appState.notes);
-          setLastAutoSave(new Date(result.data.savedAt));
-          
-          if (result.warnings.length > 0) {
-            toast('注意：' + result.warnings.join('\n'), {
-              icon: '⚠️',
-              duration: 6000,
-            });
-          }
-        } else {
-          toast.error('自動存檔載入失敗：' + result.errors.join('\n'));
-        }
+        restoreAutoSave();
       }
     }
+  }, [restoreAutoSave]);
+
+  // 從快照瀏覽器還原指定的快照
+  const handleRestoreSnapshot = (snapshotId: string) => {
+    if (restoreAutoSave(snapshotId)) {
+      toast.success('已還原快照');
+    }
+  };
+
+  // 編輯記錄涵蓋的工作區資料
+  const editableState: EditableState = {
+    months: monthIndex,
+    pharmacists,
+    archivedPharmacists,
+    schedule,
+    notes,
+    availability,
+    overtime,
+    fte,
+  };
+
+  const applyEditableState = (next: Partial<EditableState>) => {
+    if (next.months) setMonthIndex(next.months);
+    if (next.pharmacists) setPharmacists(next.pharmacists);
+    if (next.archivedPharmacists) setArchivedPharmacists(next.archivedPharmacists);
+    if (next.schedule) setSchedule(next.schedule);
+    if (next.notes) setNotes(next.notes);
+    if (next.availability) setAvailability(next.availability);
+    if (next.overtime) setOvertime(next.overtime);
+    if (next.fte) setFte(next.fte);
+  };
+
+  // 套用一次編輯並加入編輯記錄；沒有實際變更時不記錄
+  const commitEdit = (
+    label: string,
+    next: Partial<EditableState>,
+    mergeKey?: string
+  ) => {
+    const patch = createPatch(editableState, next);
+    if (isEmptyPatch(patch)) return;
+    applyEditableState(next);
+    setHistory((prev) => pushHistory(prev, { label, mergeKey, patch }));
+  };
+
+  // 復原或重做一筆記錄；涉及鎖定中月份的記錄不可套用
+  // （若該記錄本身改變了月份狀態，例如載入存檔，則以套用後的狀態判斷）
+  const replayHistory = (direction: "undo" | "redo") => {
+    const result =
+      direction === "undo" ? undoHistory(history) : redoHistory(history);
+    if (!result) return;
+
+    const next = applyPatch(editableState, result.entry.patch, direction);
+    const nextMonths = next.months ?? monthIndex;
+    const lockedMonths = getPatchMonths(result.entry.patch).filter(
+      (monthKey) =>
+        !isMonthEditable(monthIndex, monthKey) &&
+        !isMonthEditable(nextMonths, monthKey)
+    );
+    if (lockedMonths.length > 0) {
+      toast.error(
+        `${lockedMonths.join("、")} 已鎖定，請先解除鎖定再${
+          direction === "undo" ? "復原" : "重做"
+        }`
+      );
+      return;
+    }
+
+    applyEditableState(next);
+    setHistory(result.history);
+    toast(
+      `${direction === "undo" ? "已復原" : "已重做"}：${result.entry.label}`,
+      { duration: 2000 }
+    );
+  };
+
+  const handleUndo = () => replayHistory("undo");
+  const handleRedo = () => replayHistory("redo");
+
+  // 鍵盤快捷鍵：Ctrl+Z 復原、Ctrl+Shift+Z（或 Ctrl+Y）重做；
+  // 在輸入框中保留瀏覽器原生的文字復原。監聽只註冊一次，透過 ref 呼叫最新的 replayHistory
+  const replayHistoryRef = useRef(replayHistory);
+  // 每次重新渲染後更新為最新的函式（不需依賴陣列）
+  useEffect(() => {
+    replayHistoryRef.current = replayHistory;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        replayHistoryRef.current("undo");
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        replayHistoryRef.current("redo");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
-  // 手動存檔
-  const handleSave = async () => {
-    const saveData = createSaveData(currentMonth, pharmacists, schedule, notes);
-    const result = await saveToFile(saveData);
-    
+  // 存檔指定月份（排班、備註、請假登記與加班明細只保留這些月份）；指定版本時存為舊版格式
+  const saveMonths = async (monthKeys: string[], targetVersion?: string) => {
+    const slice = sliceWorkspace(
+      { months: monthIndex, schedule, notes, availability, overtime },
+      monthKeys
+    );
+    const saveData = createSaveData(
+      currentMonth,
+      pharmacists,
+      slice.schedule,
+      slice.notes,
+      {
+        months: slice.months,
+        archivedPharmacists,
+        availability: slice.availability,
+        overtime: slice.overtime,
+        coverageRules,
+        holidays,
+        fte,
+        ruleConfig,
+        shiftDefinitions,
+        extras: fileExtras,
+      }
+    );
+    if (targetVersion) {
+      const warnings = getDowngradeWarnings(saveData, targetVersion);
+      if (
+        warnings.length > 0 &&
+        !window.confirm(`${warnings.join('\n')}\n確定要繼續嗎？`)
+      ) {
+        return false;
+      }
+    }
+    const result = await saveToFile(
+      saveData,
+      monthKeys.length > 1
+        ? generateFileName(
+            parseMonthKey(monthKeys[0]),
+            parseMonthKey(monthKeys[monthKeys.length - 1])
+          )
+        : undefined,
+      targetVersion
+    );
+
     if (!result.success) {
       toast.error('存檔失敗：' + result.error);
     }
+    return result.success;
   };
 
-  // 手動讀檔
+  // 手動存檔（整個工作區）
+  const handleSave = async () => {
+    await saveMonths(workspaceMonths);
+  };
+
+  // 另存為舊版本，讓尚未更新的程式也能開啟
+  const handleSaveAsVersion = async (version: string) => {
+    if (await saveMonths(workspaceMonths, version)) {
+      toast.success(`已存為 ${version} 版的存檔`);
+    }
+  };
+
+  // 存檔所選的月份範圍
+  const handleSaveRange = async (from: string, to: string) => {
+    const monthKeys = getMonthKeyRange(from, to);
+    if (await saveMonths(monthKeys)) {
+      toast.success(`已存檔 ${monthKeys.length} 個月份`);
+    }
+  };
+
+  // 手動讀檔：以存檔內容取代工作區中相同月份的資料，其他月份保持不變
   const handleLoad = async (file: File) => {
-    const result = await loadFromFile(file);
+    let result = await loadFromFile(file);
+
+    // 格式有問題但可以修復時，列出修改內容讓使用者確認
+    if (!result.success && result.repair?.data) {
+      const { changes, data } = result.repair;
+      const shouldRepair = window.confirm(
+        `存檔有 ${changes.length} 項格式問題，修復後可以載入：\n` +
+          changes.slice(0, MAX_REPAIR_REPORT_LINES).map((change) => `・${change}`).join('\n') +
+          (changes.length > MAX_REPAIR_REPORT_LINES
+            ? `\n…另有 ${changes.length - MAX_REPAIR_REPORT_LINES} 項`
+            : '') +
+          '\n\n確定要修復並載入嗎？（原始檔案不會變更）'
+      );
+      if (!shouldRepair) return;
+      result = {
+        success: true,
+        data,
+        errors: [],
+        warnings: [`已修復存檔中的 ${changes.length} 項問題`],
+      };
+    }
     
     if (!result.success) {
       toast.error('讀檔失敗：\n' + result.errors.join('\n'));
@@ -207,17 +537,56 @@ export default function Home() {
     }
     
     if (result.data) {
+      const appState = saveDataToAppState(result.data);
+      const incoming = {
+        months: appState.months,
+        schedule: appState.schedule,
+        notes: appState.notes,
+        availability: appState.availability,
+        overtime: appState.overtime,
+      };
+      const monthKeys = getWorkspaceMonths(incoming);
+      const mergedRoster = mergeRosters(
+        { pharmacists, archived: archivedPharmacists },
+        { pharmacists: appState.pharmacists, archived: appState.archivedPharmacists }
+      );
+
+      if (mergedRoster.pharmacists.length > MAX_PHARMACISTS) {
+        toast.error(`合併後藥師數量超過${MAX_PHARMACISTS}位，請先封存部分藥師`);
+        return;
+      }
+
       // 確認是否要覆蓋當前資料
       const shouldOverwrite = window.confirm(
-        '載入存檔將會覆蓋當前的排班資料，確定要繼續嗎？'
+        (monthKeys.length > 0
+          ? `載入存檔將會覆蓋工作區中 ${monthKeys.join('、')} 的排班資料，其他月份保持不變，確定要繼續嗎？`
+          : '存檔中沒有排班資料，只會載入藥師名單與設定，確定要繼續嗎？') +
+          '\n（若要先檢視差異再逐項接受，請改用「比較」）'
       );
       
       if (shouldOverwrite) {
-        const appState = saveDataToAppState(result.data);
+        const merged = mergeWorkspace(
+          { months: monthIndex, schedule, notes, availability, overtime },
+          incoming,
+          monthKeys
+        );
+        // 工作區資料的變更可以復原；排班規則等設定直接套用
+        commitEdit(`載入存檔 ${file.name}`, {
+          months: merged.months,
+          pharmacists: mergedRoster.pharmacists,
+          archivedPharmacists: mergedRoster.archived,
+          schedule: merged.schedule,
+          notes: merged.notes,
+          availability: merged.availability,
+          overtime: merged.overtime,
+          fte: { ...fte, ...appState.fte },
+        });
         setCurrentMonth(appState.currentMonth);
-        setPharmacists(appState.pharmacists);
-        setSchedule(appState.schedule);
-        setNotes(appState.notes);
+        setCoverageRules(appState.coverageRules);
+        setHolidays((prev) => ({ ...prev, ...appState.holidays }));
+        setRuleConfig(appState.ruleConfig);
+        setShiftDefinitions(appState.shiftDefinitions);
+        setFileExtras((prev) => ({ ...prev, ...appState.extras }));
         setLastAutoSave(new Date(result.data.savedAt));
         
         if (result.warnings.length > 0) {
@@ -230,63 +599,442 @@ export default function Home() {
     }
   };
 
+  // 比較結果：與目前的工作區比較時才能接受差異
+  const comparison = useMemo<ScheduleComparison | null>(() => {
+    if (!compareSource) return null;
+    const base = compareSource.base ?? {
+      pharmacists,
+      archivedPharmacists,
+      schedule,
+      notes,
+    };
+    return {
+      title: compareSource.title,
+      diff: diffSchedules(base, compareSource.incoming, compareSource.monthKeys),
+      canApply: !compareSource.base,
+    };
+  }, [compareSource, pharmacists, archivedPharmacists, schedule, notes]);
+
+  // 讀取存檔並與目前的工作區比較，不變更任何資料
+  const handleCompareFile = async (file: File) => {
+    const result = await loadFromFile(file);
+    if (!result.success || !result.data) {
+      toast.error('讀檔失敗：\n' + result.errors.join('\n'));
+      return;
+    }
+
+    const appState = saveDataToAppState(result.data);
+    setCompareSource({
+      title: file.name,
+      incoming: {
+        pharmacists: appState.pharmacists,
+        archivedPharmacists: appState.archivedPharmacists,
+        schedule: appState.schedule,
+        notes: appState.notes,
+      },
+      monthKeys: getWorkspaceMonths(appState),
+    });
+    setCurrentMonth(appState.currentMonth);
+  };
+
+  // 比較快照：一份時與目前的工作區比較，兩份時以較舊的快照為基準（僅供檢視）
+  const handleCompareSnapshots = (snapshotIds: string[]) => {
+    const loaded = [];
+    for (const id of snapshotIds) {
+      const result = loadAutoSave(id);
+      if (!result.success || !result.data) {
+        toast.error('快照載入失敗：' + result.errors.join('\n'));
+        return;
+      }
+      loaded.push(result.data);
+    }
+    if (loaded.length === 0) return;
+
+    const sides = loaded
+      .sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+      .map((data) => {
+        const appState = saveDataToAppState(data);
+        return {
+          title: new Date(data.savedAt).toLocaleString('zh-TW'),
+          currentMonth: appState.currentMonth,
+          monthKeys: getWorkspaceMonths(appState),
+          side: {
+            pharmacists: appState.pharmacists,
+            archivedPharmacists: appState.archivedPharmacists,
+            schedule: appState.schedule,
+            notes: appState.notes,
+          },
+        };
+      });
+    const incoming = sides[sides.length - 1];
+    const base = sides.length > 1 ? sides[0] : undefined;
+
+    setCompareSource({
+      title: base
+        ? `快照 ${base.title} → ${incoming.title}`
+        : `快照 ${incoming.title}`,
+      incoming: incoming.side,
+      monthKeys: [
+        ...new Set([...(base?.monthKeys ?? []), ...incoming.monthKeys]),
+      ].sort(),
+      base: base?.side,
+    });
+    setCurrentMonth(incoming.currentMonth);
+  };
+
+  // 接受選取的差異；鎖定月份中的差異不會套用
+  const handleAcceptCompare = ({ cells, notes: noteChanges }: CompareSelection) => {
+    const isEditable = (dateKey: string) =>
+      isMonthEditable(monthIndex, dateKey.slice(0, 7));
+    const acceptedCells = cells.filter((change) => isEditable(change.dateKey));
+    const acceptedNotes = noteChanges.filter((change) =>
+      isEditable(change.dateKey)
+    );
+    const skipped =
+      cells.length + noteChanges.length - acceptedCells.length - acceptedNotes.length;
+    if (skipped > 0) {
+      toast.error(`有 ${skipped} 項差異位於鎖定的月份，未套用`);
+    }
+    if (acceptedCells.length === 0 && acceptedNotes.length === 0) return;
+
+    const nextSchedule = applyCellChanges(schedule, acceptedCells);
+    commitEdit(
+      `接受比較差異（${acceptedCells.length} 格排班、${acceptedNotes.length} 則備註）`,
+      {
+        schedule: nextSchedule,
+        notes: applyNoteChanges(notes, acceptedNotes),
+        overtime: removeStaleOvertime(overtime, nextSchedule),
+      }
+    );
+  };
+
+  // 接受名單差異：加入對方新增的藥師，或套用姓名、簡稱與顏色
+  const handleAcceptRosterChange = ({ id, kind, after }: RosterChange) => {
+    if (!after) return;
+    const { name, label, color } = after;
+
+    if (kind === "added") {
+      if (pharmacists.length >= MAX_PHARMACISTS) {
+        toast.error(`藥師數量已達上限${MAX_PHARMACISTS}位，請先封存部分藥師`);
+        return;
+      }
+      commitEdit(`新增藥師${name}`, {
+        pharmacists: [...pharmacists, { id, name, label, color }],
+      });
+      toast.success(`已新增藥師${name}`);
+      return;
+    }
+
+    const update = <T extends Pharmacist>(list: T[]) =>
+      list.map((p) => (p.id === id ? { ...p, name, label, color } : p));
+    commitEdit(`套用比較的藥師資料：${name}`, {
+      pharmacists: update(pharmacists),
+      archivedPharmacists: update(archivedPharmacists),
+    });
+  };
+
+  // 變更月份狀態
+  const handleMonthStatusChange = (monthKey: string, status: MonthStatus) => {
+    if (
+      status === "published" &&
+      !window.confirm(`發布後 ${monthKey} 將無法編輯，確定要發布嗎？`)
+    ) {
+      return;
+    }
+
+    setMonthIndex((prev) => ({
+      ...prev,
+      [monthKey]:
+        status === "published"
+          ? { status, publishedAt: new Date().toISOString() }
+          : { status },
+    }));
+  };
+
+  // 鎖定或已發布的月份不可編輯
+  const ensureEditable = (date: Date) => {
+    if (isMonthEditable(monthIndex, toMonthKey(date))) return true;
+    toast.error("此月份已鎖定，請先解除鎖定再編輯");
+    return false;
+  };
+
   // 處理班別編輯
   const handleShiftEdit = (
     date: Date,
-    pharmacist: string,
-    newShifts: Shift[]
+    pharmacistId: string,
+    newShifts: Shift[],
+    newOvertime: OvertimeEntry | null
   ) => {
-    const dateKey = date.toISOString().split("T")[0];
-    setSchedule((prev) => ({
-      ...prev,
-      [dateKey]: {
-        ...prev[dateKey],
-        [pharmacist]: newShifts,
+    if (!ensureEditable(date)) return;
+    const dateKey = toDateKey(date);
+    const name = getPharmacistName(
+      [...pharmacists, ...archivedPharmacists],
+      pharmacistId
+    );
+    const previousShifts = schedule[dateKey]?.[pharmacistId];
+    const dayOvertime = { ...overtime[dateKey] };
+    if (newOvertime) {
+      dayOvertime[pharmacistId] = newOvertime;
+    } else {
+      delete dayOvertime[pharmacistId];
+    }
+    // 當天已沒有加班明細時移除整個日期
+    const nextOvertime = { ...overtime, [dateKey]: dayOvertime };
+    if (Object.keys(dayOvertime).length === 0) delete nextOvertime[dateKey];
+    // 只改了加班明細時，記錄中列出新的明細或標明已移除
+    const label =
+      formatShifts(previousShifts) !== formatShifts(newShifts)
+        ? `${formatDateLabel(date)} ${name}：${formatShifts(
+            previousShifts
+          )} → ${formatShifts(newShifts)}`
+        : newOvertime
+        ? `${formatDateLabel(date)} ${name}：加班 ${describeOvertimeEntry(newOvertime)}`
+        : `${formatDateLabel(date)} ${name}：移除加班明細`;
+    commitEdit(label, {
+      schedule: {
+        ...schedule,
+        [dateKey]: {
+          ...schedule[dateKey],
+          [pharmacistId]: newShifts,
+        },
       },
-    }));
+      overtime: nextOvertime,
+    });
   };
 
-  // 處理藥師名稱編輯
-  const handlePharmacistNameEdit = (oldName: string, newName: string) => {
-    if (newName.trim() === "" || newName === oldName) {
-      return;
+  // 自動排班（已填寫的格子保持不變）
+  const handleAutoSchedule = () => {
+    if (!ensureEditable(currentMonth)) return;
+
+    const shouldGenerate = window.confirm(
+      "自動排班將依排班規則、勞基法設定與約定工時比例補齊本月所有未填寫的格子，已填寫的格子不會變動。確定要繼續嗎？"
+    );
+    if (!shouldGenerate) return;
+
+    const result = generateSchedule(
+      {
+        currentMonth,
+        pharmacists: roster,
+        schedule,
+        availability,
+        overtime,
+        coverageRules,
+        holidays,
+        fte,
+        shiftDefinitions,
+      },
+      ruleConfig
+    );
+    commitEdit(
+      `自動排班 ${currentMonth.getFullYear()}年${
+        currentMonth.getMonth() + 1
+      }月（補齊 ${result.filledCells} 格）`,
+      { schedule: result.schedule }
+    );
+
+    if (result.unfilledSlots > 0) {
+      toast(
+        `已補齊 ${result.filledCells} 格，但仍有 ${result.unfilledSlots} 個時段人數不足，請手動調整`,
+        { icon: "⚠️", duration: 6000 }
+      );
+    } else {
+      toast.success(`自動排班完成，共補齊 ${result.filledCells} 格`);
+    }
+  };
+
+  // 處理藥師資料編輯（排班記錄以 id 為鍵，改名不需改寫其他資料）
+  const handlePharmacistEdit = (
+    id: string,
+    changes: Partial<Omit<Pharmacist, "id">>
+  ) => {
+    const pharmacist = pharmacists.find((p) => p.id === id);
+    if (!pharmacist) return;
+
+    if (changes.name !== undefined) {
+      const nameError = validatePharmacistName(changes.name);
+      if (nameError) {
+        toast.error(nameError);
+        return;
+      }
+      changes = { ...changes, name: changes.name.trim() };
     }
 
-    // 更新藥師名單
-    setPharmacists((prev) =>
-      prev.map((name) => (name === oldName ? newName.trim() : name))
+    const label =
+      changes.name !== undefined
+        ? `${pharmacist.name}改名為${changes.name}`
+        : changes.label !== undefined
+          ? `變更${pharmacist.name}的簡稱為${changes.label}`
+          : `變更${pharmacist.name}的代表顏色`;
+    // 調整顏色或簡稱時會連續觸發，合併為一筆記錄
+    commitEdit(
+      label,
+      {
+        pharmacists: pharmacists.map((p) =>
+          p.id === id ? { ...p, ...changes } : p
+        ),
+      },
+      `pharmacist-${id}-${Object.keys(changes).join(",")}`
     );
+  };
 
-    // 更新排班記錄中的藥師名稱
-    setSchedule((prev) => {
-      const newSchedule = { ...prev };
-      Object.keys(newSchedule).forEach((dateKey) => {
-        if (newSchedule[dateKey][oldName]) {
-          newSchedule[dateKey][newName.trim()] = newSchedule[dateKey][oldName];
-          delete newSchedule[dateKey][oldName];
-        }
+  // 新增藥師
+  const handleAddPharmacist = (name: string) => {
+    commitEdit(`新增藥師${name}`, {
+      pharmacists: [
+        ...pharmacists,
+        createPharmacist(name, [...pharmacists, ...archivedPharmacists]),
+      ],
+    });
+    toast.success(`已新增藥師${name}`);
+  };
+
+  // 調整藥師順序
+  const handleReorderPharmacists = (reordered: Pharmacist[]) => {
+    commitEdit("調整藥師順序", { pharmacists: reordered });
+  };
+
+  // 移除藥師：今天起的班次清除或轉給他人，封存時保留過去的班表
+  const handleRemovePharmacist = (
+    id: string,
+    { reassignTo, archive }: RemovePharmacistOptions
+  ) => {
+    const pharmacist = pharmacists.find((p) => p.id === id);
+    if (!pharmacist) return;
+
+    // 鎖定或已發布月份的資料不隨刪除或封存變動
+    const todayKey = getTodayKey();
+    const fromDateKey = archive ? todayKey : undefined;
+    const handled = reassignTo
+      ? reassignFutureShifts(schedule, id, reassignTo, todayKey)
+      : removePharmacistEntries(schedule, id, todayKey);
+    const nextSchedule = keepLockedMonths(
+      monthIndex,
+      archive ? handled : removePharmacistEntries(handled, id),
+      schedule
+    );
+    const nextAvailability = keepLockedMonths(
+      monthIndex,
+      removePharmacistEntries(availability, id, fromDateKey),
+      availability
+    );
+    const nextOvertime = keepLockedMonths(
+      monthIndex,
+      removePharmacistEntries(overtime, id, fromDateKey),
+      overtime
+    );
+
+    const hasLockedEntries = [nextSchedule, nextAvailability, nextOvertime].some(
+      (data) => Object.values(data).some((day) => id in day)
+    );
+    if (!archive && hasLockedEntries) {
+      toast.error(
+        `${pharmacist.name}在鎖定或已發布的月份仍有記錄，無法永久刪除，請改為封存`
+      );
+      return;
+    }
+
+    const nextState: Partial<EditableState> = {
+      schedule: nextSchedule,
+      availability: nextAvailability,
+      overtime: nextOvertime,
+      pharmacists: pharmacists.filter((p) => p.id !== id),
+    };
+
+    if (archive) {
+      commitEdit(`封存藥師${pharmacist.name}`, {
+        ...nextState,
+        archivedPharmacists: [
+          ...archivedPharmacists,
+          { ...pharmacist, archivedAt: todayKey },
+        ],
       });
-      return newSchedule;
+      toast.success(`已封存${pharmacist.name}，過去月份仍會顯示其班表`);
+    } else {
+      const nextFte = { ...fte };
+      delete nextFte[id];
+      commitEdit(`刪除藥師${pharmacist.name}`, { ...nextState, fte: nextFte });
+      toast.success(`已刪除${pharmacist.name}`);
+    }
+  };
+
+  // 恢復封存的藥師
+  const handleRestorePharmacist = (id: string) => {
+    const entry = archivedPharmacists.find((p) => p.id === id);
+    if (!entry) return;
+    if (pharmacists.length >= MAX_PHARMACISTS) {
+      toast.error(`藥師數量已達上限${MAX_PHARMACISTS}位，請先封存部分藥師`);
+      return;
+    }
+
+    const pharmacist: Pharmacist = {
+      id: entry.id,
+      name: entry.name,
+      label: entry.label,
+      color: entry.color,
+    };
+    commitEdit(`恢復藥師${entry.name}`, {
+      archivedPharmacists: archivedPharmacists.filter((p) => p.id !== id),
+      pharmacists: [...pharmacists, pharmacist],
     });
   };
 
-  // 處理備註編輯
+  // 處理備註編輯（連續輸入同一天的備註合併為一筆記錄）
   const handleNoteEdit = (date: Date, note: string) => {
-    const dateKey = date.toISOString().split("T")[0];
-    setNotes((prev) => ({
-      ...prev,
-      [dateKey]: note,
-    }));
+    if (!ensureEditable(date)) return;
+    const dateKey = toDateKey(date);
+    commitEdit(
+      `${formatDateLabel(date)} 備註`,
+      { notes: { ...notes, [dateKey]: note } },
+      `note-${dateKey}`
+    );
   };
 
-  // 導出為日曆格式
-  const exportCalendar = () => {
+  // 處理請假登記編輯
+  const handleAvailabilityEdit = (
+    date: Date,
+    pharmacistId: string,
+    newAvailability: Availability | null
+  ) => {
+    if (!ensureEditable(date)) return;
+    const dateKey = toDateKey(date);
+    const dayAvailability = { ...availability[dateKey] };
+    if (newAvailability) {
+      dayAvailability[pharmacistId] = newAvailability;
+    } else {
+      delete dayAvailability[pharmacistId];
+    }
+    const name = getPharmacistName(
+      [...pharmacists, ...archivedPharmacists],
+      pharmacistId
+    );
+    commitEdit(
+      `${formatDateLabel(date)} ${name}：${
+        newAvailability ? AVAILABILITY_LABELS[newAvailability] : "取消請假登記"
+      }`,
+      { availability: { ...availability, [dateKey]: dayAvailability } }
+    );
+  };
+
+  // 規則設定不在編輯記錄中；約定工時比例是可復原的資料，需經由 commitEdit 修改
+  const handleFairnessSettingsChange = (
+    newConfig: RuleConfig,
+    newFte: PharmacistFte
+  ) => {
+    setRuleConfig(newConfig);
+    commitEdit("修改約定工時比例", { fte: newFte });
+  };
+
+  // 導出為日曆格式：合併為一個檔案，或每位藥師各一個檔案供個人訂閱
+  const handleExportCalendar = async (mode: CalendarExportMode) => {
     try {
       // 如果有違規，先詢問用戶是否確定要導出
       if (violations.length > 0) {
         const confirmMessage = `目前排班存在 ${
           violations.length
-        } 項違規：\n\n${violations.slice(0, 5).join("\n")}${
+        } 項違規：\n\n${violations
+          .slice(0, 5)
+          .map((v) => v.message)
+          .join("\n")}${
           violations.length > 5 ? "\n...(還有更多違規項目)" : ""
         }\n\n確定要導出日曆嗎？`;
 
@@ -295,59 +1043,23 @@ export default function Home() {
         }
       }
 
-      const days = getDaysInMonth(currentMonth);
-      let calendarData =
-        "BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//藥師排班系統//NONSGML v1.0//EN\nCALSCALE:GREGORIAN\nMETHOD:PUBLISH\n";
-
-      days.forEach((day) => {
-        const dateKey = day.toISOString().split("T")[0];
-        const daySchedule = schedule[dateKey] || {};
-        const dateStr = dateKey.replace(/-/g, "");
-
-        pharmacists.forEach((pharmacist) => {
-          const shifts = daySchedule[pharmacist] || [];
-          if (shifts.length > 0) {
-            const shiftText = shifts.join("");
-            const uid = `${dateStr}-${pharmacist.replace(
-              /\s/g,
-              ""
-            )}-${Math.random().toString(36).substr(2, 9)}`;
-
-            calendarData += `BEGIN:VEVENT\n`;
-            calendarData += `UID:${uid}\n`;
-            calendarData += `DTSTART;VALUE=DATE:${dateStr}\n`;
-            calendarData += `DTEND;VALUE=DATE:${dateStr}\n`;
-            calendarData += `SUMMARY:${pharmacist} - ${shiftText}班\n`;
-            calendarData += `DESCRIPTION:藥師排班：${shiftText}班\n`;
-            calendarData += `DTSTAMP:${
-              new Date().toISOString().replace(/[-:]/g, "").split(".")[0]
-            }Z\n`;
-            calendarData += `END:VEVENT\n`;
-          }
-        });
-      });
-
-      calendarData += "END:VCALENDAR";
-
-      // 創建並下載文件
-      const blob = new Blob([calendarData], {
-        type: "text/calendar;charset=utf-8",
+      const fileCount = await exportCalendar(mode, {
+        currentMonth,
+        roster,
+        schedule,
+        notes,
+        shiftDefinitions,
+        holidays,
+        overtime,
       });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `藥師排班_${currentMonth.getFullYear()}_${
-        currentMonth.getMonth() + 1
-      }.ics`;
-      link.style.display = "none";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      if (fileCount === 0) {
+        toast.error("本月沒有任何排班可以匯出");
+        return;
+      }
 
       // 顯示成功訊息
       toast.success(
-        "日曆文件已成功下載！可以匯入到 Google Calendar 或 Apple 日曆中使用。"
+        `已下載 ${fileCount} 個日曆文件！可以匯入到 Google Calendar 或 Apple 日曆中使用，重新匯入會更新既有的班表（已刪除的班別需在日曆中手動移除）。`
       );
     } catch (error) {
       console.error("導出日曆時發生錯誤:", error);
@@ -355,272 +1067,166 @@ export default function Home() {
     }
   };
 
-  // 導出為圖片 - 月曆格式
-  const handleExportImage = () => {
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+  // 匯出試算表：本月的排班表、備註、統計與加班明細
+  const handleExportSpreadsheet = async (format: SpreadsheetFormat) => {
+    try {
+      await exportSpreadsheet(format, {
+        currentMonth,
+        roster,
+        schedule,
+        notes,
+        holidays,
+        shiftDefinitions,
+        overtime,
+      });
+      toast.success(`已匯出 ${SPREADSHEET_FORMAT_LABELS[format]} 檔案`);
+    } catch (error) {
+      console.error("匯出試算表時發生錯誤:", error);
+      toast.error("匯出試算表時發生錯誤，請稍後再試。");
+    }
+  };
 
-    // 設置畫布大小和樣式
-    const cellWidth = 180;
-    const cellHeight = 140;
-    const headerHeight = 50;
-    const titleHeight = 60;
-    const padding = 20;
+  // 匯出本月加班報表
+  const handleExportOvertimeReport = async (format: SpreadsheetFormat) => {
+    try {
+      await exportOvertimeReport(format, {
+        currentMonth,
+        roster,
+        schedule,
+        notes,
+        holidays,
+        shiftDefinitions,
+        overtime,
+      });
+      toast.success(`已匯出加班報表（${SPREADSHEET_FORMAT_LABELS[format]}）`);
+    } catch (error) {
+      console.error("匯出加班報表時發生錯誤:", error);
+      toast.error("匯出加班報表時發生錯誤，請稍後再試。");
+    }
+  };
 
-    const weekDays = ["日", "一", "二", "三", "四", "五", "六"];
+  // 匯入試算表：以表格中的日期取代對應的格子，沒有對應到欄位的藥師保持不變
+  const handleImportSpreadsheet = async (file: File) => {
+    let rows: string[][];
+    try {
+      rows = await readSpreadsheetFile(file);
+    } catch (error) {
+      console.error("讀取試算表時發生錯誤:", error);
+      toast.error("無法讀取試算表，請檢查檔案格式（支援 CSV 與 .xlsx）");
+      return;
+    }
 
-    // 計算月曆佈局
-    const firstDay = new Date(
-      currentMonth.getFullYear(),
-      currentMonth.getMonth(),
-      1
-    );
-    const lastDay = new Date(
-      currentMonth.getFullYear(),
-      currentMonth.getMonth() + 1,
-      0
-    );
-    const startDate = new Date(firstDay);
-    startDate.setDate(startDate.getDate() - firstDay.getDay()); // 從週日開始
-
-    const totalWeeks = Math.ceil((lastDay.getDate() + firstDay.getDay()) / 7);
-
-    const totalWidth = cellWidth * 7 + padding * 2;
-    const totalHeight =
-      titleHeight + headerHeight + cellHeight * totalWeeks + padding * 2;
-
-    canvas.width = totalWidth;
-    canvas.height = totalHeight;
-
-    // 設置背景為白色
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // 繪製標題
-    ctx.fillStyle = "#1e40af";
-    ctx.font = "bold 28px Arial, sans-serif";
-    ctx.textAlign = "center";
-    ctx.fillText(
-      `${currentMonth.getFullYear()}年 ${currentMonth.getMonth() + 1}月 排班表`,
-      totalWidth / 2,
-      padding + titleHeight / 2 + 10
-    );
+    const result = parseScheduleRows(rows, [...pharmacists, ...archivedPharmacists], currentMonth);
+    if (!result.success) {
+      toast.error("匯入失敗：\n" + result.errors.slice(0, MAX_REPAIR_REPORT_LINES).join("\n"));
+      return;
+    }
 
-    // 繪製星期標題背景
-    ctx.fillStyle = "#f8fafc";
-    ctx.fillRect(
-      padding,
-      padding + titleHeight,
-      totalWidth - padding * 2,
-      headerHeight
+    const lockedMonths = result.monthKeys.filter(
+      (monthKey) => !isMonthEditable(monthIndex, monthKey)
     );
+    if (lockedMonths.length > 0) {
+      toast.error(`${lockedMonths.join("、")} 已鎖定，請先解除鎖定再匯入`);
+      return;
+    }
 
-    // 繪製星期標題邊框
-    ctx.strokeStyle = "#cbd5e1";
-    ctx.lineWidth = 1;
-    ctx.strokeRect(
-      padding,
-      padding + titleHeight,
-      totalWidth - padding * 2,
-      headerHeight
+    const dateKeys = Object.keys(result.schedule);
+    const { warnings } = result;
+    const shouldImport = window.confirm(
+      `將匯入 ${formatImportMonths(result.monthKeys)} 共 ${dateKeys.length} 天、` +
+        `${result.pharmacistIds.length} 位藥師的排班，覆蓋目前對應的格子` +
+        (warnings.length > 0
+          ? `\n\n${warnings.length} 項內容無法匯入：\n` +
+            warnings.slice(0, MAX_REPAIR_REPORT_LINES).map((warning) => `・${warning}`).join("\n") +
+            (warnings.length > MAX_REPAIR_REPORT_LINES
+              ? `\n…另有 ${warnings.length - MAX_REPAIR_REPORT_LINES} 項`
+              : "")
+          : "") +
+        "\n\n確定要匯入嗎？"
     );
-
-    // 繪製星期標題
-    weekDays.forEach((day, index) => {
-      const x = padding + cellWidth * index;
-      const isWeekend = index === 0 || index === 6;
-
-      ctx.fillStyle = isWeekend ? "#dc2626" : "#1f2937";
-      ctx.font = "bold 18px Arial, sans-serif";
-      ctx.textAlign = "center";
-      ctx.fillText(
-        day,
-        x + cellWidth / 2,
-        padding + titleHeight + headerHeight / 2 + 7
-      );
+    if (!shouldImport) return;
+
+    const nextSchedule = { ...schedule };
+    const nextNotes = { ...notes };
+    dateKeys.forEach((dateKey) => {
+      nextSchedule[dateKey] = { ...schedule[dateKey], ...result.schedule[dateKey] };
+      if (result.notes[dateKey]) {
+        nextNotes[dateKey] = result.notes[dateKey];
+      } else if (result.hasNotes) {
+        delete nextNotes[dateKey];
+      }
     });
+    // 匯入後不再有「加」的格子，其加班明細一併移除
+    commitEdit(`匯入試算表 ${file.name}`, {
+      schedule: nextSchedule,
+      notes: nextNotes,
+      overtime: removeStaleOvertime(overtime, nextSchedule),
+    });
+    toast.success(`已匯入 ${dateKeys.length} 天的排班`);
+  };
 
-    // 繪製月曆格子
-    for (let week = 0; week < totalWeeks; week++) {
-      for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
-        const currentDate = new Date(startDate);
-        currentDate.setDate(startDate.getDate() + week * 7 + dayOfWeek);
-
-        const x = padding + cellWidth * dayOfWeek;
-        const y = padding + titleHeight + headerHeight + cellHeight * week;
-
-        const isCurrentMonth =
-          currentDate.getMonth() === currentMonth.getMonth();
-        const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-        const isToday =
-          currentDate.toDateString() === new Date().toDateString();
-
-        // 設置格子背景色
-        if (!isCurrentMonth) {
-          ctx.fillStyle = "#f8fafc";
-        } else if (isToday) {
-          ctx.fillStyle = "#fef3c7";
-        } else if (isWeekend) {
-          ctx.fillStyle = "#fef2f2";
-        } else {
-          ctx.fillStyle = "#ffffff";
-        }
-
-        ctx.fillRect(x, y, cellWidth, cellHeight);
-
-        // 繪製格子邊框
-        ctx.strokeStyle = "#e2e8f0";
-        ctx.lineWidth = 1;
-        ctx.strokeRect(x, y, cellWidth, cellHeight);
-
-        // 繪製日期數字
-        const dateNum = currentDate.getDate();
-        ctx.fillStyle = isCurrentMonth
-          ? isWeekend
-            ? "#dc2626"
-            : "#1f2937"
-          : "#9ca3af";
-        ctx.font = isToday
-          ? "bold 16px Arial, sans-serif"
-          : "14px Arial, sans-serif";
-        ctx.textAlign = "left";
-        ctx.fillText(dateNum.toString(), x + 8, y + 20);
-
-        // 如果是當前月份的日期，繪製排班信息
-        if (isCurrentMonth) {
-          const dateKey = currentDate.toISOString().split("T")[0];
-          const daySchedule = schedule[dateKey] || {};
-
-          // 定義藥師顏色（使用不同的色調）
-          const pharmacistColors = [
-            { bg: "#dcfce7", text: "#166534" }, // 綠色系
-            { bg: "#f7e259", text: "#995c02" }, // 黃色系
-            { bg: "#f9bfff", text: "#621e69" }, // 紫色系
-            { bg: "#dbeafe", text: "#1e40af" }, // 藍色系
-          ];
-
-          // 計算三行的高度和位置（移除時段標籤）
-          const rowHeight = (cellHeight - 50) / 3; // 減去日期和padding的空間
-          const rowWidth = cellWidth - 16; // 減去左右padding
-          const startY = y + 30;
-
-          // 繪製三行（早、中、晚）
-          const periods = ["早", "中", "晚"] as const;
-          const periodMapping = { 早: "早", 中: "午", 晚: "晚" } as const;
-
-          periods.forEach((period, rowIndex) => {
-            const rowY = startY + rowIndex * rowHeight;
-            const rowX = x + 8;
-
-            // 收集該時段的藥師
-            const periodPharmacists: {
-              name: string; // 只取姓氏
-              color: { bg: string; text: string };
-            }[] = [];
-            pharmacists.forEach((pharmacist, pharmacistIndex) => {
-              const shifts = daySchedule[pharmacist] || [];
-              const actualPeriod = periodMapping[period];
-              if (shifts.includes(actualPeriod)) {
-                periodPharmacists.push({
-                  name:
-                    pharmacist.charAt(0) + (shifts.includes("加") ? "加" : ""), // 如果是加班，加上 "+" 符號
-                  color:
-                    pharmacistColors[pharmacistIndex % pharmacistColors.length],
-                });
-              }
-            });
-
-            // 繪製該時段的藥師（填滿整個時段區域）
-            const contentX = rowX;
-            const contentWidth = rowWidth;
-            const contentHeight = rowHeight - 2; // 減去邊框
-
-            if (periodPharmacists.length > 0) {
-              // 計算每個藥師色塊的寬度
-              const blockWidth =
-                periodPharmacists.length === 1
-                  ? contentWidth / 2 // 如果只有一個藥師，只填滿左半邊
-                  : contentWidth / periodPharmacists.length;
-
-              periodPharmacists.forEach((pharmacist, index) => {
-                const blockX = contentX + index * blockWidth;
-                const blockY = rowY + 1;
-
-                // 繪製藥師色塊背景
-                ctx.fillStyle = pharmacist.color.bg;
-                ctx.fillRect(blockX, blockY, blockWidth, contentHeight);
-
-                // 繪製色塊邊框
-                ctx.strokeStyle = pharmacist.color.text;
-                ctx.lineWidth = 1;
-                ctx.strokeRect(blockX, blockY, blockWidth, contentHeight);
-
-                // 繪製藥師姓氏
-                ctx.fillStyle = pharmacist.color.text;
-                ctx.font = "bold 18px Arial, sans-serif";
-                ctx.textAlign = "center";
-                ctx.fillText(
-                  pharmacist.name,
-                  blockX + blockWidth / 2,
-                  blockY + contentHeight / 2 + 4
-                );
-              });
-            }
-          });
-
-          // 如果週日，顯示公休
-          if (dayOfWeek === 0) {
-            ctx.fillStyle = "#dc2626";
-            ctx.font = "12px Arial, sans-serif";
-            ctx.textAlign = "center";
-            ctx.fillText("公休", x + cellWidth / 2, y + cellHeight / 2 + 5);
-          }
-
-          // 繪製備註（如果有）
-          const note = notes[dateKey];
-          if (note && note.trim()) {
-            ctx.fillStyle = "#ef4444";
-            ctx.font = "14px Arial, sans-serif";
-            ctx.textAlign = "left";
-            const noteText =
-              note.length > 10 ? note.substring(0, 10) + "..." : note;
-            ctx.fillText("備註:" + noteText, x + 8, y + cellHeight - 8);
-          }
-        }
-      }
+  // 月曆圖片的繪製內容（匯出圖片、PDF、列印與分享共用）
+  const getCalendarRenderInput = (): CalendarRenderInput => ({
+    currentMonth,
+    roster,
+    schedule,
+    notes,
+    holidays,
+    coverageRules,
+    shiftDefinitions,
+    overtime,
+    today: new Date(),
+  });
+
+  // 匯出月曆：圖片、A4 PDF 或列印
+  const handleExportImage = async (output: CalendarImageOutput) => {
+    try {
+      await exportCalendarImage(output, getCalendarRenderInput());
+      toast.success(
+        output === "print"
+          ? "已開啟列印視窗"
+          : `月曆已匯出為${CALENDAR_IMAGE_OUTPUT_LABELS[output]}！`
+      );
+    } catch (error) {
+      console.error("匯出月曆時發生錯誤:", error);
+      toast.error(
+        error instanceof Error ? error.message : "匯出月曆時發生錯誤，請稍後再試。"
+      );
     }
-
-    // 轉換為圖片並下載
-    canvas.toBlob((blob) => {
-      if (!blob) {
-        toast.error("無法生成圖片");
-        return;
-      }
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `藥師排班月曆_${currentMonth.getFullYear()}年${(
-        currentMonth.getMonth() + 1
-      )
-        .toString()
-        .padStart(2, "0")}月.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      toast.success("月曆已成功匯出為圖片！");
-    });
   };
 
   // 分享圖片
   const handleShareImage = async () => {
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    const shareText = `${currentMonth.getFullYear()}年${
+      currentMonth.getMonth() + 1
+    }月藥師排班表`;
+    let canvas: HTMLCanvasElement;
+    let imageFile: File;
+    try {
+      canvas = createCalendarCanvas(getCalendarRenderInput());
+      imageFile = new File(
+        [await canvasToBlob(canvas, "image/png")],
+        `${calendarImageFileName(currentMonth)}.png`,
+        { type: "image/png" }
+      );
+    } catch (error) {
+      console.error("產生月曆圖片時發生錯誤:", error);
+      toast.error("無法生成圖片");
+      return;
+    }
 
-    // ... 複製 handleExportImage 中的繪圖代碼 ...
+    // 瀏覽器支援分享檔案時（多為行動裝置）直接分享圖片
+    if (navigator.canShare?.({ files: [imageFile] })) {
+      try {
+        await navigator.share({ files: [imageFile], title: shareText });
+      } catch (error) {
+        if ((error as DOMException).name !== "AbortError") {
+          console.error("分享圖片時發生錯誤:", error);
+          toast.error("分享失敗，請改用匯出圖片。");
+        }
+      }
+      return;
+    }
 
     // 轉換為 base64 圖片
     const base64Image = canvas.toDataURL("image/png");
@@ -669,9 +1275,6 @@ export default function Home() {
     shareMenu.querySelectorAll(".share-btn").forEach((btn) => {
       btn.addEventListener("click", async (e) => {
         const type = (e.currentTarget as HTMLElement).dataset.type;
-        const shareText = `${currentMonth.getFullYear()}年${
-          currentMonth.getMonth() + 1
-        }月藥師排班表`;
 
         switch (type) {
           case "line":
@@ -715,23 +1318,60 @@ export default function Home() {
   return (
     <ScheduleTable
       currentMonth={currentMonth}
+      workspaceMonths={workspaceMonths}
+      monthIndex={monthIndex}
       pharmacists={pharmacists}
-      schedule={schedule}
-      notes={notes}
+      archivedPharmacists={archivedPharmacists}
+      // 比較兩份快照時顯示較舊的快照，差異標示在其上
+      schedule={compareSource?.base?.schedule ?? schedule}
+      notes={compareSource?.base?.notes ?? notes}
+      availability={availability}
+      overtime={overtime}
+      coverageRules={coverageRules}
+      shiftDefinitions={shiftDefinitions}
+      holidays={holidays}
+      fte={fte}
+      ruleConfig={ruleConfig}
       violations={violations}
+      history={history}
       showStats={showStats}
       lastAutoSave={lastAutoSave || undefined}
       isAutoSaving={isAutoSaving}
       onMonthChange={setCurrentMonth}
-      onPharmacistNameEdit={handlePharmacistNameEdit}
+      onMonthStatusChange={handleMonthStatusChange}
+      onSaveRange={handleSaveRange}
+      onPharmacistEdit={handlePharmacistEdit}
+      onAddPharmacist={handleAddPharmacist}
+      onReorderPharmacists={handleReorderPharmacists}
+      onRemovePharmacist={handleRemovePharmacist}
+      onRestorePharmacist={handleRestorePharmacist}
       onShiftEdit={handleShiftEdit}
       onNoteEdit={handleNoteEdit}
-      onExportCalendar={exportCalendar}
+      onAvailabilityEdit={handleAvailabilityEdit}
+      onCoverageRulesChange={setCoverageRules}
+      onShiftDefinitionsChange={setShiftDefinitions}
+      onHolidaysChange={setHolidays}
+      onFairnessSettingsChange={handleFairnessSettingsChange}
+      onAutoSchedule={handleAutoSchedule}
+      onExportCalendar={handleExportCalendar}
       onExportImage={handleExportImage}
+      onExportSpreadsheet={handleExportSpreadsheet}
+      onExportOvertimeReport={handleExportOvertimeReport}
+      onImportSpreadsheet={handleImportSpreadsheet}
       onShareImage={handleShareImage}
       onToggleStats={() => setShowStats(!showStats)}
       onSave={handleSave}
+      onSaveAsVersion={handleSaveAsVersion}
       onLoad={handleLoad}
+      onUndo={handleUndo}
+      onRedo={handleRedo}
+      onRestoreSnapshot={handleRestoreSnapshot}
+      comparison={comparison}
+      onCompareFile={handleCompareFile}
+      onCompareSnapshots={handleCompareSnapshots}
+      onAcceptCompare={handleAcceptCompare}
+      onAcceptRosterChange={handleAcceptRosterChange}
+      onCloseCompare={() => setCompareSource(null)}
     />
   );
 }
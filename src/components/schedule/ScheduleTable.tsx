@@ -1,63 +1,283 @@
-import { useState } from "react";
-import { Calendar, Users, AlertTriangle } from "lucide-react";
+import { useRef, useState } from "react";
+import {
+  ArchiveRestore,
+  Calendar,
+  Users,
+  AlertTriangle,
+  Settings,
+  CalendarDays,
+  Clock,
+  Scale,
+  UserCog,
+  FileSpreadsheet,
+  FolderOpen,
+  GitMerge,
+  History,
+  Lock,
+  Timer,
+} from "lucide-react";
 import { PharmacistNameEditor } from "../ui/PharmacistNameEditor";
 import { ShiftEditor } from "../ui/ShiftEditor";
+import { CoverageRulesEditor } from "../ui/CoverageRulesEditor";
+import { ShiftDefinitionsEditor } from "../ui/ShiftDefinitionsEditor";
+import { HolidayManager } from "../ui/HolidayManager";
+import { FairnessSettingsEditor } from "../ui/FairnessSettingsEditor";
+import { RosterManager, RemovePharmacistOptions } from "../ui/RosterManager";
+import { WorkspacePanel } from "../ui/WorkspacePanel";
+import { HistoryPanel } from "../ui/HistoryPanel";
+import { SnapshotBrowser } from "../ui/SnapshotBrowser";
+import { MergePanel } from "../ui/MergePanel";
+import { CHANGE_KIND_STYLES, CompareCell, ComparePanel } from "../ui/ComparePanel";
 import { SaveLoadButtons, AutoSaveIndicator } from "../ui/SaveLoadButtons";
+import { OvertimeReportPanel } from "../ui/OvertimeReportPanel";
+import { SpreadsheetFormat, SPREADSHEET_FORMAT_LABELS } from "@/utils/spreadsheetUtils";
+import { CalendarExportMode, CALENDAR_EXPORT_MODE_LABELS } from "@/utils/calendarExport";
+import { CalendarImageOutput, CALENDAR_IMAGE_OUTPUT_LABELS } from "@/utils/calendarRenderer";
 import {
   getDaysInMonth,
   getDayName,
   getRequiredShifts,
   calculateStats,
+  getAvailabilityConflicts,
+  AVAILABILITY_LABELS,
+  isClosedDay,
+  describeCoverageRules,
+  describeShiftDefinitions,
+  describeOvertimeEntry,
+  getOvertimeTime,
+  getShiftHours,
 } from "@/utils/scheduleUtils";
-import { Shift, Schedule, Notes } from "@/types/schedule";
+import { getRosterForMonth } from "@/utils/rosterUtils";
+import { MONTH_STATUS_LABELS, getMonthStatus } from "@/utils/workspaceUtils";
+import { toDateKey, toMonthKey } from "@/utils/calendarDate";
+import {
+  CompareSelection,
+  RosterChange,
+  ScheduleComparison,
+} from "@/utils/scheduleDiff";
+import {
+  ArchivedPharmacist,
+  Shift,
+  Schedule,
+  Notes,
+  Pharmacist,
+  Availability,
+  AvailabilityMap,
+  CoverageRules,
+  EditHistory,
+  HolidayCalendar,
+  MonthIndex,
+  MonthStatus,
+  OvertimeEntry,
+  OvertimeMap,
+  PharmacistFte,
+  ShiftDefinitions,
+  Violation,
+  ViolationSeverity,
+} from "@/types/schedule";
+import { RuleConfig, fairnessRules, labourRules } from "@/utils/rulesEngine";
 
 interface ScheduleTableProps {
   currentMonth: Date;
-  pharmacists: string[];
+  workspaceMonths: string[];
+  monthIndex: MonthIndex;
+  pharmacists: Pharmacist[];
+  archivedPharmacists: ArchivedPharmacist[];
   schedule: Schedule;
   notes: Notes;
-  violations: string[];
+  availability: AvailabilityMap;
+  overtime: OvertimeMap;
+  coverageRules: CoverageRules;
+  shiftDefinitions: ShiftDefinitions;
+  holidays: HolidayCalendar;
+  fte: PharmacistFte;
+  ruleConfig: RuleConfig;
+  violations: Violation[];
+  history: EditHistory;
   showStats: boolean;
   lastAutoSave?: Date;
   isAutoSaving?: boolean;
   onMonthChange: (date: Date) => void;
-  onPharmacistNameEdit: (oldName: string, newName: string) => void;
-  onShiftEdit: (date: Date, pharmacist: string, shifts: Shift[]) => void;
+  onMonthStatusChange: (monthKey: string, status: MonthStatus) => void;
+  onSaveRange: (from: string, to: string) => Promise<void>;
+  onPharmacistEdit: (
+    id: string,
+    changes: Partial<Omit<Pharmacist, "id">>
+  ) => void;
+  onAddPharmacist: (name: string) => void;
+  onReorderPharmacists: (pharmacists: Pharmacist[]) => void;
+  onRemovePharmacist: (id: string, options: RemovePharmacistOptions) => void;
+  onRestorePharmacist: (id: string) => void;
+  onShiftEdit: (
+    date: Date,
+    pharmacistId: string,
+    shifts: Shift[],
+    overtime: OvertimeEntry | null
+  ) => void;
   onNoteEdit: (date: Date, note: string) => void;
-  onExportCalendar: () => void;
-  onExportImage: () => void;
+  onAvailabilityEdit: (
+    date: Date,
+    pharmacistId: string,
+    availability: Availability | null
+  ) => void;
+  onCoverageRulesChange: (rules: CoverageRules) => void;
+  onShiftDefinitionsChange: (definitions: ShiftDefinitions) => void;
+  onHolidaysChange: (holidays: HolidayCalendar) => void;
+  onFairnessSettingsChange: (ruleConfig: RuleConfig, fte: PharmacistFte) => void;
+  onAutoSchedule: () => void;
+  onExportCalendar: (mode: CalendarExportMode) => void;
+  onExportImage: (output: CalendarImageOutput) => void;
+  onExportSpreadsheet: (format: SpreadsheetFormat) => void;
+  onExportOvertimeReport: (format: SpreadsheetFormat) => void;
+  onImportSpreadsheet: (file: File) => Promise<void>;
   onShareImage: () => void;
   onToggleStats: () => void;
   onSave: () => Promise<void>;
+  onSaveAsVersion: (version: string) => Promise<void>;
   onLoad: (file: File) => Promise<void>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestoreSnapshot: (snapshotId: string) => void;
+  // 比較模式：有比較結果時在表格上標示差異，並暫停編輯
+  comparison: ScheduleComparison | null;
+  onCompareFile: (file: File) => Promise<void>;
+  onCompareSnapshots: (snapshotIds: string[]) => void;
+  onAcceptCompare: (selection: CompareSelection) => void;
+  onAcceptRosterChange: (change: RosterChange) => void;
+  onCloseCompare: () => void;
 }
 
+// 違規所對應的畫面元素：有日期與藥師時指向格子，只有日期時指向日期欄，
+// 只有藥師時指向統計卡片
+const getViolationTargetId = (violation: Violation): string | null => {
+  if (violation.dateKey && violation.pharmacist) {
+    return `cell-${violation.dateKey}-${violation.pharmacist}`;
+  }
+  if (violation.dateKey) return `date-${violation.dateKey}`;
+  if (violation.pharmacist) return `stats-${violation.pharmacist}`;
+  return null;
+};
+
 export const ScheduleTable = ({
   currentMonth,
+  workspaceMonths,
+  monthIndex,
   pharmacists,
+  archivedPharmacists,
   schedule,
   notes,
+  availability,
+  overtime,
+  coverageRules,
+  shiftDefinitions,
+  holidays,
+  fte,
+  ruleConfig,
   violations,
+  history,
   showStats,
   lastAutoSave,
   isAutoSaving,
   onMonthChange,
-  onPharmacistNameEdit,
+  onMonthStatusChange,
+  onSaveRange,
+  onPharmacistEdit,
+  onAddPharmacist,
+  onReorderPharmacists,
+  onRemovePharmacist,
+  onRestorePharmacist,
   onShiftEdit,
   onNoteEdit,
+  onAvailabilityEdit,
+  onCoverageRulesChange,
+  onShiftDefinitionsChange,
+  onHolidaysChange,
+  onFairnessSettingsChange,
+  onAutoSchedule,
   onExportCalendar,
   onExportImage,
+  onExportSpreadsheet,
+  onExportOvertimeReport,
+  onImportSpreadsheet,
   onShareImage,
   onToggleStats,
   onSave,
+  onSaveAsVersion,
   onLoad,
+  onUndo,
+  onRedo,
+  onRestoreSnapshot,
+  comparison,
+  onCompareFile,
+  onCompareSnapshots,
+  onAcceptCompare,
+  onAcceptRosterChange,
+  onCloseCompare,
 }: ScheduleTableProps) => {
   const [editingPharmacist, setEditingPharmacist] = useState<string | null>(
     null
   );
   const [editingCell, setEditingCell] = useState<string | null>(null);
+  const [isEditingRules, setIsEditingRules] = useState(false);
+  const [isEditingFairness, setIsEditingFairness] = useState(false);
+  const [isEditingShiftTimes, setIsEditingShiftTimes] = useState(false);
+  const [isBrowsingSnapshots, setIsBrowsingSnapshots] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const spreadsheetInputRef = useRef<HTMLInputElement>(null);
+  const [focusedTarget, setFocusedTarget] = useState<string | null>(null);
+  const [violationPharmacist, setViolationPharmacist] = useState("");
+  const [violationSeverity, setViolationSeverity] = useState<
+    ViolationSeverity | ""
+  >("");
   const days = getDaysInMonth(currentMonth);
-  const stats = calculateStats(currentMonth, schedule, pharmacists);
+  // 鎖定或已發布的月份不可編輯
+  const monthStatus = getMonthStatus(monthIndex, toMonthKey(currentMonth));
+  const isLocked = monthStatus !== "draft";
+  // 比較時表格只供檢視，差異由比較面板或格子上的按鈕接受
+  const isReadOnly = isLocked || comparison !== null;
+  const cellChanges = new Map(
+    (comparison?.diff.cells ?? []).map((change) => [
+      `${change.dateKey}-${change.pharmacistId}`,
+      change,
+    ])
+  );
+  const noteChanges = new Map(
+    (comparison?.diff.notes ?? []).map((change) => [change.dateKey, change])
+  );
+  // 本月顯示的藥師（含封存前仍在職的藥師）
+  const roster = getRosterForMonth(pharmacists, archivedPharmacists, currentMonth);
+  const stats = calculateStats(
+    currentMonth,
+    schedule,
+    roster.map((p) => p.id),
+    holidays,
+    shiftDefinitions,
+    overtime
+  );
+
+  // 依違規標示格子與日期欄
+  const errorTargets = new Set(
+    violations
+      .filter((v) => v.severity === "error")
+      .map(getViolationTargetId)
+      .filter((id): id is string => id !== null)
+  );
+  const filteredViolations = violations.filter(
+    (v) =>
+      (violationPharmacist === "" || v.pharmacist === violationPharmacist) &&
+      (violationSeverity === "" || v.severity === violationSeverity)
+  );
+  const errorCount = violations.filter((v) => v.severity === "error").length;
+
+  const jumpToViolation = (violation: Violation) => {
+    const targetId = getViolationTargetId(violation);
+    setFocusedTarget(targetId);
+    if (targetId) {
+      document
+        .getElementById(targetId)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -83,22 +303,106 @@ export const ScheduleTable = ({
               {/* 存檔讀檔按鈕 */}
               <SaveLoadButtons
                 onSave={onSave}
+                onSaveAsVersion={onSaveAsVersion}
                 onLoad={onLoad}
+                onCompare={onCompareFile}
               />
+              <button
+                onClick={() => setIsBrowsingSnapshots(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-gray-600 text-white hover:bg-gray-700"
+                title="瀏覽並還原自動存檔的快照"
+              >
+                <ArchiveRestore size={16} />
+                快照
+              </button>
+              <button
+                onClick={() => setIsMerging(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-indigo-600 text-white hover:bg-indigo-700"
+                title="合併兩份由同一份存檔各自編輯的檔案"
+              >
+                <GitMerge size={16} />
+                合併
+              </button>
               
               <div className="flex gap-2">
                 <button
-                  onClick={onExportCalendar}
-                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                  onClick={onAutoSchedule}
+                  disabled={isLocked}
+                  className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="依排班規則自動補齊未填寫的格子"
                 >
-                  匯出日曆
+                  自動排班
                 </button>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const mode = e.target.value as CalendarExportMode | "";
+                    e.target.value = "";
+                    if (mode) onExportCalendar(mode);
+                  }}
+                  className="px-2 py-2 border border-gray-300 rounded text-sm text-gray-700"
+                  title="匯出本月排班的日曆檔（.ics），重新匯入會更新既有的班表"
+                >
+                  <option value="">匯出日曆…</option>
+                  {(Object.keys(CALENDAR_EXPORT_MODE_LABELS) as CalendarExportMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {CALENDAR_EXPORT_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const output = e.target.value as CalendarImageOutput | "";
+                    e.target.value = "";
+                    if (output) onExportImage(output);
+                  }}
+                  className="px-2 py-2 border border-gray-300 rounded text-sm text-gray-700"
+                  title="以月曆版面輸出本月排班，含圖例與完整備註；PDF 與列印為 A4 橫向"
+                >
+                  <option value="">匯出月曆…</option>
+                  {(Object.keys(CALENDAR_IMAGE_OUTPUT_LABELS) as CalendarImageOutput[]).map((output) => (
+                    <option key={output} value={output}>
+                      {CALENDAR_IMAGE_OUTPUT_LABELS[output]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const format = e.target.value as SpreadsheetFormat | "";
+                    e.target.value = "";
+                    if (format) onExportSpreadsheet(format);
+                  }}
+                  className="px-2 py-2 border border-gray-300 rounded text-sm text-gray-700"
+                  title="匯出本月的排班表、備註、統計與加班明細"
+                >
+                  <option value="">匯出試算表…</option>
+                  {(Object.keys(SPREADSHEET_FORMAT_LABELS) as SpreadsheetFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {SPREADSHEET_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
                 <button
-                  onClick={onExportImage}
-                  className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                  onClick={() => spreadsheetInputRef.current?.click()}
+                  className="flex items-center gap-1 px-4 py-2 bg-teal-600 text-white rounded hover:bg-teal-700"
+                  title="從 CSV 或 Excel（.xlsx）檔案匯入排班，表頭以藥師姓名或簡稱對應"
                 >
-                  匯出圖片
+                  <FileSpreadsheet size={16} />
+                  匯入試算表
                 </button>
+                <input
+                  ref={spreadsheetInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,text/csv"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) onImportSpreadsheet(file);
+                  }}
+                  className="hidden"
+                />
                 <button
                   onClick={onShareImage}
                   className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700"
@@ -115,6 +419,23 @@ export const ScheduleTable = ({
             </div>
           </div>
           
+          {isBrowsingSnapshots && (
+            <SnapshotBrowser
+              current={{ months: monthIndex, schedule, notes, availability, overtime }}
+              onRestore={(snapshotId) => {
+                onRestoreSnapshot(snapshotId);
+                setIsBrowsingSnapshots(false);
+              }}
+              onCompare={(snapshotIds) => {
+                onCompareSnapshots(snapshotIds);
+                setIsBrowsingSnapshots(false);
+              }}
+              onClose={() => setIsBrowsingSnapshots(false)}
+            />
+          )}
+
+          {isMerging && <MergePanel onClose={() => setIsMerging(false)} />}
+
           {/* 自動存檔狀態指示器 */}
           <div className="flex justify-end mt-4">
             <AutoSaveIndicator 
@@ -143,8 +464,21 @@ export const ScheduleTable = ({
                 >
                   上月
                 </button>
-                <h2 className="text-2xl font-bold text-gray-800">
+                <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
                   {currentMonth.getFullYear()}年 {currentMonth.getMonth() + 1}月
+                  {isLocked && (
+                    <span
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded text-sm font-medium ${
+                        monthStatus === "published"
+                          ? "bg-green-100 text-green-700"
+                          : "bg-amber-100 text-amber-700"
+                      }`}
+                      title="此月份不可編輯，請先在工作區解除鎖定"
+                    >
+                      <Lock size={14} />
+                      {MONTH_STATUS_LABELS[monthStatus]}
+                    </span>
+                  )}
                 </h2>
                 <button
                   onClick={() =>
@@ -161,6 +495,16 @@ export const ScheduleTable = ({
                 </button>
               </div>
 
+              {comparison && (
+                <ComparePanel
+                  comparison={comparison}
+                  pharmacists={[...pharmacists, ...archivedPharmacists]}
+                  onAccept={onAcceptCompare}
+                  onAcceptRoster={onAcceptRosterChange}
+                  onClose={onCloseCompare}
+                />
+              )}
+
               {/* 排班表格 */}
               <div className="overflow-x-auto">
                 <table className="w-full border-collapse">
@@ -169,26 +513,37 @@ export const ScheduleTable = ({
                       <th className="border border-gray-300 p-3 text-left font-semibold">
                         日期
                       </th>
-                      {pharmacists.map((pharmacist) => (
+                      {roster.map((pharmacist) => (
                         <th
-                          key={pharmacist}
+                          key={pharmacist.id}
                           className="border border-gray-300 p-3 text-center font-semibold min-w-32"
+                          style={{ borderTop: `4px solid ${pharmacist.color}` }}
                         >
-                          {editingPharmacist === pharmacist ? (
+                          {!pharmacists.includes(pharmacist) ? (
+                            <div className="p-1 text-gray-400" title="已封存">
+                              {pharmacist.name}
+                              <span className="ml-1 text-xs font-normal">
+                                （已封存）
+                              </span>
+                            </div>
+                          ) : editingPharmacist === pharmacist.id ? (
                             <PharmacistNameEditor
-                              name={pharmacist}
-                              onSave={(newName) =>
-                                onPharmacistNameEdit(pharmacist, newName)
-                              }
+                              name={pharmacist.name}
+                              onSave={(newName) => {
+                                onPharmacistEdit(pharmacist.id, {
+                                  name: newName,
+                                });
+                                setEditingPharmacist(null);
+                              }}
                               onCancel={() => setEditingPharmacist(null)}
                             />
                           ) : (
                             <div
                               className="cursor-pointer hover:bg-blue-100 rounded p-1 transition-colors"
-                              onClick={() => setEditingPharmacist(pharmacist)}
+                              onClick={() => setEditingPharmacist(pharmacist.id)}
                               title="點擊編輯姓名"
                             >
-                              {pharmacist}
+                              {pharmacist.name}
                             </div>
                           )}
                         </th>
@@ -200,29 +555,56 @@ export const ScheduleTable = ({
                   </thead>
                   <tbody>
                     {days.map((day) => {
-                      const dateKey = day.toISOString().split("T")[0];
+                      const dateKey = toDateKey(day);
                       const daySchedule = schedule[dateKey] || {};
                       const dayOfWeek = day.getDay();
-                      const required = getRequiredShifts(day);
+                      const required = getRequiredShifts(
+                        day,
+                        coverageRules,
+                        holidays
+                      );
+                      const holiday = holidays[dateKey];
 
                       return (
                         <tr
                           key={dateKey}
                           className={`${
-                            dayOfWeek === 0
+                            holiday?.kind === "holiday"
+                              ? "bg-orange-50"
+                              : dayOfWeek === 0
                               ? "bg-red-50"
                               : dayOfWeek === 6
                               ? "bg-blue-50"
                               : "bg-white"
                           } hover:bg-gray-50`}
                         >
-                          <td className="border border-gray-300 p-3 font-medium">
+                          <td
+                            id={`date-${dateKey}`}
+                            className={`border border-gray-300 p-3 font-medium ${
+                              focusedTarget === `date-${dateKey}`
+                                ? "ring-2 ring-inset ring-blue-500"
+                                : errorTargets.has(`date-${dateKey}`)
+                                ? "bg-red-100"
+                                : ""
+                            }`}
+                          >
                             <div className="flex flex-col">
                               <span>{day.getDate()}</span>
                               <span className="text-sm text-gray-500">
                                 週{getDayName(day)}
                               </span>
-                              {required.morning > 0 && (
+                              {holiday && (
+                                <span
+                                  className={`mt-1 px-1 rounded text-xs w-fit ${
+                                    holiday.kind === "makeup"
+                                      ? "bg-blue-100 text-blue-700"
+                                      : "bg-orange-100 text-orange-700"
+                                  }`}
+                                >
+                                  {holiday.name}
+                                </span>
+                              )}
+                              {!isClosedDay(required) && (
                                 <div className="text-xs text-gray-400 mt-1">
                                   早{required.morning} 午{required.afternoon} 晚
                                   {required.evening}
@@ -230,30 +612,99 @@ export const ScheduleTable = ({
                               )}
                             </div>
                           </td>
-                          {pharmacists.map((pharmacist) => {
-                            const shifts = daySchedule[pharmacist] || [];
+                          {roster.map(({ id: pharmacistId }) => {
+                            const shifts = daySchedule[pharmacistId] || [];
                             const isEditing =
-                              editingCell === `${dateKey}-${pharmacist}`;
+                              editingCell === `${dateKey}-${pharmacistId}`;
+                            const cellAvailability =
+                              availability[dateKey]?.[pharmacistId];
+                            const cellOvertime = overtime[dateKey]?.[pharmacistId];
+                            const conflicts = getAvailabilityConflicts(
+                              shifts,
+                              cellAvailability
+                            );
+                            const cellId = `cell-${dateKey}-${pharmacistId}`;
+                            const cellChange = cellChanges.get(
+                              `${dateKey}-${pharmacistId}`
+                            );
 
                             return (
                               <td
-                                key={pharmacist}
-                                className="border border-gray-300 p-2"
+                                key={pharmacistId}
+                                id={cellId}
+                                className={`border border-gray-300 p-2 ${
+                                  cellAvailability === "leave"
+                                    ? "bg-rose-50"
+                                    : ""
+                                } ${
+                                  focusedTarget === cellId
+                                    ? "ring-2 ring-inset ring-blue-500"
+                                    : ""
+                                } ${
+                                  cellChange
+                                    ? CHANGE_KIND_STYLES[cellChange.kind]
+                                    : ""
+                                }`}
                               >
-                                {isEditing ? (
+                                {cellChange ? (
+                                  <CompareCell
+                                    change={cellChange}
+                                    canApply={comparison!.canApply}
+                                    onAccept={() =>
+                                      onAcceptCompare({
+                                        cells: [cellChange],
+                                        notes: [],
+                                      })
+                                    }
+                                  />
+                                ) : isEditing ? (
                                   <ShiftEditor
                                     shifts={shifts}
-                                    onSave={(newShifts) => {
-                                      onShiftEdit(day, pharmacist, newShifts);
+                                    availability={cellAvailability}
+                                    overtime={cellOvertime}
+                                    defaultOvertimeHours={getShiftHours(
+                                      getOvertimeTime(
+                                        day,
+                                        undefined,
+                                        shiftDefinitions,
+                                        holidays
+                                      )
+                                    )}
+                                    onSave={(newShifts, newAvailability, newOvertime) => {
+                                      onShiftEdit(day, pharmacistId, newShifts, newOvertime);
+                                      if (
+                                        newAvailability !==
+                                        (cellAvailability ?? null)
+                                      ) {
+                                        onAvailabilityEdit(
+                                          day,
+                                          pharmacistId,
+                                          newAvailability
+                                        );
+                                      }
                                       setEditingCell(null);
                                     }}
                                     onCancel={() => setEditingCell(null)}
                                   />
                                 ) : (
                                   <div
-                                    className="min-h-12 flex items-center justify-center cursor-pointer hover:bg-gray-100 rounded p-2"
+                                    className={`min-h-12 flex flex-col items-center justify-center gap-1 rounded p-2 ${
+                                      isReadOnly
+                                        ? ""
+                                        : "cursor-pointer hover:bg-gray-100"
+                                    } ${
+                                      errorTargets.has(cellId)
+                                        ? "ring-2 ring-red-400"
+                                        : ""
+                                    }`}
                                     onClick={() =>
-                                      setEditingCell(`${dateKey}-${pharmacist}`)
+                                      !isReadOnly &&
+                                      setEditingCell(`${dateKey}-${pharmacistId}`)
+                                    }
+                                    title={
+                                      conflicts.length > 0
+                                        ? `與請假登記衝突：${conflicts.join("")}`
+                                        : undefined
                                     }
                                   >
                                     {shifts.length > 0 ? (
@@ -266,31 +717,81 @@ export const ScheduleTable = ({
                                                 ? "bg-yellow-200 text-yellow-800"
                                                 : shift === "午"
                                                 ? "bg-blue-200 text-blue-800"
-                                                : "bg-purple-200 text-purple-800"
+                                                : shift === "晚"
+                                                ? "bg-purple-200 text-purple-800"
+                                                : "bg-orange-200 text-orange-800"
                                             }`}
+                                            title={
+                                              shift === "加" && cellOvertime
+                                                ? `加班 ${describeOvertimeEntry(cellOvertime)}`
+                                                : undefined
+                                            }
                                           >
                                             {shift}
+                                            {shift === "加" && cellOvertime && (
+                                              <span className="ml-0.5 text-xs">
+                                                {cellOvertime.hours}h
+                                              </span>
+                                            )}
                                           </span>
                                         ))}
                                       </div>
+                                    ) : cellAvailability === "leave" ? (
+                                      <span className="text-rose-600 text-sm font-medium">
+                                        {AVAILABILITY_LABELS.leave}
+                                      </span>
                                     ) : (
                                       <span className="text-gray-400 text-sm">
                                         休假
                                       </span>
                                     )}
+                                    {cellAvailability &&
+                                      (cellAvailability !== "leave" ||
+                                        shifts.length > 0) && (
+                                        <span className="px-1 rounded text-xs bg-rose-100 text-rose-700">
+                                          {AVAILABILITY_LABELS[cellAvailability]}
+                                        </span>
+                                      )}
                                   </div>
                                 )}
                               </td>
                             );
                           })}
-                          <td className="border border-gray-300 p-2">
+                          <td
+                            className={`border border-gray-300 p-2 ${
+                              noteChanges.has(dateKey)
+                                ? CHANGE_KIND_STYLES[noteChanges.get(dateKey)!.kind]
+                                : ""
+                            }`}
+                          >
                             <input
                               type="text"
                               value={notes[dateKey] || ""}
                               onChange={(e) => onNoteEdit(day, e.target.value)}
-                              placeholder="備註..."
-                              className="w-full p-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              readOnly={isReadOnly}
+                              placeholder={isReadOnly ? "" : "備註..."}
+                              className="w-full p-2 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-50"
                             />
+                            {noteChanges.has(dateKey) && (
+                              <div className="mt-1 flex items-center gap-2 text-xs">
+                                <span className="flex-1 text-gray-700">
+                                  → {noteChanges.get(dateKey)!.after || "（無備註）"}
+                                </span>
+                                {comparison!.canApply && (
+                                  <button
+                                    onClick={() =>
+                                      onAcceptCompare({
+                                        cells: [],
+                                        notes: [noteChanges.get(dateKey)!],
+                                      })
+                                    }
+                                    className="text-indigo-600 hover:underline"
+                                  >
+                                    接受
+                                  </button>
+                                )}
+                              </div>
+                            )}
                           </td>
                         </tr>
                       );
@@ -311,15 +812,24 @@ export const ScheduleTable = ({
                   統計資訊
                 </h3>
                 <div className="space-y-4">
-                  {pharmacists.map((pharmacist) => {
-                    const stat = stats[pharmacist];
+                  {roster.map((pharmacist) => {
+                    const stat = stats[pharmacist.id];
                     return (
                       <div
-                        key={pharmacist}
-                        className="border-b border-gray-200 pb-3"
+                        key={pharmacist.id}
+                        id={`stats-${pharmacist.id}`}
+                        className={`border-b border-gray-200 pb-3 ${
+                          focusedTarget === `stats-${pharmacist.id}`
+                            ? "bg-blue-50 rounded"
+                            : ""
+                        }`}
                       >
-                        <h4 className="font-semibold text-gray-700 mb-2">
-                          {pharmacist}
+                        <h4 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full"
+                            style={{ backgroundColor: pharmacist.color }}
+                          />
+                          {pharmacist.name}
                         </h4>
                         <div className="grid grid-cols-2 gap-2 text-sm">
                           <div>假期：{stat.holidays}天</div>
@@ -327,6 +837,22 @@ export const ScheduleTable = ({
                           <div>早晚班：{stat.morningEveningDays}天</div>
                           <div>週一假：{stat.mondayHolidays}天</div>
                           <div>週六假：{stat.saturdayHolidays}天</div>
+                          <div>國定假日上班：{stat.holidayWorkDays}天</div>
+                          <div>總工時：{stat.hours}小時</div>
+                          <div>
+                            加班：{stat.overtimeSessions}次／{stat.overtimeHours}小時
+                          </div>
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500">
+                          每週工時：
+                          {Object.entries(stat.weeklyHours)
+                            .map(
+                              ([weekStartKey, hours]) =>
+                                `${Number(weekStartKey.slice(5, 7))}/${Number(
+                                  weekStartKey.slice(8, 10)
+                                )}起 ${hours}h`
+                            )
+                            .join("、")}
                         </div>
                       </div>
                     );
@@ -335,37 +861,246 @@ export const ScheduleTable = ({
               </div>
             )}
 
+            {/* 加班報表 */}
+            {showStats && (
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                  <Timer className="text-orange-600" size={20} />
+                  本月加班
+                </h3>
+                <OvertimeReportPanel
+                  input={{
+                    currentMonth,
+                    roster,
+                    schedule,
+                    overtime,
+                    holidays,
+                    shiftDefinitions,
+                  }}
+                  onExport={onExportOvertimeReport}
+                />
+              </div>
+            )}
+
+            {/* 工作區月份 */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <FolderOpen className="text-blue-600" size={20} />
+                工作區
+              </h3>
+              <WorkspacePanel
+                currentMonth={currentMonth}
+                months={workspaceMonths}
+                monthIndex={monthIndex}
+                onMonthChange={onMonthChange}
+                onStatusChange={onMonthStatusChange}
+                onSaveRange={onSaveRange}
+              />
+            </div>
+
+            {/* 編輯記錄 */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <History className="text-blue-600" size={20} />
+                編輯記錄
+              </h3>
+              <HistoryPanel history={history} onUndo={onUndo} onRedo={onRedo} />
+            </div>
+
+            {/* 藥師名單 */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <UserCog className="text-blue-600" size={20} />
+                藥師名單
+              </h3>
+              <RosterManager
+                pharmacists={pharmacists}
+                archivedPharmacists={archivedPharmacists}
+                onAdd={onAddPharmacist}
+                onReorder={onReorderPharmacists}
+                onUpdate={onPharmacistEdit}
+                onRemove={onRemovePharmacist}
+                onRestore={onRestorePharmacist}
+              />
+            </div>
+
+            {/* 國定假日 */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                <CalendarDays className="text-orange-600" size={20} />
+                國定假日
+              </h3>
+              <HolidayManager
+                currentMonth={currentMonth}
+                holidays={holidays}
+                onChange={onHolidaysChange}
+              />
+            </div>
+
             {/* 違規提示 */}
             {violations.length > 0 && (
               <div className="bg-white rounded-xl shadow-lg p-6">
                 <h3 className="text-lg font-bold text-red-600 mb-4 flex items-center gap-2">
                   <AlertTriangle className="text-red-600" size={20} />
                   排班違規提醒
+                  <span className="text-sm font-normal text-gray-500">
+                    {errorCount} 錯誤・{violations.length - errorCount} 提醒
+                  </span>
                 </h3>
+                <div className="flex gap-2 mb-3">
+                  <select
+                    value={violationPharmacist}
+                    onChange={(e) => setViolationPharmacist(e.target.value)}
+                    className="flex-1 px-2 py-1 border rounded text-sm"
+                  >
+                    <option value="">全部藥師</option>
+                    {roster.map((pharmacist) => (
+                      <option key={pharmacist.id} value={pharmacist.id}>
+                        {pharmacist.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={violationSeverity}
+                    onChange={(e) =>
+                      setViolationSeverity(
+                        e.target.value as ViolationSeverity | ""
+                      )
+                    }
+                    className="px-2 py-1 border rounded text-sm"
+                  >
+                    <option value="">全部</option>
+                    <option value="error">錯誤</option>
+                    <option value="warning">提醒</option>
+                  </select>
+                </div>
                 <div className="space-y-2">
-                  {violations.map((violation, idx) => (
-                    <div
+                  {filteredViolations.map((violation, idx) => (
+                    <button
                       key={idx}
-                      className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700"
+                      onClick={() => jumpToViolation(violation)}
+                      className={`w-full text-left p-3 rounded-lg text-sm border ${
+                        violation.severity === "error"
+                          ? "bg-red-50 border-red-200 text-red-700 hover:bg-red-100"
+                          : "bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100"
+                      }`}
+                      title="點擊跳至相關位置"
                     >
-                      {violation}
-                    </div>
+                      {violation.message}
+                    </button>
                   ))}
+                  {filteredViolations.length === 0 && (
+                    <div className="text-sm text-gray-400">
+                      沒有符合篩選條件的項目
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
             {/* 排班規則說明 */}
             <div className="bg-white rounded-xl shadow-lg p-6">
-              <h3 className="text-lg font-bold text-gray-800 mb-4">排班規則</h3>
-              <div className="text-sm text-gray-600 space-y-2">
-                <div>• 週一：早中晚各2人，每人最多2節</div>
-                <div>• 週二~五：早1人，午1人，晚2人</div>
-                <div>• 週六：早2人，午1人，晚1人</div>
-                <div>• 週日：全天休息</div>
-                <div>• 假期天數需平均分配</div>
-                <div>• 早晚班天數需平均分配</div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-gray-800">排班規則</h3>
+                {!isEditingRules && !isEditingFairness && !isEditingShiftTimes && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setIsEditingShiftTimes(true)}
+                      className="p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                      title="編輯班別時間"
+                    >
+                      <Clock size={18} />
+                    </button>
+                    <button
+                      onClick={() => setIsEditingFairness(true)}
+                      className="p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                      title="編輯公平性與勞基法設定"
+                    >
+                      <Scale size={18} />
+                    </button>
+                    <button
+                      onClick={() => setIsEditingRules(true)}
+                      className="p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                      title="編輯排班規則"
+                    >
+                      <Settings size={18} />
+                    </button>
+                  </div>
+                )}
               </div>
+              {isEditingRules ? (
+                <CoverageRulesEditor
+                  rules={coverageRules}
+                  onSave={(rules) => {
+                    onCoverageRulesChange(rules);
+                    setIsEditingRules(false);
+                  }}
+                  onCancel={() => setIsEditingRules(false)}
+                />
+              ) : isEditingShiftTimes ? (
+                <ShiftDefinitionsEditor
+                  definitions={shiftDefinitions}
+                  onSave={(definitions) => {
+                    onShiftDefinitionsChange(definitions);
+                    setIsEditingShiftTimes(false);
+                  }}
+                  onCancel={() => setIsEditingShiftTimes(false)}
+                />
+              ) : isEditingFairness ? (
+                <FairnessSettingsEditor
+                  pharmacists={pharmacists}
+                  ruleConfig={ruleConfig}
+                  fte={fte}
+                  onSave={(newConfig, newFte) => {
+                    onFairnessSettingsChange(newConfig, newFte);
+                    setIsEditingFairness(false);
+                  }}
+                  onCancel={() => setIsEditingFairness(false)}
+                />
+              ) : (
+                <div className="text-sm text-gray-600 space-y-2">
+                  {describeCoverageRules(coverageRules).map((line) => (
+                    <div key={line}>• {line}</div>
+                  ))}
+                  {describeShiftDefinitions(shiftDefinitions).map((line) => (
+                    <div key={line}>• {line}</div>
+                  ))}
+                  {fairnessRules
+                    .filter((rule) => ruleConfig[rule.id]?.enabled !== false)
+                    .map((rule) => (
+                      <div key={rule.id}>
+                        • {rule.name}（容許差距
+                        {ruleConfig[rule.id]?.params?.tolerance ??
+                          rule.defaultParams.tolerance}
+                        ）
+                      </div>
+                    ))}
+                  {labourRules
+                    .filter((rule) => ruleConfig[rule.id]?.enabled !== false)
+                    .map((rule) => (
+                      <div key={rule.id}>
+                        • {rule.name}（
+                        {Object.entries(rule.paramLabels ?? {})
+                          .map(
+                            ([param, label]) =>
+                              `${label} ${
+                                ruleConfig[rule.id]?.params?.[param] ??
+                                rule.defaultParams[param]
+                              }`
+                          )
+                          .join("、")}
+                        ）
+                      </div>
+                    ))}
+                  {pharmacists
+                    .filter((pharmacist) => fte[pharmacist.id] !== undefined)
+                    .map((pharmacist) => (
+                      <div key={pharmacist.id}>
+                        • {pharmacist.name}：兼職 {fte[pharmacist.id]}，目標按比例計算
+                      </div>
+                    ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
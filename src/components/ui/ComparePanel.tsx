@@ -0,0 +1,227 @@
+import { Check, GitCompare, X } from "lucide-react";
+import { Pharmacist } from "@/types/schedule";
+import {
+  CHANGE_KIND_LABELS,
+  CellChange,
+  ChangeKind,
+  CompareSelection,
+  RosterChange,
+  ScheduleComparison,
+} from "@/utils/scheduleDiff";
+
+// 差異種類的標示顏色：新增為綠色、移除為紅色、變更為黃色
+export const CHANGE_KIND_STYLES: Record<ChangeKind, string> = {
+  added: "bg-green-50 ring-2 ring-inset ring-green-400",
+  removed: "bg-red-50 ring-2 ring-inset ring-red-400",
+  changed: "bg-amber-50 ring-2 ring-inset ring-amber-400",
+};
+
+interface ComparePanelProps {
+  comparison: ScheduleComparison;
+  pharmacists: Pharmacist[];
+  onAccept: (selection: CompareSelection) => void;
+  onAcceptRoster: (change: RosterChange) => void;
+  onClose: () => void;
+}
+
+export const ComparePanel = ({
+  comparison,
+  pharmacists,
+  onAccept,
+  onAcceptRoster,
+  onClose,
+}: ComparePanelProps) => {
+  const { title, diff, canApply } = comparison;
+
+  // 名稱優先使用目前名單，對方新增的藥師使用對方的名稱
+  const names = new Map(
+    diff.roster
+      .filter((change) => change.after)
+      .map((change) => [change.id, change.after!.name])
+  );
+  pharmacists.forEach((p) => names.set(p.id, p.name));
+  const getName = (id: string) => names.get(id) ?? id;
+
+  const cellsByPharmacist = new Map<string, CellChange[]>();
+  diff.cells.forEach((change) => {
+    cellsByPharmacist.set(change.pharmacistId, [
+      ...(cellsByPharmacist.get(change.pharmacistId) ?? []),
+      change,
+    ]);
+  });
+  const unknownPharmacists = new Set(
+    diff.roster.filter((change) => change.kind === "added").map((change) => change.id)
+  );
+
+  const isEmpty =
+    diff.cells.length === 0 && diff.notes.length === 0 && diff.roster.length === 0;
+
+  const describeRosterChange = (change: RosterChange) => {
+    if (change.kind === "added") return `對方新增藥師${change.after!.name}`;
+    if (change.kind === "removed") return `對方沒有藥師${change.before!.name}`;
+    const { before, after } = change as Required<RosterChange>;
+    const parts = [
+      before.name !== after.name && `姓名改為${after.name}`,
+      before.label !== after.label && `簡稱改為${after.label}`,
+      before.color !== after.color && "代表顏色不同",
+    ].filter(Boolean);
+    return `${before.name}：${parts.join("、")}`;
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg text-sm space-y-3">
+      <div className="flex items-center gap-2">
+        <GitCompare className="text-indigo-600" size={18} />
+        <span className="flex-1 font-semibold text-gray-800">比較：{title}</span>
+        {canApply && !isEmpty && (
+          <button
+            onClick={() =>
+              onAccept({
+                cells: diff.cells.filter((c) => !unknownPharmacists.has(c.pharmacistId)),
+                notes: diff.notes,
+              })
+            }
+            className="flex items-center gap-1 px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+          >
+            <Check size={14} />
+            全部接受
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600"
+        >
+          <X size={14} />
+          結束比較
+        </button>
+      </div>
+
+      {isEmpty ? (
+        <div className="text-gray-600">兩個版本的排班、備註與藥師名單相同</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+            <span className="px-1 rounded bg-green-100 text-green-700">新增</span>
+            <span className="px-1 rounded bg-red-100 text-red-700">移除</span>
+            <span className="px-1 rounded bg-amber-100 text-amber-700">變更</span>
+            <span>
+              共 {diff.cells.length} 格排班、{diff.notes.length} 則備註、
+              {diff.roster.length} 項名單差異
+              {!canApply && "（僅供檢視）"}
+            </span>
+          </div>
+
+          {/* 依藥師接受 */}
+          {cellsByPharmacist.size > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {[...cellsByPharmacist.entries()].map(([id, changes]) => {
+                const counts = (["added", "removed", "changed"] as ChangeKind[])
+                  .map((kind) => {
+                    const count = changes.filter((c) => c.kind === kind).length;
+                    return count > 0 ? `${CHANGE_KIND_LABELS[kind]}${count}` : null;
+                  })
+                  .filter(Boolean)
+                  .join(" ");
+                return (
+                  <div
+                    key={id}
+                    className="flex items-center gap-2 px-2 py-1 bg-white border border-indigo-200 rounded"
+                  >
+                    <span className="font-medium text-gray-800">{getName(id)}</span>
+                    <span className="text-xs text-gray-500">{counts}</span>
+                    {canApply &&
+                      (unknownPharmacists.has(id) ? (
+                        <span className="text-xs text-gray-400">請先加入名單</span>
+                      ) : (
+                        <button
+                          onClick={() => onAccept({ cells: changes, notes: [] })}
+                          className="text-xs text-indigo-600 hover:underline"
+                        >
+                          接受 {changes.length} 格
+                        </button>
+                      ))}
+                  </div>
+                );
+              })}
+              {canApply && diff.notes.length > 0 && (
+                <div className="flex items-center gap-2 px-2 py-1 bg-white border border-indigo-200 rounded">
+                  <span className="font-medium text-gray-800">備註</span>
+                  <button
+                    onClick={() => onAccept({ cells: [], notes: diff.notes })}
+                    className="text-xs text-indigo-600 hover:underline"
+                  >
+                    接受 {diff.notes.length} 則
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 藥師名單差異 */}
+          {diff.roster.length > 0 && (
+            <div className="space-y-1">
+              {diff.roster.map((change) => (
+                <div key={change.id} className="flex items-center gap-2">
+                  <span
+                    className={`px-1 rounded text-xs ${
+                      change.kind === "added"
+                        ? "bg-green-100 text-green-700"
+                        : change.kind === "removed"
+                        ? "bg-red-100 text-red-700"
+                        : "bg-amber-100 text-amber-700"
+                    }`}
+                  >
+                    {CHANGE_KIND_LABELS[change.kind]}
+                  </span>
+                  <span className="flex-1 text-gray-700">
+                    {describeRosterChange(change)}
+                  </span>
+                  {canApply && change.kind !== "removed" && (
+                    <button
+                      onClick={() => onAcceptRoster(change)}
+                      className="text-xs text-indigo-600 hover:underline"
+                    >
+                      {change.kind === "added" ? "加入名單" : "套用"}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface CompareCellProps {
+  change: CellChange;
+  canApply: boolean;
+  onAccept: () => void;
+}
+
+// 排班表格中有差異的格子：刪除線為目前的班別，粗體為對方的班別
+export const CompareCell = ({ change, canApply, onAccept }: CompareCellProps) => (
+  <div className="min-h-12 flex flex-col items-center justify-center gap-1 p-1">
+    <span className="text-xs text-gray-500">{CHANGE_KIND_LABELS[change.kind]}</span>
+    <div className="flex items-center gap-1 text-sm">
+      <span className="line-through text-gray-400">
+        {change.before.length > 0 ? change.before.join("") : "休"}
+      </span>
+      <span>→</span>
+      <span className="font-bold text-gray-800">
+        {change.after.length > 0 ? change.after.join("") : "休"}
+      </span>
+    </div>
+    {canApply && (
+      <button
+        onClick={onAccept}
+        className="flex items-center gap-1 px-2 py-0.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700"
+        title="接受對方的班別"
+      >
+        <Check size={12} />
+        接受
+      </button>
+    )}
+  </div>
+);
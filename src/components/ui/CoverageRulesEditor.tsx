@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Save, X, RotateCcw } from "lucide-react";
+import { CoverageRules, RequiredShifts } from "@/types/schedule";
+import { DEFAULT_COVERAGE_RULES } from "@/utils/scheduleUtils";
+
+interface CoverageRulesEditorProps {
+  rules: CoverageRules;
+  onSave: (rules: CoverageRules) => void;
+  onCancel: () => void;
+}
+
+// 依週一到週日的順序顯示
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ["日", "一", "二", "三", "四", "五", "六"];
+const PERIOD_FIELDS = [
+  { key: "morning", label: "早" },
+  { key: "afternoon", label: "午" },
+  { key: "evening", label: "晚" },
+] as const;
+
+export const CoverageRulesEditor = ({
+  rules,
+  onSave,
+  onCancel,
+}: CoverageRulesEditorProps) => {
+  const [draft, setDraft] = useState<CoverageRules>(
+    rules.map((rule) => ({ ...rule }))
+  );
+
+  const updateRule = (dayOfWeek: number, changes: Partial<RequiredShifts>) => {
+    setDraft((prev) =>
+      prev.map((rule, idx) =>
+        idx === dayOfWeek ? { ...rule, ...changes } : rule
+      )
+    );
+  };
+
+  const parseCount = (value: string) =>
+    Math.max(0, Math.min(20, Math.floor(Number(value) || 0)));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="p-1 text-left font-medium">星期</th>
+            {PERIOD_FIELDS.map((field) => (
+              <th key={field.key} className="p-1 font-medium">
+                {field.label}
+              </th>
+            ))}
+            <th className="p-1 font-medium" title="每人當日最多節數，空白表示不限">
+              上限
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {WEEK_ORDER.map((dayOfWeek) => {
+            const rule = draft[dayOfWeek];
+            return (
+              <tr key={dayOfWeek}>
+                <td className="p-1">週{DAY_NAMES[dayOfWeek]}</td>
+                {PERIOD_FIELDS.map((field) => (
+                  <td key={field.key} className="p-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={20}
+                      value={rule[field.key]}
+                      onChange={(e) =>
+                        updateRule(dayOfWeek, {
+                          [field.key]: parseCount(e.target.value),
+                        })
+                      }
+                      className="w-12 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </td>
+                ))}
+                <td className="p-1">
+                  <input
+                    type="number"
+                    min={1}
+                    max={4}
+                    value={rule.maxPerPerson ?? ""}
+                    placeholder="-"
+                    onChange={(e) =>
+                      updateRule(dayOfWeek, {
+                        maxPerPerson:
+                          e.target.value === ""
+                            ? undefined
+                            : Math.max(1, Math.min(4, Number(e.target.value))),
+                      })
+                    }
+                    className="w-12 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onSave(draft)}
+          className="flex-1 px-2 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
+        >
+          <Save size={12} className="inline mr-1" />
+          確定
+        </button>
+        <button
+          onClick={() =>
+            setDraft(DEFAULT_COVERAGE_RULES.map((rule) => ({ ...rule })))
+          }
+          className="flex-1 px-2 py-1 bg-amber-500 text-white rounded text-sm hover:bg-amber-600"
+          title="恢復預設排班規則"
+        >
+          <RotateCcw size={12} className="inline mr-1" />
+          預設
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600"
+        >
+          <X size={12} className="inline mr-1" />
+          取消
+        </button>
+      </div>
+    </div>
+  );
+};
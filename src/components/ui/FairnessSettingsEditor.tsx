@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Save, X } from "lucide-react";
+import { Pharmacist, PharmacistFte } from "@/types/schedule";
+import { RuleConfig, RuleParams, fairnessRules, labourRules } from "@/utils/rulesEngine";
+
+interface FairnessSettingsEditorProps {
+  pharmacists: Pharmacist[];
+  ruleConfig: RuleConfig;
+  fte: PharmacistFte;
+  onSave: (ruleConfig: RuleConfig, fte: PharmacistFte) => void;
+  onCancel: () => void;
+}
+
+export const FairnessSettingsEditor = ({
+  pharmacists,
+  ruleConfig,
+  fte,
+  onSave,
+  onCancel,
+}: FairnessSettingsEditorProps) => {
+  const [draftConfig, setDraftConfig] = useState<RuleConfig>({ ...ruleConfig });
+  const [draftFte, setDraftFte] = useState<PharmacistFte>({ ...fte });
+
+  const updateRule = (
+    ruleId: keyof RuleConfig,
+    changes: { enabled?: boolean; params?: RuleParams }
+  ) => {
+    setDraftConfig((prev) => {
+      const setting = prev[ruleId] ?? {};
+      return {
+        ...prev,
+        [ruleId]: {
+          ...setting,
+          ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+          ...(changes.params && {
+            params: { ...setting.params, ...changes.params },
+          }),
+        },
+      };
+    });
+  };
+
+  const updateFte = (pharmacistId: string, value: string) => {
+    setDraftFte((prev) => {
+      const next = { ...prev };
+      const ratio = Number(value);
+      if (value === "" || ratio >= 1) {
+        delete next[pharmacistId];
+      } else {
+        next[pharmacistId] = Math.max(0.1, Math.round(ratio * 100) / 100);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div>
+        <div className="font-medium text-gray-700 mb-1">容許差距</div>
+        {fairnessRules.map((rule) => {
+          const setting = draftConfig[rule.id] ?? {};
+          return (
+            <label key={rule.id} className="flex items-center gap-2 py-0.5">
+              <input
+                type="checkbox"
+                checked={setting.enabled !== false}
+                onChange={(e) =>
+                  updateRule(rule.id, { enabled: e.target.checked })
+                }
+              />
+              <span className="flex-1">{rule.name}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={setting.params?.tolerance ?? rule.defaultParams.tolerance}
+                onChange={(e) =>
+                  updateRule(rule.id, {
+                    params: { tolerance: Math.max(0, Number(e.target.value) || 0) },
+                  })
+                }
+                className="w-14 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          );
+        })}
+      </div>
+      <div>
+        <div className="font-medium text-gray-700 mb-1">勞基法</div>
+        {labourRules.map((rule) => {
+          const setting = draftConfig[rule.id] ?? {};
+          return (
+            <div key={rule.id} className="py-0.5">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={setting.enabled !== false}
+                  onChange={(e) =>
+                    updateRule(rule.id, { enabled: e.target.checked })
+                  }
+                />
+                <span className="flex-1">{rule.name}</span>
+              </label>
+              {Object.entries(rule.paramLabels ?? {}).map(([param, label]) => (
+                <label key={param} className="flex items-center gap-2 pl-6 text-gray-600">
+                  <span className="flex-1">{label}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={setting.params?.[param] ?? rule.defaultParams[param]}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        params: { [param]: Math.max(1, Number(e.target.value) || 1) },
+                      })
+                    }
+                    className="w-14 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <div>
+        <div className="font-medium text-gray-700 mb-1">
+          約定工時比例
+          <span className="ml-1 text-xs text-gray-400">1 = 全職</span>
+        </div>
+        {pharmacists.map((pharmacist) => (
+          <label key={pharmacist.id} className="flex items-center gap-2 py-0.5">
+            <span className="flex-1">{pharmacist.name}</span>
+            <input
+              type="number"
+              min={0.1}
+              max={1}
+              step={0.1}
+              value={draftFte[pharmacist.id] ?? 1}
+              onChange={(e) => updateFte(pharmacist.id, e.target.value)}
+              className="w-14 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onSave(draftConfig, draftFte)}
+          className="flex-1 px-2 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
+        >
+          <Save size={12} className="inline mr-1" />
+          確定
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600"
+        >
+          <X size={12} className="inline mr-1" />
+          取消
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import { Redo2, Undo2 } from "lucide-react";
+import { EditHistory } from "@/types/schedule";
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("zh-TW", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const HistoryPanel = ({ history, onUndo, onRedo }: HistoryPanelProps) => {
+  // 由新到舊列出：已復原的記錄在上（下一筆要重做的緊鄰已套用的記錄），已套用的記錄在下
+  const redoable = [...history.future];
+  const applied = [...history.past].reverse();
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex gap-2">
+        <button
+          onClick={onUndo}
+          disabled={history.past.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="復原（Ctrl+Z）"
+        >
+          <Undo2 size={14} />
+          復原
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={history.future.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="重做（Ctrl+Shift+Z）"
+        >
+          <Redo2 size={14} />
+          重做
+        </button>
+      </div>
+
+      {applied.length === 0 && redoable.length === 0 ? (
+        <div className="text-gray-400">尚無編輯記錄</div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {redoable.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-baseline gap-2 p-2 text-gray-400 border border-dashed border-gray-200 rounded-lg line-through"
+              title="已復原，可重做"
+            >
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-xs whitespace-nowrap">
+                {formatTime(entry.timestamp)}
+              </span>
+            </div>
+          ))}
+          {applied.map((entry, index) => (
+            <div
+              key={entry.id}
+              className={`flex items-baseline gap-2 p-2 border rounded-lg ${
+                index === 0
+                  ? "border-blue-300 bg-blue-50 text-gray-800"
+                  : "border-gray-200 bg-gray-50 text-gray-700"
+              }`}
+            >
+              <span className="flex-1 truncate" title={entry.label}>
+                {entry.label}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {formatTime(entry.timestamp)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import { useState, useRef } from "react";
+import { Plus, Trash2, Upload } from "lucide-react";
+import toast from "react-hot-toast";
+import { Holiday, HolidayCalendar } from "@/types/schedule";
+import {
+  BUILT_IN_HOLIDAY_LISTS,
+  createHoliday,
+  loadHolidayFile,
+  parseHolidayJson,
+} from "@/utils/holidayUtils";
+import { toMonthKey } from "@/utils/calendarDate";
+
+interface HolidayManagerProps {
+  currentMonth: Date;
+  holidays: HolidayCalendar;
+  onChange: (holidays: HolidayCalendar) => void;
+}
+
+const DAY_NAMES = ["日", "一", "二", "三", "四", "五", "六"];
+
+export const HolidayManager = ({
+  currentMonth,
+  holidays,
+  onChange,
+}: HolidayManagerProps) => {
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newKind, setNewKind] = useState<Holiday["kind"]>("holiday");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const monthPrefix = toMonthKey(currentMonth);
+  const monthHolidays = Object.keys(holidays)
+    .filter((dateKey) => dateKey.startsWith(monthPrefix))
+    .sort();
+
+  const mergeHolidays = (imported: HolidayCalendar) => {
+    onChange({ ...holidays, ...imported });
+    toast.success(`已匯入 ${Object.keys(imported).length} 個假日`);
+  };
+
+  const updateHoliday = (dateKey: string, changes: Partial<Holiday>) => {
+    onChange({ ...holidays, [dateKey]: { ...holidays[dateKey], ...changes } });
+  };
+
+  const removeHoliday = (dateKey: string) => {
+    const rest = { ...holidays };
+    delete rest[dateKey];
+    onChange(rest);
+  };
+
+  const handleAdd = () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate) || newName.trim() === "") {
+      toast.error("請輸入日期與假日名稱");
+      return;
+    }
+    onChange({
+      ...holidays,
+      [newDate]: createHoliday(newName.trim(), newKind),
+    });
+    setNewDate("");
+    setNewName("");
+  };
+
+  const handleBuiltIn = (index: number) => {
+    const result = parseHolidayJson(BUILT_IN_HOLIDAY_LISTS[index].data);
+    if (result.success && result.holidays) {
+      mergeHolidays(result.holidays);
+    } else {
+      toast.error("內建假日清單載入失敗：" + result.errors.join("\n"));
+    }
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const result = await loadHolidayFile(file);
+    if (result.success && result.holidays) {
+      mergeHolidays(result.holidays);
+    } else {
+      toast.error("假日匯入失敗：\n" + result.errors.join("\n"));
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {monthHolidays.length > 0 ? (
+        <div className="space-y-2">
+          {monthHolidays.map((dateKey) => {
+            const holiday = holidays[dateKey];
+            return (
+              <div
+                key={dateKey}
+                className="flex items-center gap-2 p-2 bg-orange-50 border border-orange-200 rounded-lg"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-orange-800 truncate">
+                    {Number(dateKey.slice(5, 7))}/{Number(dateKey.slice(8))}{" "}
+                    {holiday.name}
+                  </div>
+                  <select
+                    value={holiday.rulesOf ?? ""}
+                    onChange={(e) =>
+                      updateHoliday(dateKey, {
+                        rulesOf:
+                          e.target.value === "" ? null : Number(e.target.value),
+                      })
+                    }
+                    className="mt-1 px-1 py-0.5 border rounded text-xs"
+                  >
+                    <option value="">公休</option>
+                    {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                      <option key={day} value={day}>
+                        依週{DAY_NAMES[day]}規則
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <span
+                  className={`px-1 rounded text-xs ${
+                    holiday.kind === "makeup"
+                      ? "bg-blue-100 text-blue-700"
+                      : "bg-orange-100 text-orange-700"
+                  }`}
+                >
+                  {holiday.kind === "makeup" ? "補班" : "國定假日"}
+                </span>
+                <button
+                  onClick={() => removeHoliday(dateKey)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="移除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-gray-400">本月沒有登記假日</div>
+      )}
+
+      {/* 新增假日 */}
+      <div className="flex flex-col gap-2 pt-2 border-t border-gray-200">
+        <div className="flex gap-1">
+          <input
+            type="date"
+            value={newDate}
+            onChange={(e) => setNewDate(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border rounded text-sm"
+          />
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as Holiday["kind"])}
+            className="px-1 py-1 border rounded text-sm"
+          >
+            <option value="holiday">國定假日</option>
+            <option value="makeup">補班</option>
+          </select>
+        </div>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="假日名稱"
+            maxLength={50}
+            className="flex-1 min-w-0 px-2 py-1 border rounded text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            className="px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
+            title="新增假日"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* 匯入假日清單 */}
+      <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-200">
+        {BUILT_IN_HOLIDAY_LISTS.map((list, index) => (
+          <button
+            key={list.label}
+            onClick={() => handleBuiltIn(index)}
+            className="px-2 py-1 bg-orange-500 text-white rounded text-xs hover:bg-orange-600"
+          >
+            載入{list.label}
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 bg-gray-600 text-white rounded text-xs hover:bg-gray-700"
+          title="匯入 JSON 或 ICS 假日清單"
+        >
+          <Upload size={12} />
+          匯入檔案
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.ics,application/json,text/calendar"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { GitMerge, Save, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { SaveData } from "@/schemas/saveData";
+import { loadFromFile, saveToFile } from "@/utils/saveLoadUtils";
+import {
+  MERGE_FIELD_LABELS,
+  MergeResolutions,
+  MergeSide,
+  buildMergedSaveData,
+  describeMergeKey,
+  describeMergeValue,
+  mergeSaveFiles,
+} from "@/utils/saveMerge";
+
+interface MergePanelProps {
+  onClose: () => void;
+}
+
+type MergeInput = "base" | "ours" | "theirs";
+
+interface LoadedFile {
+  name: string;
+  data: SaveData;
+}
+
+const INPUT_LABELS: Record<MergeInput, { title: string; hint: string }> = {
+  base: { title: "共同版本", hint: "兩人開始編輯前的存檔" },
+  ours: { title: "版本 A", hint: "第一份編輯後的存檔" },
+  theirs: { title: "版本 B", hint: "第二份編輯後的存檔" },
+};
+
+const SIDE_LABELS: Record<MergeSide, string> = {
+  ours: "A",
+  theirs: "B",
+};
+
+// 合併兩份由同一份存檔各自編輯的檔案：只有一邊修改的項目自動合併，兩邊都修改的項目逐一選擇
+export const MergePanel = ({ onClose }: MergePanelProps) => {
+  const [files, setFiles] = useState<Record<MergeInput, LoadedFile | null>>({
+    base: null,
+    ours: null,
+    theirs: null,
+  });
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+
+  const result = useMemo(
+    () =>
+      files.base && files.ours && files.theirs
+        ? mergeSaveFiles(files.base.data, files.ours.data, files.theirs.data)
+        : null,
+    [files]
+  );
+
+  // 衝突中顯示的藥師名稱，優先使用版本 A 的名稱
+  const names = useMemo(() => {
+    const map = new Map<string, string>();
+    (["base", "theirs", "ours"] as MergeInput[]).forEach((input) => {
+      const data = files[input]?.data;
+      [...(data?.pharmacists ?? []), ...(data?.archivedPharmacists ?? [])].forEach(
+        (p) => map.set(p.id, p.name)
+      );
+    });
+    return map;
+  }, [files]);
+
+  const handleFileChange = async (
+    input: MergeInput,
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const loaded = await loadFromFile(file);
+    const { data } = loaded;
+    if (!loaded.success || !data) {
+      toast.error(`${INPUT_LABELS[input].title}讀檔失敗：\n` + loaded.errors.join("\n"));
+      return;
+    }
+    setFiles((prev) => ({ ...prev, [input]: { name: file.name, data } }));
+    setResolutions({});
+  };
+
+  const resolveAll = (side: MergeSide) => {
+    if (!result) return;
+    setResolutions(
+      Object.fromEntries(result.conflicts.map((conflict) => [conflict.id, side]))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    const merged = buildMergedSaveData(result, resolutions);
+    if (!merged.isValid || !merged.data) {
+      toast.error("合併結果無效：\n" + merged.errors.join("\n"));
+      return;
+    }
+
+    const saved = await saveToFile(merged.data);
+    if (!saved.success) {
+      toast.error("存檔失敗：" + saved.error);
+      return;
+    }
+    toast.success("已產生合併後的存檔");
+    if (merged.warnings.length > 0) {
+      toast("注意：\n" + merged.warnings.join("\n"), { icon: "⚠️", duration: 6000 });
+    }
+  };
+
+  const resolvedCount = result
+    ? result.conflicts.filter((conflict) => resolutions[conflict.id]).length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-lg p-6 max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <GitMerge className="text-indigo-600" size={20} />
+            合併存檔
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-700"
+            title="關閉"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4 text-sm">
+          {(Object.keys(INPUT_LABELS) as MergeInput[]).map((input) => (
+            <label
+              key={input}
+              className="flex flex-col gap-1 p-2 bg-gray-50 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-100"
+              title={INPUT_LABELS[input].hint}
+            >
+              <span className="font-medium text-gray-800">{INPUT_LABELS[input].title}</span>
+              <span className="text-xs text-gray-500 truncate">
+                {files[input]?.name ?? INPUT_LABELS[input].hint}
+              </span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(event) => handleFileChange(input, event)}
+                className="hidden"
+              />
+            </label>
+          ))}
+        </div>
+
+        {!result ? (
+          <div className="text-sm text-gray-400">請選擇三份存檔</div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-600">
+              <span className="flex-1">
+                自動合併：採用 A {result.takenFromOurs} 項、B {result.takenFromTheirs} 項；
+                衝突 {result.conflicts.length} 項
+                {result.conflicts.length > 0 &&
+                  `（已選擇 ${resolvedCount} 項）`}
+              </span>
+              {result.conflicts.length > 0 && (
+                <>
+                  <button
+                    onClick={() => resolveAll("ours")}
+                    className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    全部採用 A
+                  </button>
+                  <button
+                    onClick={() => resolveAll("theirs")}
+                    className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    全部採用 B
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div className="overflow-y-auto space-y-2 text-sm">
+              {result.conflicts.map((conflict) => (
+                <div
+                  key={conflict.id}
+                  className="flex items-center gap-3 p-2 bg-gray-50 border border-gray-200 rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-800">
+                      {MERGE_FIELD_LABELS[conflict.field]}
+                      <span className="ml-2">{describeMergeKey(conflict, names)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      原本：{describeMergeValue(conflict.field, conflict.base)}
+                    </div>
+                  </div>
+                  {(["ours", "theirs"] as MergeSide[]).map((side) => (
+                    <button
+                      key={side}
+                      onClick={() =>
+                        setResolutions((prev) => ({ ...prev, [conflict.id]: side }))
+                      }
+                      className={`max-w-40 px-2 py-1 rounded border text-left truncate ${
+                        resolutions[conflict.id] === side
+                          ? "bg-indigo-600 border-indigo-600 text-white"
+                          : "bg-white border-gray-300 text-gray-700 hover:border-indigo-400"
+                      }`}
+                      title={describeMergeValue(conflict.field, conflict[side])}
+                    >
+                      {SIDE_LABELS[side]}：{describeMergeValue(conflict.field, conflict[side])}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={handleSave}
+                disabled={resolvedCount < result.conflicts.length}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save size={16} />
+                產生合併存檔
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { Pharmacist } from "@/types/schedule";
+import { buildOvertimeReport, OvertimeReportInput } from "@/utils/overtimeReport";
+import { SpreadsheetFormat, SPREADSHEET_FORMAT_LABELS } from "@/utils/spreadsheetUtils";
+
+interface OvertimeReportPanelProps {
+  input: OvertimeReportInput;
+  onExport: (format: SpreadsheetFormat) => void;
+}
+
+const formatDate = (dateKey: string) =>
+  `${Number(dateKey.slice(5, 7))}/${Number(dateKey.slice(8, 10))}`;
+
+// 本月加班報表：每位藥師的加班次數與工時，以及逐筆明細
+export const OvertimeReportPanel = ({ input, onExport }: OvertimeReportPanelProps) => {
+  const report = buildOvertimeReport(input);
+  const pharmacists = new Map<string, Pharmacist>(
+    input.roster.map((pharmacist) => [pharmacist.id, pharmacist])
+  );
+
+  if (report.entries.length === 0) {
+    return <div className="text-sm text-gray-500">本月沒有加班</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="p-1 text-left font-medium">藥師</th>
+            <th className="p-1 text-right font-medium">次數</th>
+            <th className="p-1 text-right font-medium">工時</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.totals
+            .filter((total) => total.sessions > 0)
+            .map((total) => (
+              <tr key={total.pharmacistId}>
+                <td className="p-1">{pharmacists.get(total.pharmacistId)?.name}</td>
+                <td className="p-1 text-right">{total.sessions}</td>
+                <td className="p-1 text-right">{total.hours}h</td>
+              </tr>
+            ))}
+          <tr className="border-t font-medium">
+            <td className="p-1">合計</td>
+            <td className="p-1 text-right">{report.totalSessions}</td>
+            <td className="p-1 text-right">{report.totalHours}h</td>
+          </tr>
+        </tbody>
+      </table>
+      <ul className="space-y-1 max-h-48 overflow-y-auto text-gray-600">
+        {report.entries.map((entry) => (
+          <li key={`${entry.dateKey}-${entry.pharmacistId}`}>
+            {formatDate(entry.dateKey)} {pharmacists.get(entry.pharmacistId)?.name}{" "}
+            {entry.start}-{entry.end}（{entry.hours}h）
+            {entry.reason && <span className="text-gray-500">：{entry.reason}</span>}
+          </li>
+        ))}
+      </ul>
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) onExport(e.target.value as SpreadsheetFormat);
+        }}
+        className="px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="匯出本月加班報表"
+      >
+        <option value="">匯出加班報表…</option>
+        {(Object.keys(SPREADSHEET_FORMAT_LABELS) as SpreadsheetFormat[]).map((format) => (
+          <option key={format} value={format}>
+            {SPREADSHEET_FORMAT_LABELS[format]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
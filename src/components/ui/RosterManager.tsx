@@ -0,0 +1,243 @@
+import { useState } from "react";
+import {
+  Archive,
+  ArrowDown,
+  ArrowUp,
+  Plus,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { ArchivedPharmacist, Pharmacist } from "@/types/schedule";
+import { MAX_PHARMACISTS, validatePharmacistName } from "@/utils/rosterUtils";
+
+// 移除藥師時對未來班次的處理方式：null 表示清除，否則轉給指定藥師（id）
+export interface RemovePharmacistOptions {
+  reassignTo: string | null;
+  archive: boolean;
+}
+
+interface RosterManagerProps {
+  pharmacists: Pharmacist[];
+  archivedPharmacists: ArchivedPharmacist[];
+  onAdd: (name: string) => void;
+  onReorder: (pharmacists: Pharmacist[]) => void;
+  onUpdate: (id: string, changes: Partial<Omit<Pharmacist, "id">>) => void;
+  onRemove: (id: string, options: RemovePharmacistOptions) => void;
+  onRestore: (id: string) => void;
+}
+
+export const RosterManager = ({
+  pharmacists,
+  archivedPharmacists,
+  onAdd,
+  onReorder,
+  onUpdate,
+  onRemove,
+  onRestore,
+}: RosterManagerProps) => {
+  const [newName, setNewName] = useState("");
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+
+  const handleAdd = () => {
+    const error = validatePharmacistName(newName);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (pharmacists.length >= MAX_PHARMACISTS) {
+      toast.error(`藥師數量不可超過${MAX_PHARMACISTS}位`);
+      return;
+    }
+    onAdd(newName.trim());
+    setNewName("");
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pharmacists.length) return;
+    const next = [...pharmacists];
+    [next[index], next[target]] = [next[target], next[index]];
+    onReorder(next);
+  };
+
+  const startRemove = (id: string) => {
+    if (pharmacists.length <= 1) {
+      toast.error("至少需要一位藥師");
+      return;
+    }
+    setRemoving(id);
+    setReassignTo("");
+  };
+
+  const confirmRemove = (pharmacist: Pharmacist, archive: boolean) => {
+    if (
+      !archive &&
+      !window.confirm(
+        `永久刪除將清除${pharmacist.name}的所有排班與請假記錄，確定要繼續嗎？`
+      )
+    ) {
+      return;
+    }
+    onRemove(pharmacist.id, { reassignTo: reassignTo || null, archive });
+    setRemoving(null);
+  };
+
+  const isRosterFull = pharmacists.length >= MAX_PHARMACISTS;
+
+  const handleRestore = (id: string) => {
+    if (isRosterFull) {
+      toast.error(`藥師數量不可超過${MAX_PHARMACISTS}位`);
+      return;
+    }
+    onRestore(id);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        {pharmacists.map((pharmacist, index) => (
+          <div key={pharmacist.id}>
+            <div className="flex items-center gap-1 p-2 bg-gray-50 border border-gray-200 rounded-lg">
+              <input
+                type="color"
+                value={pharmacist.color}
+                onChange={(e) => onUpdate(pharmacist.id, { color: e.target.value })}
+                className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                title="代表顏色"
+              />
+              <span className="flex-1 font-medium text-gray-800 truncate">
+                {pharmacist.name}
+              </span>
+              <input
+                type="text"
+                value={pharmacist.label}
+                onChange={(e) =>
+                  e.target.value.trim() !== "" &&
+                  onUpdate(pharmacist.id, { label: e.target.value.trim() })
+                }
+                maxLength={4}
+                className="w-12 px-1 py-0.5 border rounded text-center text-xs"
+                title="月曆上顯示的簡稱"
+              />
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                title="上移"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === pharmacists.length - 1}
+                className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                title="下移"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => startRemove(pharmacist.id)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="移除"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {/* 移除確認：選擇今天起的班次如何處理 */}
+            {removing === pharmacist.id && (
+              <div className="mt-1 p-2 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                <div className="text-red-700">今天起的班次：</div>
+                <select
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className="w-full px-2 py-1 border rounded text-sm"
+                >
+                  <option value="">清除</option>
+                  {pharmacists
+                    .filter((other) => other.id !== pharmacist.id)
+                    .map((other) => (
+                      <option key={other.id} value={other.id}>
+                        轉給{other.name}
+                      </option>
+                    ))}
+                </select>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => confirmRemove(pharmacist, true)}
+                    className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-amber-500 text-white rounded text-xs hover:bg-amber-600"
+                    title="保留過去的班表，歷史月份仍會顯示"
+                  >
+                    <Archive size={12} />
+                    封存
+                  </button>
+                  <button
+                    onClick={() => confirmRemove(pharmacist, false)}
+                    className="flex-1 flex items-center justify-center gap-1 px-2 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600"
+                  >
+                    <Trash2 size={12} />
+                    永久刪除
+                  </button>
+                  <button
+                    onClick={() => setRemoving(null)}
+                    className="flex-1 px-2 py-1 bg-gray-500 text-white rounded text-xs hover:bg-gray-600"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* 新增藥師 */}
+      <div className="flex gap-1 pt-2 border-t border-gray-200">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder="新增藥師姓名"
+          maxLength={10}
+          className="flex-1 min-w-0 px-2 py-1 border rounded text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          className="px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
+          title="新增藥師"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {/* 已封存的藥師 */}
+      {archivedPharmacists.length > 0 && (
+        <div className="pt-2 border-t border-gray-200 space-y-1">
+          <div className="text-gray-500">已封存</div>
+          {archivedPharmacists.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-2 p-2 text-gray-500 bg-gray-50 border border-dashed border-gray-300 rounded-lg"
+            >
+              <span className="flex-1 truncate">
+                {entry.name}
+                <span className="ml-1 text-xs">（{entry.archivedAt} 封存）</span>
+              </span>
+              <button
+                onClick={() => handleRestore(entry.id)}
+                disabled={isRosterFull}
+                className="p-1 text-gray-400 hover:text-green-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                title={isRosterFull ? `藥師數量已達上限${MAX_PHARMACISTS}位` : "恢復到名單"}
+              >
+                <RotateCcw size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
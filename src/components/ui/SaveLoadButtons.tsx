@@ -1,23 +1,32 @@
 import { useState, useRef } from 'react';
-import { Save, Upload } from 'lucide-react';
+import { GitCompare, Save, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { EXPORT_VERSIONS } from '@/utils/saveLoadUtils';
 
 interface SaveLoadButtonsProps {
   onSave: () => Promise<void>;
+  // 提供時顯示「存為舊版」選單：另存為舊版程式可開啟的格式
+  onSaveAsVersion?: (version: string) => Promise<void>;
   onLoad: (file: File) => Promise<void>;
+  // 提供時顯示「比較」按鈕：選擇存檔並與目前的排班比較，而不直接載入
+  onCompare?: (file: File) => Promise<void>;
   className?: string;
   disabled?: boolean;
 }
 
 export const SaveLoadButtons = ({ 
   onSave, 
+  onSaveAsVersion,
   onLoad, 
+  onCompare,
   className = "",
   disabled = false 
 }: SaveLoadButtonsProps) => {
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const compareInputRef = useRef<HTMLInputElement>(null);
+  const [isComparing, setIsComparing] = useState(false);
 
   const handleSave = async () => {
     if (disabled || isSaving) return;
@@ -34,26 +43,64 @@ export const SaveLoadButtons = ({
     }
   };
 
+  const handleSaveAsVersion = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const version = event.target.value;
+    event.target.value = '';
+    if (!version || !onSaveAsVersion || disabled || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onSaveAsVersion(version);
+    } catch (error) {
+      console.error('存檔失敗:', error);
+      toast.error('存檔失敗，請稍後再試');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleLoadClick = () => {
     if (disabled || isLoading) return;
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  // 檢查檔案類型與大小，不符合時顯示錯誤並回傳 false
+  const checkFile = (file: File) => {
     // 檢查檔案類型
     if (!file.name.endsWith('.json') && file.type !== 'application/json') {
       toast.error('請選擇 JSON 格式的存檔檔案');
-      return;
+      return false;
     }
 
     // 檢查檔案大小 (限制 10MB)
     if (file.size > 10 * 1024 * 1024) {
       toast.error('檔案大小不可超過 10MB');
-      return;
+      return false;
+    }
+    return true;
+  };
+
+  const handleCompareChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !onCompare || !checkFile(file)) return;
+
+    setIsComparing(true);
+    try {
+      await onCompare(file);
+    } catch (error) {
+      console.error('比較失敗:', error);
+      toast.error('比較失敗，請檢查檔案格式');
+    } finally {
+      setIsComparing(false);
+      if (compareInputRef.current) {
+        compareInputRef.current.value = '';
+      }
     }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !checkFile(file)) return;
 
     setIsLoading(true);
     try {
@@ -91,6 +138,24 @@ export const SaveLoadButtons = ({
         {isSaving ? '存檔中...' : '存檔'}
       </button>
 
+      {/* 存為舊版選單 */}
+      {onSaveAsVersion && EXPORT_VERSIONS.length > 0 && (
+        <select
+          value=""
+          onChange={handleSaveAsVersion}
+          disabled={disabled || isSaving}
+          className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 disabled:opacity-50"
+          title="另存為舊版程式可以開啟的格式"
+        >
+          <option value="">存為舊版…</option>
+          {EXPORT_VERSIONS.map((version) => (
+            <option key={version} value={version}>
+              {version} 版
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* 讀檔按鈕 */}
       <button
         onClick={handleLoadClick}
@@ -109,6 +174,26 @@ export const SaveLoadButtons = ({
         {isLoading ? '讀檔中...' : '讀檔'}
       </button>
 
+      {/* 比較按鈕 */}
+      {onCompare && (
+        <button
+          onClick={() => !disabled && !isComparing && compareInputRef.current?.click()}
+          disabled={disabled || isComparing}
+          className={`
+            flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm
+            transition-all duration-200
+            ${disabled || isComparing
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700 active:scale-95'
+            }
+          `}
+          title="選擇存檔並與目前的排班比較差異"
+        >
+          <GitCompare size={16} />
+          {isComparing ? '讀取中...' : '比較'}
+        </button>
+      )}
+
       {/* 隱藏的檔案輸入 */}
       <input
         ref={fileInputRef}
@@ -117,6 +202,13 @@ export const SaveLoadButtons = ({
         onChange={handleFileChange}
         className="hidden"
       />
+      <input
+        ref={compareInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleCompareChange}
+        className="hidden"
+      />
     </div>
   );
 };
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Plus, Save, X, RotateCcw, Trash2 } from "lucide-react";
+import { Shift, ShiftDefinitions, ShiftTime } from "@/types/schedule";
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  SHIFT_ORDER,
+  getShiftHours,
+} from "@/utils/scheduleUtils";
+
+interface ShiftDefinitionsEditorProps {
+  definitions: ShiftDefinitions;
+  onSave: (definitions: ShiftDefinitions) => void;
+  onCancel: () => void;
+}
+
+// 依週一到週日的順序顯示
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ["日", "一", "二", "三", "四", "五", "六"];
+
+const inputClass =
+  "px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// 一列班別時間：上班、下班、休息分鐘數與工時
+const ShiftTimeInputs = ({
+  time,
+  onChange,
+}: {
+  time: ShiftTime;
+  onChange: (changes: Partial<ShiftTime>) => void;
+}) => (
+  <>
+    <td className="p-1">
+      <input
+        type="time"
+        value={time.start}
+        onChange={(e) => e.target.value && onChange({ start: e.target.value })}
+        className={`w-20 ${inputClass}`}
+      />
+    </td>
+    <td className="p-1">
+      <input
+        type="time"
+        value={time.end}
+        onChange={(e) => e.target.value && onChange({ end: e.target.value })}
+        className={`w-20 ${inputClass}`}
+      />
+    </td>
+    <td className="p-1">
+      <input
+        type="number"
+        min={0}
+        max={240}
+        step={5}
+        value={time.breakMinutes}
+        onChange={(e) =>
+          onChange({
+            breakMinutes: Math.max(0, Math.min(240, Math.floor(Number(e.target.value) || 0))),
+          })
+        }
+        className={`w-12 ${inputClass}`}
+      />
+    </td>
+    <td className="p-1 text-gray-500 text-right">{getShiftHours(time)}h</td>
+  </>
+);
+
+export const ShiftDefinitionsEditor = ({
+  definitions,
+  onSave,
+  onCancel,
+}: ShiftDefinitionsEditorProps) => {
+  const [draft, setDraft] = useState<ShiftDefinitions>(() =>
+    structuredClone(definitions)
+  );
+  const [newOverride, setNewOverride] = useState<{ shift: Shift; dayOfWeek: number }>({
+    shift: "晚",
+    dayOfWeek: 6,
+  });
+
+  const updateShift = (shift: Shift, changes: Partial<ShiftTime>) => {
+    setDraft((prev) => ({ ...prev, [shift]: { ...prev[shift], ...changes } }));
+  };
+
+  const updateOverride = (shift: Shift, dayOfWeek: number, time?: ShiftTime) => {
+    setDraft((prev) => {
+      const overrides = { ...prev[shift].weekdayOverrides };
+      if (time) {
+        overrides[dayOfWeek] = time;
+      } else {
+        delete overrides[dayOfWeek];
+      }
+      return { ...prev, [shift]: { ...prev[shift], weekdayOverrides: overrides } };
+    });
+  };
+
+  const addOverride = () => {
+    const { shift, dayOfWeek } = newOverride;
+    if (draft[shift].weekdayOverrides?.[dayOfWeek]) return;
+    const { start, end, breakMinutes } = draft[shift];
+    updateOverride(shift, dayOfWeek, { start, end, breakMinutes });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="p-1 text-left font-medium">班別</th>
+            <th className="p-1 font-medium">上班</th>
+            <th className="p-1 font-medium">下班</th>
+            <th className="p-1 font-medium" title="不計入工時的休息分鐘數">
+              休息
+            </th>
+            <th className="p-1 font-medium">工時</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {SHIFT_ORDER.flatMap((shift) => [
+            <tr key={shift}>
+              <td className="p-1 font-medium">{shift}</td>
+              <ShiftTimeInputs
+                time={draft[shift]}
+                onChange={(changes) => updateShift(shift, changes)}
+              />
+              <td />
+            </tr>,
+            ...WEEK_ORDER.filter(
+              (dayOfWeek) => draft[shift].weekdayOverrides?.[dayOfWeek]
+            ).map((dayOfWeek) => {
+              const time = draft[shift].weekdayOverrides![dayOfWeek];
+              return (
+                <tr key={`${shift}-${dayOfWeek}`} className="text-gray-600">
+                  <td className="p-1 pl-3">週{DAY_NAMES[dayOfWeek]}</td>
+                  <ShiftTimeInputs
+                    time={time}
+                    onChange={(changes) =>
+                      updateOverride(shift, dayOfWeek, { ...time, ...changes })
+                    }
+                  />
+                  <td className="p-1">
+                    <button
+                      onClick={() => updateOverride(shift, dayOfWeek)}
+                      className="p-0.5 text-gray-400 hover:text-red-600"
+                      title="移除此星期的覆寫"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              );
+            }),
+          ])}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-1 text-sm">
+        <select
+          value={newOverride.shift}
+          onChange={(e) =>
+            setNewOverride((prev) => ({ ...prev, shift: e.target.value as Shift }))
+          }
+          className="px-1 py-0.5 border rounded"
+        >
+          {SHIFT_ORDER.map((shift) => (
+            <option key={shift} value={shift}>
+              {shift}班
+            </option>
+          ))}
+        </select>
+        <select
+          value={newOverride.dayOfWeek}
+          onChange={(e) =>
+            setNewOverride((prev) => ({ ...prev, dayOfWeek: Number(e.target.value) }))
+          }
+          className="px-1 py-0.5 border rounded"
+        >
+          {WEEK_ORDER.map((dayOfWeek) => (
+            <option key={dayOfWeek} value={dayOfWeek}>
+              週{DAY_NAMES[dayOfWeek]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addOverride}
+          className="flex items-center gap-1 px-2 py-0.5 text-blue-600 border border-blue-300 rounded hover:bg-blue-50"
+          title="為特定星期設定不同的班別時間"
+        >
+          <Plus size={12} />
+          星期覆寫
+        </button>
+      </div>
+      <div className="flex gap-1">
+        <button
+          onClick={() => onSave(draft)}
+          className="flex-1 px-2 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
+        >
+          <Save size={12} className="inline mr-1" />
+          確定
+        </button>
+        <button
+          onClick={() => setDraft(structuredClone(DEFAULT_SHIFT_DEFINITIONS))}
+          className="flex-1 px-2 py-1 bg-amber-500 text-white rounded text-sm hover:bg-amber-600"
+          title="恢復預設班別時間"
+        >
+          <RotateCcw size={12} className="inline mr-1" />
+          預設
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600"
+        >
+          <X size={12} className="inline mr-1" />
+          取消
+        </button>
+      </div>
+    </div>
+  );
+};
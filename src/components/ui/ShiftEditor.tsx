@@ -1,15 +1,61 @@
 import { useState } from "react";
 import { Save, X } from "lucide-react";
-import { Shift } from "@/types/schedule";
+import {
+  Availability,
+  OvertimeEntry,
+  OvertimePeriod,
+  Shift,
+} from "@/types/schedule";
+import { AVAILABILITY_LABELS } from "@/utils/scheduleUtils";
 
 interface ShiftEditorProps {
   shifts: Shift[];
-  onSave: (shifts: Shift[]) => void;
+  availability?: Availability;
+  overtime?: OvertimeEntry;
+  // 沒有加班明細時的時數（加班班別的時間）
+  defaultOvertimeHours: number;
+  onSave: (
+    shifts: Shift[],
+    availability: Availability | null,
+    overtime: OvertimeEntry | null
+  ) => void;
   onCancel: () => void;
 }
 
-export const ShiftEditor = ({ shifts, onSave, onCancel }: ShiftEditorProps) => {
+const OVERTIME_PERIODS: OvertimePeriod[] = ["早", "午", "晚"];
+
+export const ShiftEditor = ({
+  shifts,
+  availability,
+  overtime,
+  defaultOvertimeHours,
+  onSave,
+  onCancel,
+}: ShiftEditorProps) => {
   const [selectedShifts, setSelectedShifts] = useState<Shift[]>([...shifts]);
+  const [selectedAvailability, setSelectedAvailability] =
+    useState<Availability | null>(availability ?? null);
+  const [overtimeDraft, setOvertimeDraft] = useState<OvertimeEntry>(
+    overtime ?? { hours: defaultOvertimeHours, reason: "" }
+  );
+
+  // 沒有排加班，或明細與預設相同時不記錄明細
+  const getOvertimeEntry = (): OvertimeEntry | null => {
+    if (!selectedShifts.includes("加")) return null;
+    const reason = overtimeDraft.reason.trim();
+    if (
+      overtimeDraft.hours === defaultOvertimeHours &&
+      reason === "" &&
+      !overtimeDraft.period
+    ) {
+      return null;
+    }
+    return {
+      hours: overtimeDraft.hours,
+      reason,
+      ...(overtimeDraft.period && { period: overtimeDraft.period }),
+    };
+  };
 
   const toggleShift = (shift: Shift) => {
     setSelectedShifts((prev) =>
@@ -30,7 +76,9 @@ export const ShiftEditor = ({ shifts, onSave, onCancel }: ShiftEditorProps) => {
                   ? "bg-yellow-500 text-white"
                   : shift === "午"
                   ? "bg-blue-500 text-white"
-                  : "bg-purple-500 text-white"
+                  : shift === "晚"
+                  ? "bg-purple-500 text-white"
+                  : "bg-orange-500 text-white"
                 : "bg-gray-200 text-gray-600 hover:bg-gray-300"
             }`}
           >
@@ -38,9 +86,84 @@ export const ShiftEditor = ({ shifts, onSave, onCancel }: ShiftEditorProps) => {
           </button>
         ))}
       </div>
+      {selectedShifts.includes("加") && (
+        <div className="flex flex-col gap-1 p-1 border border-orange-200 rounded bg-orange-50 text-sm">
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0.5}
+              max={12}
+              step={0.5}
+              value={overtimeDraft.hours}
+              onChange={(e) =>
+                setOvertimeDraft((prev) => ({
+                  ...prev,
+                  hours: Math.max(
+                    0.5,
+                    Math.min(12, Math.round((Number(e.target.value) || 0) * 2) / 2)
+                  ),
+                }))
+              }
+              className="w-14 px-1 py-0.5 border rounded text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="加班時數"
+            />
+            <span className="text-gray-600">小時</span>
+            <select
+              value={overtimeDraft.period ?? ""}
+              onChange={(e) =>
+                setOvertimeDraft((prev) => ({
+                  ...prev,
+                  period:
+                    e.target.value === ""
+                      ? undefined
+                      : (e.target.value as OvertimePeriod),
+                }))
+              }
+              className="flex-1 px-1 py-0.5 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="加班接在哪個時段之後"
+            >
+              <option value="">依加班時間</option>
+              {OVERTIME_PERIODS.map((period) => (
+                <option key={period} value={period}>
+                  接在{period}班後
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={overtimeDraft.reason}
+            maxLength={100}
+            onChange={(e) =>
+              setOvertimeDraft((prev) => ({ ...prev, reason: e.target.value }))
+            }
+            placeholder="加班事由"
+            className="px-1 py-0.5 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+      <select
+        value={selectedAvailability ?? ""}
+        onChange={(e) =>
+          setSelectedAvailability(
+            e.target.value === "" ? null : (e.target.value as Availability)
+          )
+        }
+        className="px-2 py-1 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="請假登記"
+      >
+        <option value="">可排班</option>
+        {(Object.keys(AVAILABILITY_LABELS) as Availability[]).map((key) => (
+          <option key={key} value={key}>
+            {AVAILABILITY_LABELS[key]}
+          </option>
+        ))}
+      </select>
       <div className="flex gap-1">
         <button
-          onClick={() => onSave(selectedShifts)}
+          onClick={() =>
+            onSave(selectedShifts, selectedAvailability, getOvertimeEntry())
+          }
           className="flex-1 px-2 py-1 bg-green-500 text-white rounded text-sm hover:bg-green-600"
         >
           <Save size={12} className="inline mr-1" />
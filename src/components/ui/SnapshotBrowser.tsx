@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { ArchiveRestore, Download, GitCompare, ShieldAlert, Trash2, X } from "lucide-react";
+import { SnapshotMeta, deleteSnapshot, listSnapshots, readSnapshot } from "@/utils/snapshotStore";
+import { loadAutoSave, saveDataToAppState } from "@/utils/saveLoadUtils";
+import {
+  WorkspaceData,
+  WorkspaceDiffSummary,
+  summarizeWorkspaceDiff,
+} from "@/utils/workspaceUtils";
+
+interface SnapshotBrowserProps {
+  current: WorkspaceData;
+  onRestore: (snapshotId: string) => void;
+  // 一份快照時與目前的工作區比較；兩份快照時以較舊的為基準互相比較
+  onCompare: (snapshotIds: string[]) => void;
+  onClose: () => void;
+}
+
+interface SnapshotRow {
+  meta: SnapshotMeta;
+  diff?: WorkspaceDiffSummary;
+}
+
+const formatMonth = (monthKey: string) =>
+  `${monthKey.slice(0, 4)}年${Number(monthKey.slice(5, 7))}月`;
+
+const formatMonths = (meta: SnapshotMeta) => {
+  const months = meta.months.length > 0 ? meta.months : [meta.currentMonth];
+  return months.length > 1
+    ? `${formatMonth(months[0])} – ${formatMonth(months[months.length - 1])}`
+    : formatMonth(months[0]);
+};
+
+const formatDiff = (diff: WorkspaceDiffSummary) => {
+  const parts = [
+    diff.shifts > 0 && `排班 ${diff.shifts} 格`,
+    diff.notes > 0 && `備註 ${diff.notes} 則`,
+    diff.availability > 0 && `請假登記 ${diff.availability} 筆`,
+    diff.overtime > 0 && `加班明細 ${diff.overtime} 筆`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `與目前相比：${parts.join("、")}不同` : "與目前內容相同";
+};
+
+// 讀取所有快照並與目前的工作區比較；讀取失敗的快照會被隔離
+const loadRows = (current: WorkspaceData): SnapshotRow[] => {
+  const diffs = new Map<string, WorkspaceDiffSummary>();
+  listSnapshots()
+    .filter((meta) => !meta.quarantine)
+    .forEach((meta) => {
+      const result = loadAutoSave(meta.id);
+      if (!result.success || !result.data) return;
+      const appState = saveDataToAppState(result.data);
+      diffs.set(
+        meta.id,
+        summarizeWorkspaceDiff(current, {
+          months: appState.months,
+          schedule: appState.schedule,
+          notes: appState.notes,
+          availability: appState.availability,
+          overtime: appState.overtime,
+        })
+      );
+    });
+
+  // 重新讀取列表，包含剛被隔離的快照
+  return listSnapshots().map((meta) => ({ meta, diff: diffs.get(meta.id) }));
+};
+
+export const SnapshotBrowser = ({
+  current,
+  onRestore,
+  onCompare,
+  onClose,
+}: SnapshotBrowserProps) => {
+  // 只在開啟時讀取一次，避免每次編輯都重新解析所有快照
+  const [rows, setRows] = useState<SnapshotRow[]>(() => loadRows(current));
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const snapshots = rows.filter((row) => !row.meta.quarantine);
+  const quarantined = rows.filter((row) => row.meta.quarantine);
+
+  const handleRestore = (meta: SnapshotMeta) => {
+    if (
+      !window.confirm(
+        `還原 ${new Date(meta.savedAt).toLocaleString("zh-TW")} 的快照將取代目前的工作區，確定要繼續嗎？\n（目前的內容仍保留在最新的快照中）`
+      )
+    ) {
+      return;
+    }
+    onRestore(meta.id);
+  };
+
+  // 最多選取兩份快照，選第三份時取代最早選取的
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleDownload = (meta: SnapshotMeta) => {
+    const raw = readSnapshot(meta.id);
+    if (raw === null) return;
+    const blob = new Blob([raw], { type: "application/json;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `隔離快照_${meta.id}.json`;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = (meta: SnapshotMeta) => {
+    if (!window.confirm("刪除後無法復原，確定要刪除這份隔離的快照嗎？")) return;
+    deleteSnapshot(meta.id);
+    setRows((prev) => prev.filter((row) => row.meta.id !== meta.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-lg p-6 max-w-xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <ArchiveRestore className="text-blue-600" size={20} />
+            自動存檔快照
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-700"
+            title="關閉"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {snapshots.length > 1 && (
+          <div className="flex items-center gap-2 mb-3 text-sm text-gray-600">
+            <span className="flex-1">勾選兩份快照可互相比較</span>
+            <button
+              onClick={() => onCompare(selectedIds)}
+              disabled={selectedIds.length !== 2}
+              className="flex items-center gap-1 px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GitCompare size={14} />
+              比較所選快照
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-y-auto space-y-2 text-sm">
+          {snapshots.length === 0 && (
+            <div className="text-gray-400">尚無自動存檔快照</div>
+          )}
+          {snapshots.map(({ meta, diff }) => (
+            <div
+              key={meta.id}
+              className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-lg"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(meta.id)}
+                onChange={() => toggleSelected(meta.id)}
+                title="選取兩份快照互相比較"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800">{formatMonths(meta)}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(meta.savedAt).toLocaleString("zh-TW")}
+                </div>
+                {diff && (
+                  <div className="text-xs text-gray-600">{formatDiff(diff)}</div>
+                )}
+              </div>
+              <button
+                onClick={() => onCompare([meta.id])}
+                className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                title="與目前的工作區比較"
+              >
+                比較
+              </button>
+              <button
+                onClick={() => handleRestore(meta)}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                還原
+              </button>
+            </div>
+          ))}
+
+          {/* 隔離區：讀取失敗的快照保留原始內容，可下載後手動修復 */}
+          {quarantined.length > 0 && (
+            <div className="pt-3 mt-3 border-t border-gray-200 space-y-2">
+              <div className="flex items-center gap-1 text-red-600 font-medium">
+                <ShieldAlert size={16} />
+                已隔離的快照
+              </div>
+              {quarantined.map(({ meta }) => (
+                <div
+                  key={meta.id}
+                  className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-gray-800">
+                      {meta.currentMonth ? formatMonths(meta) : "無法辨識的快照"}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {new Date(meta.savedAt).toLocaleString("zh-TW")}
+                      </span>
+                    </div>
+                    <div className="text-xs text-red-700 break-all">
+                      {meta.quarantine!.errors.slice(0, 3).join("；")}
+                      {meta.quarantine!.errors.length > 3 && "…"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDownload(meta)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    title="下載原始內容"
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(meta)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="刪除"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
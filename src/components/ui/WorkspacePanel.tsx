@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Download, Lock, Send, Unlock } from "lucide-react";
+import toast from "react-hot-toast";
+import { MonthIndex, MonthStatus } from "@/types/schedule";
+import { MONTH_STATUS_LABELS, getMonthStatus } from "@/utils/workspaceUtils";
+import { parseMonthKey, toMonthKey } from "@/utils/calendarDate";
+
+interface WorkspacePanelProps {
+  currentMonth: Date;
+  months: string[];
+  monthIndex: MonthIndex;
+  onMonthChange: (date: Date) => void;
+  onStatusChange: (monthKey: string, status: MonthStatus) => void;
+  onSaveRange: (from: string, to: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<MonthStatus, string> = {
+  draft: "bg-gray-100 text-gray-600",
+  locked: "bg-amber-100 text-amber-700",
+  published: "bg-green-100 text-green-700",
+};
+
+const formatMonth = (monthKey: string) =>
+  `${monthKey.slice(0, 4)}年${Number(monthKey.slice(5, 7))}月`;
+
+export const WorkspacePanel = ({
+  currentMonth,
+  months,
+  monthIndex,
+  onMonthChange,
+  onStatusChange,
+  onSaveRange,
+}: WorkspacePanelProps) => {
+  const currentKey = toMonthKey(currentMonth);
+  const [rangeFrom, setRangeFrom] = useState(currentKey);
+  const [rangeTo, setRangeTo] = useState(currentKey);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSaveRange = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveRange(rangeFrom, rangeTo);
+    } catch (error) {
+      console.error("存檔失敗:", error);
+      toast.error("存檔失敗，請稍後再試");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        {months.map((monthKey) => {
+          const status = getMonthStatus(monthIndex, monthKey);
+          return (
+            <div
+              key={monthKey}
+              className={`flex items-center gap-2 p-2 border rounded-lg ${
+                monthKey === currentKey
+                  ? "border-blue-300 bg-blue-50"
+                  : "border-gray-200 bg-gray-50"
+              }`}
+            >
+              <button
+                onClick={() => onMonthChange(parseMonthKey(monthKey))}
+                className="flex-1 text-left font-medium text-gray-800 hover:text-blue-600"
+                title="切換到此月份"
+              >
+                {formatMonth(monthKey)}
+              </button>
+              <span className={`px-1 rounded text-xs ${STATUS_STYLES[status]}`}>
+                {MONTH_STATUS_LABELS[status]}
+              </span>
+              {status === "draft" ? (
+                <button
+                  onClick={() => onStatusChange(monthKey, "locked")}
+                  className="p-1 text-gray-400 hover:text-amber-600"
+                  title="鎖定此月份"
+                >
+                  <Lock size={14} />
+                </button>
+              ) : (
+                <button
+                  onClick={() => onStatusChange(monthKey, "draft")}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  title="解除鎖定，恢復為草稿"
+                >
+                  <Unlock size={14} />
+                </button>
+              )}
+              {status !== "published" && (
+                <button
+                  onClick={() => onStatusChange(monthKey, "published")}
+                  className="p-1 text-gray-400 hover:text-green-600"
+                  title="發布此月份（發布後不可編輯）"
+                >
+                  <Send size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 匯出指定範圍的月份 */}
+      <div className="flex flex-col gap-2 pt-2 border-t border-gray-200">
+        <div className="flex items-center gap-1">
+          <select
+            value={rangeFrom}
+            onChange={(e) => setRangeFrom(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-1 border rounded text-sm"
+          >
+            {months.map((monthKey) => (
+              <option key={monthKey} value={monthKey}>
+                {formatMonth(monthKey)}
+              </option>
+            ))}
+          </select>
+          <span className="text-gray-500">至</span>
+          <select
+            value={rangeTo}
+            onChange={(e) => setRangeTo(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-1 border rounded text-sm"
+          >
+            {months.map((monthKey) => (
+              <option key={monthKey} value={monthKey}>
+                {formatMonth(monthKey)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleSaveRange}
+          disabled={isSaving}
+          className="flex items-center justify-center gap-1 px-2 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Download size={14} />
+          {isSaving ? "存檔中..." : "存檔所選月份"}
+        </button>
+      </div>
+    </div>
+  );
+};
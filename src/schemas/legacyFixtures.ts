@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+// 測試用的各歷史版本存檔，內容相同：1 月 2 日邱早午、黃晚，陳請假
+
+const SAVED_AT = '2025-01-05T12:00:00.000Z';
+
+const NAME_KEYED = {
+  currentMonth: '2025-01',
+  pharmacists: ['邱', '黃', '李', '陳'],
+  schedule: {
+    '2025-01-02': { 邱: ['早', '午'], 黃: ['晚'] },
+  },
+  notes: { '2025-01-02': '盤點' },
+  savedAt: SAVED_AT,
+};
+
+export const LEGACY_SAVE_FILES: Record<string, Record<string, unknown>> = {
+  // 最早期的存檔沒有版本號
+  unversioned: NAME_KEYED,
+  '1.0.0': { version: '1.0.0', ...NAME_KEYED },
+  '1.1.0': { version: '1.1.0', ...NAME_KEYED },
+  '1.2.0': {
+    version: '1.2.0',
+    ...NAME_KEYED,
+    availability: { '2025-01-02': { 陳: 'leave' } },
+    metadata: { creator: '管理員', department: '藥劑科' },
+  },
+  '2.0.0': {
+    version: '2.0.0',
+    currentMonth: '2025-01',
+    pharmacists: [
+      { id: 'p1', name: '邱', label: '邱', color: '#166534' },
+      { id: 'p2', name: '黃', label: '黃', color: '#995c02' },
+      { id: 'p3', name: '李', label: '李', color: '#621e69' },
+      { id: 'p4', name: '陳', label: '陳', color: '#1e40af' },
+    ],
+    schedule: {
+      '2025-01-02': { p1: ['早', '午'], p2: ['晚'] },
+    },
+    notes: { '2025-01-02': '盤點' },
+    availability: { '2025-01-02': { p4: 'leave' } },
+    savedAt: SAVED_AT,
+  },
+};
+
+// 舊版程式實際用來讀取存檔的嚴格 Schema（取自 1.0.0 版程式），降級匯出的檔案必須能通過
+const STRICT_SCHEDULE = z.record(
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  z.record(z.string().min(1), z.array(z.enum(['早', '午', '晚', '加'])).max(4))
+);
+
+const STRICT_V1_FIELDS = {
+  version: z.string().min(1),
+  currentMonth: z.string().regex(/^\d{4}-\d{2}$/),
+  pharmacists: z.array(z.string().min(1)).min(1).max(20),
+  schedule: STRICT_SCHEDULE,
+  notes: z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.string().max(500)),
+  savedAt: z.string().datetime(),
+};
+
+export const LEGACY_STRICT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  '1.0.0': z.object(STRICT_V1_FIELDS).strict(),
+  '1.1.0': z.object(STRICT_V1_FIELDS).strict(),
+  '1.2.0': z
+    .object({
+      ...STRICT_V1_FIELDS,
+      metadata: z.object({ creator: z.string().optional(), department: z.string().optional() }).optional(),
+    })
+    .strict(),
+};
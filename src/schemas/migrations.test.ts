@@ -0,0 +1,325 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_VERSION,
+  HISTORICAL_SCHEMAS,
+  compareVersions,
+  downgradeToVersion,
+  downgrades,
+  findMigrationPath,
+  getDowngradeVersions,
+  migrateToLatest,
+  migrations,
+  parseVersion,
+  validateLegacyData,
+} from "./migrations";
+import { SaveDataSchema, validateSaveData } from "./saveData";
+import { LEGACY_SAVE_FILES, LEGACY_STRICT_SCHEMAS } from "./legacyFixtures";
+import { createSaveData } from "@/utils/saveLoadUtils";
+import { createDefaultPharmacists } from "@/utils/rosterUtils";
+
+const steps = (path: { from: string; to: string }[] | null) =>
+  path?.map(({ from, to }) => `${from}->${to}`);
+
+describe("version helpers", () => {
+  it("parses and compares versions", () => {
+    expect(parseVersion("1.2.3")).toEqual({ major: 1, minor: 2, patch: 3 });
+    expect(parseVersion("2")).toEqual({ major: 2, minor: 0, patch: 0 });
+    expect(compareVersions(parseVersion("1.10.0"), parseVersion("1.2.0"))).toBeGreaterThan(0);
+    expect(compareVersions(parseVersion("2.0.1"), parseVersion("2.0.1"))).toBe(0);
+  });
+});
+
+describe("migration registry", () => {
+  it("registers only single steps between known versions", () => {
+    const known = [...Object.keys(HISTORICAL_SCHEMAS), CURRENT_VERSION];
+    [...migrations, ...downgrades].forEach(({ from, to }) => {
+      expect(known).toContain(from);
+      expect(known).toContain(to);
+    });
+  });
+
+  it("can upgrade every historical version and downgrade back to it", () => {
+    Object.keys(HISTORICAL_SCHEMAS).forEach((version) => {
+      expect(findMigrationPath(version, CURRENT_VERSION)).not.toBeNull();
+      expect(findMigrationPath(CURRENT_VERSION, version, downgrades)).not.toBeNull();
+    });
+  });
+});
+
+describe("findMigrationPath", () => {
+  it("chains single-step migrations", () => {
+    expect(steps(findMigrationPath("1.0.0", CURRENT_VERSION))).toEqual([
+      "1.0.0->1.1.0",
+      "1.1.0->1.2.0",
+      "1.2.0->2.0.0",
+      "2.0.0->2.0.1",
+    ]);
+    expect(steps(findMigrationPath("1.1.0", "2.0.0"))).toEqual([
+      "1.1.0->1.2.0",
+      "1.2.0->2.0.0",
+    ]);
+  });
+
+  it("returns an empty path for the same version", () => {
+    expect(findMigrationPath("1.2.0", "1.2.0")).toEqual([]);
+  });
+
+  it("returns null when no path exists", () => {
+    expect(findMigrationPath("0.9.0", CURRENT_VERSION)).toBeNull();
+    expect(findMigrationPath(CURRENT_VERSION, "1.0.0")).toBeNull();
+  });
+
+  it("takes the shortest path through the version graph", () => {
+    const registry = [
+      ...migrations,
+      { from: "1.0.0", to: "2.0.0", migrate: (data: Record<string, unknown>) => data },
+    ];
+    expect(steps(findMigrationPath("1.0.0", CURRENT_VERSION, registry))).toEqual([
+      "1.0.0->2.0.0",
+      "2.0.0->2.0.1",
+    ]);
+  });
+});
+
+describe("migrateToLatest", () => {
+  it("migrates to an intermediate version", () => {
+    const result = migrateToLatest(LEGACY_SAVE_FILES["1.0.0"], "1.2.0");
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      version: "1.2.0",
+      metadata: { creator: "unknown", department: "default" },
+    });
+  });
+
+  it("produces data that matches the latest schema", () => {
+    Object.values(LEGACY_SAVE_FILES).forEach((data) => {
+      const result = migrateToLatest(data);
+
+      expect(result.success).toBe(true);
+      expect(SaveDataSchema.safeParse(result.data).success).toBe(true);
+    });
+  });
+
+  it("keys records by pharmacist id from 2.0.0 on", () => {
+    const result = migrateToLatest(LEGACY_SAVE_FILES["1.2.0"], "2.0.0");
+
+    expect(result.data).toMatchObject({
+      pharmacists: [
+        { id: "p1", name: "邱" },
+        { id: "p2", name: "黃" },
+        { id: "p3", name: "李" },
+        { id: "p4", name: "陳" },
+      ],
+      schedule: { "2025-01-02": { p1: ["早", "午"], p2: ["晚"] } },
+      availability: { "2025-01-02": { p4: "leave" } },
+    });
+  });
+
+  it("validates each intermediate step against its historical schema", () => {
+    // 直接呼叫 migrateToLatest 時不會先經過 validateLegacyData，由第一步的驗證擋下
+    const result = migrateToLatest({ ...LEGACY_SAVE_FILES["1.0.0"], savedAt: "昨天" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^1\.0\.0 → 1\.1\.0 遷移結果驗證失敗: savedAt/);
+  });
+
+  it("refuses to downgrade", () => {
+    const result = migrateToLatest({ version: CURRENT_VERSION }, "1.0.0");
+
+    expect(result).toEqual({
+      success: false,
+      error: `無法從較新版本 ${CURRENT_VERSION} 降級到 1.0.0`,
+    });
+  });
+
+  it("reports versions without a migration path", () => {
+    const result = migrateToLatest({ version: "0.9.0" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`沒有找到從 0.9.0 到 ${CURRENT_VERSION} 的遷移路徑`);
+  });
+});
+
+describe("2.0.0 date keys", () => {
+  const v2 = (overrides: Record<string, unknown>) => ({ ...LEGACY_SAVE_FILES["2.0.0"], ...overrides });
+
+  it("moves the keys forward when the file was written east of UTC", () => {
+    // 1 月 1 日被舊寫法存成前一年的 12 月 31 日，只有平移的解讀能落在 1 月內
+    const result = migrateToLatest(
+      v2({
+        schedule: { "2024-12-31": { p1: ["早"] }, "2025-01-01": { p2: ["晚"] } },
+        notes: { "2025-01-30": "盤點" },
+      })
+    );
+
+    expect(result.data).toMatchObject({
+      schedule: { "2025-01-01": { p1: ["早"] }, "2025-01-02": { p2: ["晚"] } },
+      notes: { "2025-01-31": "盤點" },
+      availability: { "2025-01-03": { p4: "leave" } },
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("keeps the keys when the file was written at or west of UTC", () => {
+    const result = migrateToLatest(
+      v2({ months: { "2025-01": { status: "draft" } }, notes: { "2025-01-31": "盤點" } })
+    );
+
+    expect(result.data).toMatchObject({
+      schedule: LEGACY_SAVE_FILES["2.0.0"].schedule,
+      notes: { "2025-01-31": "盤點" },
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("follows the time zone recorded when the file was downgraded", () => {
+    const east = migrateToLatest(v2({ metadata: { creator: "管理員", timezoneOffset: -480 } }));
+    const west = migrateToLatest(v2({ metadata: { timezoneOffset: 300 } }));
+
+    expect(east.data?.schedule).toEqual({ "2025-01-03": { p1: ["早", "午"], p2: ["晚"] } });
+    expect(east.data?.metadata).toEqual({ creator: "管理員" });
+    expect(west.data?.schedule).toEqual(LEGACY_SAVE_FILES["2.0.0"].schedule);
+    expect(west.data?.metadata).toBeUndefined();
+    expect([...east.warnings!, ...west.warnings!]).toEqual([]);
+  });
+
+  it("keeps the keys and warns when the file does not tell", () => {
+    const result = validateSaveData(LEGACY_SAVE_FILES["2.0.0"]);
+
+    expect(result.data?.schedule).toEqual(LEGACY_SAVE_FILES["2.0.0"].schedule);
+    expect(result.warnings).toContain(
+      "無法判斷舊存檔寫入時的時區，日期保持原樣；若排班與備註整體錯開一天，請手動調整"
+    );
+  });
+});
+
+describe("validateLegacyData", () => {
+  it.each(Object.keys(HISTORICAL_SCHEMAS))("accepts a valid %s save file", (version) => {
+    expect(validateLegacyData(LEGACY_SAVE_FILES[version])).toEqual({
+      version,
+      isValid: true,
+      errors: [],
+    });
+  });
+
+  it("treats save files without a version as 1.0.0", () => {
+    expect(validateLegacyData(LEGACY_SAVE_FILES.unversioned).version).toBe("1.0.0");
+  });
+
+  it("rejects shifts that no version knows", () => {
+    const result = validateLegacyData({
+      ...LEGACY_SAVE_FILES["1.1.0"],
+      schedule: { "2025-01-02": { 邱: ["夜"] } },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toMatch(/^schedule\.2025-01-02\.邱\.0:/);
+  });
+});
+
+describe("downgradeToVersion", () => {
+  const current = () =>
+    createSaveData(
+      new Date(2025, 0, 1),
+      createDefaultPharmacists(),
+      { "2025-01-02": { p1: ["早", "加"], p2: ["晚"] } },
+      // 月初的備註讓沒有 metadata 的 1.x 存檔在 UTC 以東的時區也能判斷日期鍵是否平移
+      { "2025-01-01": "元旦", "2025-01-02": "盤點" },
+      {
+        months: { "2025-01": { status: "locked" } },
+        availability: { "2025-01-03": { p3: "leave" } },
+        fte: { p4: 0.5 },
+      }
+    );
+
+  it("lists the versions that can be exported, newest first", () => {
+    expect(getDowngradeVersions()).toEqual(["2.0.0", "1.2.0", "1.1.0", "1.0.0"]);
+  });
+
+  it.each(["2.0.0", "1.2.0", "1.1.0", "1.0.0"])(
+    "writes a %s save file that upgrades back to the same schedule",
+    (version) => {
+      const data = current();
+      const downgraded = downgradeToVersion(data, version);
+
+      expect(downgraded.success).toBe(true);
+      expect(downgraded.data?.version).toBe(version);
+      expect(validateLegacyData(downgraded.data!).isValid).toBe(true);
+
+      const upgraded = validateSaveData(downgraded.data);
+      expect(upgraded.data).toMatchObject({
+        pharmacists: data.pharmacists.map(({ id, name }) => ({ id, name })),
+        schedule: data.schedule,
+        notes: data.notes,
+      });
+    }
+  );
+
+  it("records the time zone in a 2.0.0 save file", () => {
+    expect(downgradeToVersion(current(), "2.0.0").data?.metadata).toEqual({
+      timezoneOffset: new Date().getTimezoneOffset(),
+    });
+  });
+
+  it("keeps leave and FTE in a 2.0.0 save file", () => {
+    const data = current();
+    const upgraded = validateSaveData(downgradeToVersion(data, "2.0.0").data);
+
+    expect(upgraded.data).toMatchObject({ availability: data.availability, fte: data.fte });
+  });
+
+  it.each(["1.2.0", "1.1.0", "1.0.0"])(
+    "writes a %s save file that the strict reader of that version accepts",
+    (version) => {
+      const data = {
+        ...current(),
+        archivedPharmacists: [{ id: "p9", name: "王", label: "王", color: "#166534", archivedAt: "2025-01-10" }],
+        metadata: { creator: "管理員" },
+      };
+      const downgraded = downgradeToVersion(data, version);
+      const result = LEGACY_STRICT_SCHEMAS[version].safeParse(downgraded.data);
+
+      expect(result.error?.errors).toBeUndefined();
+      expect(result.success).toBe(true);
+    }
+  );
+
+  it("warns about the data the older version cannot hold", () => {
+    expect(downgradeToVersion(current(), "2.0.0").warnings).toEqual([]);
+    expect(downgradeToVersion(current(), "1.2.0").warnings).toEqual([
+      "存為 1.2.0 版將遺失：藥師的簡稱與代表顏色、月份的鎖定與發布狀態、請假登記、每日所需人數規則、約定工時比例",
+    ]);
+  });
+
+  it("drops custom shift times before 2.0.1", () => {
+    const data = current();
+    data.shiftDefinitions = { ...data.shiftDefinitions!, 早: { start: "09:00", end: "12:00", breakMinutes: 0 } };
+    const downgraded = downgradeToVersion(data, "2.0.0");
+
+    expect(downgraded.data).not.toHaveProperty("shiftDefinitions");
+    expect(downgraded.warnings).toEqual(["存為 2.0.0 版將遺失：班別時間設定"]);
+  });
+
+  it("warns when pharmacists with the same name would be merged", () => {
+    const data = current();
+    data.pharmacists[1] = { ...data.pharmacists[1], name: "邱" };
+
+    expect(downgradeToVersion(data, "1.2.0").warnings[0]).toContain("同名藥師（邱）");
+  });
+
+  it("warns about metadata dropped before 1.2.0", () => {
+    const data = { ...current(), metadata: { creator: "管理員" } };
+
+    expect(downgradeToVersion(data, "1.2.0").warnings[0]).not.toContain("建立者");
+    expect(downgradeToVersion(data, "1.1.0").warnings[0]).toContain("建立者與部門資訊");
+  });
+
+  it("reports versions that cannot be reached", () => {
+    expect(downgradeToVersion(current(), "0.9.0")).toEqual({
+      success: false,
+      warnings: [],
+      error: `沒有找到從 ${CURRENT_VERSION} 降級到 0.9.0 的路徑`,
+    });
+  });
+});
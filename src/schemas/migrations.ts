@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { addDays, parseDateKey } from '@/utils/calendarDate';
+import { DEFAULT_SHIFT_DEFINITIONS } from '@/utils/scheduleUtils';
 
 // 版本資訊介面
 export interface VersionInfo {
@@ -25,10 +27,12 @@ export const compareVersions = (v1: VersionInfo, v2: VersionInfo): number => {
 
 // 歷史 Schema 定義（用於驗證舊格式）
 export const SaveDataV1_0_0 = z.object({
-  version: z.string(),
+  // 最早期的存檔沒有版本號，視為 1.0.0
+  version: z.string().optional(),
   currentMonth: z.string().regex(/^\d{4}-\d{2}$/),
   pharmacists: z.array(z.string()).min(1).max(20),
-  schedule: z.record(z.string(), z.record(z.string(), z.array(z.enum(['早', '午', '晚'])))), // 注意：沒有 '加' 班別
+  // 規格上沒有 '加' 班別，但 1.0.0 版程式實際寫出的存檔已可能包含 '加'，因此一併接受
+  schedule: z.record(z.string(), z.record(z.string(), z.array(z.enum(['早', '午', '晚', '加'])))),
   notes: z.record(z.string(), z.string()),
   savedAt: z.string().datetime(),
 });
@@ -56,61 +60,400 @@ export const SaveDataV1_2_0 = z.object({
   }).optional(),
 });
 
-// 遷移函數映射表
-export const migrations: Record<string, MigrationFunction> = {
+// 2.0.0 版：藥師改為具有 id 的資料；其餘欄位沿用最新格式，這裡只檢查基本結構
+export const SaveDataV2_0_0 = z.object({
+  version: z.string(),
+  currentMonth: z.string().regex(/^\d{4}-\d{2}$/),
+  pharmacists: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()).min(1).max(20),
+  schedule: z.record(z.string(), z.record(z.string(), z.array(z.enum(['早', '午', '晚', '加'])))),
+  notes: z.record(z.string(), z.string()),
+  savedAt: z.string().datetime(),
+}).passthrough();
+
+// 1.x 版以藥師姓名為鍵的日期資料（排班、請假登記）
+type NameKeyedDateMap = Record<string, Record<string, unknown>>;
+
+// 轉換 1.x 存檔時依序配給藥師的顏色（與舊版匯出圖片的配色相同）
+const V1_PHARMACIST_COLORS = ['#166534', '#995c02', '#621e69', '#1e40af'];
+
+// 將以姓名為鍵的物件改為以 id 為鍵；不在名單中的鍵保持原樣
+const rekeyByName = <T>(
+  record: Record<string, T>,
+  idsByName: Map<string, string>
+): Record<string, T> =>
+  Object.fromEntries(
+    Object.entries(record).map(([name, value]) => [idsByName.get(name) ?? name, value])
+  );
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 2.0.0 以前的日期鍵由本地午夜的 toISOString() 產生：寫入端在 UTC 以東時每個鍵都落在前一天，
+// 在 UTC 或以西則沒有平移。存檔時間只記錄 UTC，看不出寫入端的時區：
+// 降級匯出的檔案在 metadata 記錄寫入端的時差，其他檔案改看日期鍵與存檔涵蓋的月份
+// （月份索引與 currentMonth 皆以本地日期產生），只有一種解讀能讓所有日期落在這些月份內時才採用
+type DateKeyShift = 'shifted' | 'unshifted' | 'unknown';
+
+type LegacyMetadata = { creator?: string; department?: string; timezoneOffset?: number };
+
+const detectDateKeyShift = (data: Record<string, unknown>): DateKeyShift => {
+  // 與 Date.getTimezoneOffset() 相同，UTC 以東為負數
+  const offset = (data.metadata as LegacyMetadata | undefined)?.timezoneOffset;
+  if (typeof offset === 'number') return offset < 0 ? 'shifted' : 'unshifted';
+
+  const months = new Set([
+    ...Object.keys((data.months as Record<string, unknown>) ?? {}),
+    data.currentMonth as string,
+  ]);
+  const dateKeys = [data.schedule, data.notes, data.availability]
+    .flatMap(map => Object.keys((map as Record<string, unknown>) ?? {}))
+    .filter(dateKey => DATE_KEY_PATTERN.test(dateKey));
+
+  const fitsShifted = dateKeys.every(dateKey => months.has(addDays(dateKey, 1).slice(0, 7)));
+  const fitsUnshifted = dateKeys.every(dateKey => months.has(dateKey.slice(0, 7)));
+  if (fitsShifted === fitsUnshifted) return 'unknown';
+  return fitsShifted ? 'shifted' : 'unshifted';
+};
+
+const unshiftDateKey = (dateKey: string): string =>
+  DATE_KEY_PATTERN.test(dateKey) ? addDays(dateKey, 1) : dateKey;
+
+const unshiftDateKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).map(([dateKey, value]) => [unshiftDateKey(dateKey), value]));
+
+// unshiftDateKey 的反向：改回舊寫法（本地午夜的 toISOString()）產生的鍵，供降級到 2.0.0 使用
+const shiftDateKey = (dateKey: string): string =>
+  DATE_KEY_PATTERN.test(dateKey) ? parseDateKey(dateKey).toISOString().split('T')[0] : dateKey;
+
+const shiftDateKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).map(([dateKey, value]) => [shiftDateKey(dateKey), value]));
+
+const hasEntries = (value: unknown) =>
+  typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+
+// 存檔中是否有以日期為鍵的資料
+const hasDateKeys = (data: Record<string, unknown>) =>
+  [data.schedule, data.notes, data.availability].some(hasEntries);
+
+// 2.0.0 以後新增、1.x 版 Schema 不認得的欄位與其說明（1.x 版程式以嚴格模式讀取存檔）
+const V1_UNKNOWN_FIELDS: Record<string, string> = {
+  months: '月份的鎖定與發布狀態',
+  history: '編輯記錄',
+  archivedPharmacists: '封存的藥師',
+  availability: '請假登記',
+  coverageRules: '每日所需人數規則',
+  holidays: '國定假日與補班設定',
+  fte: '約定工時比例',
+  ruleConfig: '公平性與勞基法設定',
+  extras: '修復存檔時保留的其他欄位',
+};
+
+// 只保留指定版本 Schema 認得的欄位
+const pickKnownFields = (data: Record<string, unknown>, schema: z.AnyZodObject) =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => key in schema.shape));
+
+// 降級到 1.x 版時會被移除且有內容的欄位
+const describeDroppedFields = (data: Record<string, unknown>, schema: z.AnyZodObject): string[] =>
+  Object.keys(data)
+    .filter(key => !(key in schema.shape))
+    .filter(key => (typeof data[key] === 'object' ? hasEntries(data[key]) : data[key] !== undefined))
+    .map(key => V1_UNKNOWN_FIELDS[key] ?? key);
+
+// 單一步驟的遷移：只在相鄰版本之間轉換，跨版本遷移由 findMigrationPath 串接
+export interface Migration {
+  from: string;
+  to: string;
+  migrate: MigrationFunction;
+  // 降級時會遺失的資料說明（以遷移前的資料判斷）
+  describeLoss?: (data: Record<string, unknown>) => string[];
+  // 升級後需要使用者留意的事項（以遷移前的資料判斷）
+  describeWarnings?: (data: Record<string, unknown>) => string[];
+}
+
+// 最新的存檔版本；對應的 Schema 為 saveData.ts 的 SaveDataSchema
+export const CURRENT_VERSION = '2.0.1';
+
+// 各歷史版本的 Schema，遷移途中的每一步結果都以目標版本的 Schema 驗證
+export const HISTORICAL_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  '1.0.0': SaveDataV1_0_0,
+  '1.1.0': SaveDataV1_1_0,
+  '1.2.0': SaveDataV1_2_0,
+  '2.0.0': SaveDataV2_0_0,
+};
+
+// 降級結果的驗證：1.x 版程式以嚴格模式讀取存檔，不可有該版不認得的欄位
+const DOWNGRADE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  '1.0.0': SaveDataV1_0_0.strict(),
+  '1.1.0': SaveDataV1_1_0.strict(),
+  '1.2.0': SaveDataV1_2_0.strict(),
+  '2.0.0': SaveDataV2_0_0,
+};
+
+// 遷移註冊表：新增版本時只需加入與上一版之間的遷移
+export const migrations: Migration[] = [
   // 從 1.0.0 升級到 1.1.0
-  '1.0.0->1.1.0': (data: Record<string, unknown>) => {
-    // V1.0.0 沒有 '加' 班別，確保升級後保持原有資料完整性
-    return {
-      ...data,
-      version: '1.1.0',
-      // schedule 資料結構不變，因為 '加' 班別是新增的，不影響舊資料
-    };
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: (data: Record<string, unknown>) => {
+      // V1.0.0 沒有 '加' 班別，確保升級後保持原有資料完整性
+      return {
+        ...data,
+        version: '1.1.0',
+        // schedule 資料結構不變，因為 '加' 班別是新增的，不影響舊資料
+      };
+    },
   },
 
-  // 從 1.1.0 升級到 1.2.0  
-  '1.1.0->1.2.0': (data: Record<string, unknown>) => {
-    return {
-      ...data,
-      version: '1.2.0',
-      // 新增 metadata 欄位，但設為可選，不影響舊資料
-      metadata: {
-        creator: 'unknown',
-        department: 'default',
-      },
-    };
+  // 從 1.1.0 升級到 1.2.0
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    migrate: (data: Record<string, unknown>) => {
+      return {
+        ...data,
+        version: '1.2.0',
+        // 新增 metadata 欄位，但設為可選，不影響舊資料
+        metadata: {
+          creator: 'unknown',
+          department: 'default',
+        },
+      };
+    },
+  },
+
+  // 從 1.2.0 升級到 2.0.0：藥師改為具有固定 id 的資料，所有記錄改以 id 為鍵
+  {
+    from: '1.2.0',
+    to: '2.0.0',
+    migrate: (data: Record<string, unknown>) => {
+      const names = (data.pharmacists as string[]) ?? [];
+      const archived = (data.archivedPharmacists as { name: string; archivedAt: string }[]) ?? [];
+      const idsByName = new Map<string, string>();
+
+      const toRecord = (name: string, index: number) => {
+        const id = `p${index + 1}`;
+        idsByName.set(name, id);
+        return {
+          id,
+          name,
+          label: name.charAt(0),
+          color: V1_PHARMACIST_COLORS[index % V1_PHARMACIST_COLORS.length],
+        };
+      };
+
+      const pharmacists = names.map(toRecord);
+      const archivedPharmacists = archived.map((entry, index) => ({
+        ...toRecord(entry.name, names.length + index),
+        archivedAt: entry.archivedAt,
+      }));
+
+      const rekeyDates = (map: unknown) =>
+        map === undefined
+          ? undefined
+          : Object.fromEntries(
+              Object.entries(map as NameKeyedDateMap).map(([dateKey, day]) => [
+                dateKey,
+                rekeyByName(day, idsByName),
+              ])
+            );
+
+      return {
+        ...data,
+        version: '2.0.0',
+        pharmacists,
+        ...(data.archivedPharmacists !== undefined && { archivedPharmacists }),
+        schedule: rekeyDates(data.schedule),
+        ...(data.availability !== undefined && { availability: rekeyDates(data.availability) }),
+        ...(data.fte !== undefined && {
+          fte: rekeyByName(data.fte as Record<string, number>, idsByName),
+        }),
+      };
+    },
+  },
+
+  // 從 2.0.0 升級到 2.0.1：修正被平移一天的日期鍵（排班、備註、請假登記、封存日）。
+  // 國定假日與月份鍵原本就以本地日期產生，不需調整；無法判斷寫入端是否平移時保持原樣
+  {
+    from: '2.0.0',
+    to: '2.0.1',
+    migrate: (data: Record<string, unknown>) => {
+      // 時差只供判斷平移，升級後不保留
+      const metadata = { ...(data.metadata as LegacyMetadata) };
+      delete metadata.timezoneOffset;
+      const upgraded = { ...data, version: '2.0.1', metadata: hasEntries(metadata) ? metadata : undefined };
+      if (detectDateKeyShift(data) !== 'shifted') return upgraded;
+
+      const archived = data.archivedPharmacists as { archivedAt: string }[] | undefined;
+
+      return {
+        ...upgraded,
+        schedule: unshiftDateKeys((data.schedule as Record<string, unknown>) ?? {}),
+        notes: unshiftDateKeys((data.notes as Record<string, unknown>) ?? {}),
+        ...(data.availability !== undefined && {
+          availability: unshiftDateKeys(data.availability as Record<string, unknown>),
+        }),
+        ...(archived !== undefined && {
+          archivedPharmacists: archived.map(entry => ({
+            ...entry,
+            archivedAt: unshiftDateKey(entry.archivedAt),
+          })),
+        }),
+      };
+    },
+    describeWarnings: (data: Record<string, unknown>) =>
+      hasDateKeys(data) && detectDateKeyShift(data) === 'unknown'
+        ? ['無法判斷舊存檔寫入時的時區，日期保持原樣；若排班與備註整體錯開一天，請手動調整']
+        : [],
+  },
+];
+
+// 降級註冊表：與 migrations 相反方向的單一步驟，讓舊版程式可以開啟新版寫出的存檔
+export const downgrades: Migration[] = [
+  // 從 2.0.1 降級到 2.0.0：日期鍵改回舊寫法（在 UTC 以東的時區會平移到前一天），並在 metadata 記錄時差；
+  // 班別時間設定與加班明細不保留
+  {
+    from: '2.0.1',
+    to: '2.0.0',
+    migrate: (data: Record<string, unknown>) => {
+      const archived = data.archivedPharmacists as { archivedAt: string }[] | undefined;
+
+      const rest = { ...data };
+      delete rest.shiftDefinitions;
+      delete rest.overtime;
+      return {
+        ...rest,
+        version: '2.0.0',
+        metadata: { ...(data.metadata as LegacyMetadata), timezoneOffset: new Date().getTimezoneOffset() },
+        schedule: shiftDateKeys((data.schedule as Record<string, unknown>) ?? {}),
+        notes: shiftDateKeys((data.notes as Record<string, unknown>) ?? {}),
+        ...(data.availability !== undefined && {
+          availability: shiftDateKeys(data.availability as Record<string, unknown>),
+        }),
+        ...(archived !== undefined && {
+          archivedPharmacists: archived.map(entry => ({
+            ...entry,
+            archivedAt: shiftDateKey(entry.archivedAt),
+          })),
+        }),
+      };
+    },
+    describeLoss: (data: Record<string, unknown>) => [
+      ...(data.shiftDefinitions !== undefined &&
+      JSON.stringify(data.shiftDefinitions) !== JSON.stringify(DEFAULT_SHIFT_DEFINITIONS)
+        ? ['班別時間設定']
+        : []),
+      ...(hasEntries(data.overtime) ? ['加班明細'] : []),
+    ],
   },
 
-  // 從 1.0.0 直接升級到 1.2.0（跨版本遷移）
-  '1.0.0->1.2.0': (data: Record<string, unknown>) => {
-    // 先升級到 1.1.0，再升級到 1.2.0
-    const intermediate = migrations['1.0.0->1.1.0'](data);
-    return migrations['1.1.0->1.2.0'](intermediate);
+  // 從 2.0.0 降級到 1.2.0：藥師改回姓名字串，排班改以姓名為鍵；1.2.0 版不認得的欄位一律移除
+  {
+    from: '2.0.0',
+    to: '1.2.0',
+    migrate: (data: Record<string, unknown>) => {
+      const pharmacists = (data.pharmacists as { id: string; name: string }[]) ?? [];
+      const archived = (data.archivedPharmacists as { id: string; name: string }[]) ?? [];
+      const namesById = new Map([...pharmacists, ...archived].map(p => [p.id, p.name]));
+      const rekeyById = <T>(record: Record<string, T>) =>
+        Object.fromEntries(Object.entries(record).map(([id, value]) => [namesById.get(id) ?? id, value]));
+
+      return pickKnownFields(
+        {
+          ...data,
+          version: '1.2.0',
+          pharmacists: pharmacists.map(p => p.name),
+          schedule: Object.fromEntries(
+            Object.entries((data.schedule ?? {}) as NameKeyedDateMap).map(([dateKey, day]) => [
+              dateKey,
+              rekeyById(day),
+            ])
+          ),
+        },
+        SaveDataV1_2_0
+      );
+    },
+    describeLoss: (data: Record<string, unknown>) => {
+      const pharmacists = [
+        ...((data.pharmacists as { name: string }[]) ?? []),
+        ...((data.archivedPharmacists as { name: string }[]) ?? []),
+      ];
+      const names = pharmacists.map(p => p.name);
+      const duplicates = [...new Set(names.filter((name, index) => names.indexOf(name) !== index))];
+
+      return [
+        '藥師的簡稱與代表顏色',
+        ...(duplicates.length > 0
+          ? [`同名藥師（${duplicates.join('、')}）的排班會合併，同一天的記錄只保留一筆`]
+          : []),
+        ...describeDroppedFields(data, SaveDataV1_2_0),
+      ];
+    },
   },
+
+  // 從 1.2.0 降級到 1.1.0：移除 metadata
+  {
+    from: '1.2.0',
+    to: '1.1.0',
+    migrate: (data: Record<string, unknown>) =>
+      pickKnownFields({ ...data, version: '1.1.0' }, SaveDataV1_1_0),
+    describeLoss: (data: Record<string, unknown>) => {
+      const metadata = data.metadata as { creator?: string; department?: string } | undefined;
+      return metadata && (metadata.creator || metadata.department) ? ['建立者與部門資訊'] : [];
+    },
+  },
+
+  // 從 1.1.0 降級到 1.0.0：資料結構相同（1.0.0 版程式實際上已可讀取 '加' 班別）
+  {
+    from: '1.1.0',
+    to: '1.0.0',
+    migrate: (data: Record<string, unknown>) =>
+      pickKnownFields({ ...data, version: '1.0.0' }, SaveDataV1_0_0),
+  },
+];
+
+// 在版本圖中找出最短的遷移路徑（廣度優先），找不到時回傳 null
+export const findMigrationPath = (
+  fromVersion: string,
+  toVersion: string,
+  registry: Migration[] = migrations
+): Migration[] | null => {
+  const previous = new Map<string, Migration | null>([[fromVersion, null]]);
+  const queue = [fromVersion];
+
+  while (queue.length > 0) {
+    const version = queue.shift()!;
+    if (version === toVersion) {
+      const path: Migration[] = [];
+      for (let step = previous.get(version); step; step = previous.get(step.from)) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    registry
+      .filter(migration => migration.from === version && !previous.has(migration.to))
+      .forEach(migration => {
+        previous.set(migration.to, migration);
+        queue.push(migration.to);
+      });
+  }
+
+  return null;
 };
 
-// 自動遷移函數
-export const migrateToLatest = (data: Record<string, unknown>, targetVersion: string = '1.2.0'): {
+// 自動遷移函數：依路徑逐步遷移，每一步的結果以該版本的歷史 Schema 驗證
+export const migrateToLatest = (data: Record<string, unknown>, targetVersion: string = CURRENT_VERSION): {
   success: boolean;
   data?: Record<string, unknown>;
   error?: string;
+  warnings?: string[];
 } => {
   try {
     const currentVersion = typeof data.version === 'string' ? data.version : '1.0.0';
     
     if (currentVersion === targetVersion) {
-      return { success: true, data };
+      return { success: true, data, warnings: [] };
     }
 
-    const migrationKey = `${currentVersion}->${targetVersion}`;
-    
-    if (migrations[migrationKey]) {
-      // 直接遷移
-      const migratedData = migrations[migrationKey](data);
-      return { success: true, data: migratedData };
-    }
-
-    // 嘗試逐步遷移（未來可擴展為自動路徑查找）
     const currentVer = parseVersion(currentVersion);
     const targetVer = parseVersion(targetVersion);
     
@@ -121,17 +464,33 @@ export const migrateToLatest = (data: Record<string, unknown>, targetVersion: st
       };
     }
 
-    // 簡化的逐步遷移邏輯
+    const path = findMigrationPath(currentVersion, targetVersion);
+    if (!path) {
+      return { 
+        success: false, 
+        error: `沒有找到從 ${currentVersion} 到 ${targetVersion} 的遷移路徑` 
+      };
+    }
+
     let migratedData = data;
-    if (currentVersion === '1.0.0' && targetVersion === '1.2.0') {
-      migratedData = migrations['1.0.0->1.2.0'](data);
-      return { success: true, data: migratedData };
+    const warnings: string[] = [];
+    for (const step of path) {
+      warnings.push(...(step.describeWarnings?.(migratedData) ?? []));
+      migratedData = step.migrate(migratedData);
+
+      const schema = HISTORICAL_SCHEMAS[step.to];
+      const result = schema?.safeParse(migratedData);
+      if (result && !result.success) {
+        return {
+          success: false,
+          error: `${step.from} → ${step.to} 遷移結果驗證失敗: ${result.error.errors
+            .map(err => `${err.path.join('.')}: ${err.message}`)
+            .join(', ')}`,
+        };
+      }
     }
 
-    return { 
-      success: false, 
-      error: `沒有找到從 ${currentVersion} 到 ${targetVersion} 的遷移路徑` 
-    };
+    return { success: true, data: migratedData, warnings };
   } catch (error) {
     return { 
       success: false, 
@@ -140,6 +499,62 @@ export const migrateToLatest = (data: Record<string, unknown>, targetVersion: st
   }
 };
 
+// 可以降級匯出的舊版本（由新到舊）
+export const getDowngradeVersions = (fromVersion: string = CURRENT_VERSION): string[] =>
+  Object.keys(HISTORICAL_SCHEMAS)
+    .filter(version => version !== fromVersion && findMigrationPath(fromVersion, version, downgrades))
+    .sort((a, b) => compareVersions(parseVersion(b), parseVersion(a)));
+
+// 降級函數：依路徑逐步降級，每一步的結果以該版本的歷史 Schema 驗證；warnings 列出會遺失的資料
+export const downgradeToVersion = (data: Record<string, unknown>, targetVersion: string): {
+  success: boolean;
+  data?: Record<string, unknown>;
+  warnings: string[];
+  error?: string;
+} => {
+  try {
+    const currentVersion = typeof data.version === 'string' ? data.version : CURRENT_VERSION;
+    const path = findMigrationPath(currentVersion, targetVersion, downgrades);
+    if (!path) {
+      return {
+        success: false,
+        warnings: [],
+        error: `沒有找到從 ${currentVersion} 降級到 ${targetVersion} 的路徑`,
+      };
+    }
+
+    let downgradedData = data;
+    const losses: string[] = [];
+    for (const step of path) {
+      losses.push(...(step.describeLoss?.(downgradedData) ?? []));
+      downgradedData = step.migrate(downgradedData);
+
+      const result = DOWNGRADE_SCHEMAS[step.to].safeParse(downgradedData);
+      if (!result.success) {
+        return {
+          success: false,
+          warnings: [],
+          error: `${step.from} → ${step.to} 降級結果驗證失敗: ${result.error.errors
+            .map(err => `${err.path.join('.')}: ${err.message}`)
+            .join(', ')}`,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: downgradedData,
+      warnings: losses.length > 0 ? [`存為 ${targetVersion} 版將遺失：${losses.join('、')}`] : [],
+    };
+  } catch (error) {
+    return {
+      success: false,
+      warnings: [],
+      error: `降級過程中發生錯誤: ${error instanceof Error ? error.message : '未知錯誤'}`,
+    };
+  }
+};
+
 // 驗證舊版本資料
 export const validateLegacyData = (data: Record<string, unknown>): {
   version: string;
@@ -148,27 +563,18 @@ export const validateLegacyData = (data: Record<string, unknown>): {
 } => {
   const version = (typeof data.version === 'string' ? data.version : '1.0.0');
   
+  const schema = HISTORICAL_SCHEMAS[version];
+  if (!schema) {
+    return { 
+      version, 
+      isValid: false, 
+      errors: [`不支援的版本: ${version}`] 
+    };
+  }
+
   try {
-    switch (version) {
-      case '1.0.0':
-        SaveDataV1_0_0.parse(data);
-        return { version, isValid: true, errors: [] };
-      
-      case '1.1.0':
-        SaveDataV1_1_0.parse(data);
-        return { version, isValid: true, errors: [] };
-        
-      case '1.2.0':
-        SaveDataV1_2_0.parse(data);
-        return { version, isValid: true, errors: [] };
-        
-      default:
-        return { 
-          version, 
-          isValid: false, 
-          errors: [`不支援的版本: ${version}`] 
-        };
-    }
+    schema.parse(data);
+    return { version, isValid: true, errors: [] };
   } catch (error) {
     if (error instanceof z.ZodError) {
       return {
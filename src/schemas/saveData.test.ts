@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_VERSION, checkVersionCompatibility, validateSaveData } from "./saveData";
+import { LEGACY_SAVE_FILES } from "./legacyFixtures";
+import { createSaveData } from "@/utils/saveLoadUtils";
+import { createDefaultPharmacists } from "@/utils/rosterUtils";
+
+const currentSave = () =>
+  createSaveData(
+    new Date(2025, 0, 1),
+    createDefaultPharmacists(),
+    { "2025-01-02": { p1: ["早"] } },
+    {}
+  );
+
+describe("validateSaveData", () => {
+  it("accepts a save file in the current version without warnings", () => {
+    const result = validateSaveData(currentSave());
+
+    expect(result).toMatchObject({ isValid: true, errors: [], warnings: [] });
+    expect(result.data?.version).toBe(CURRENT_VERSION);
+  });
+
+  it.each(Object.entries(LEGACY_SAVE_FILES))(
+    "upgrades a valid %s save file to the current version",
+    (version, data) => {
+      const result = validateSaveData(data);
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toContain(
+        `資料已從版本 ${version === "unversioned" ? "1.0.0" : version} 自動升級到 ${CURRENT_VERSION}`
+      );
+      expect(result.data?.version).toBe(CURRENT_VERSION);
+      expect(result.data?.pharmacists.map((p) => p.name)).toEqual(["邱", "黃", "李", "陳"]);
+      // 日期鍵在 UTC 以東的時區會被修正，這裡只比較內容
+      expect(Object.values(result.data!.schedule)).toEqual([
+        { p1: ["早", "午"], p2: ["晚"] },
+      ]);
+      expect(Object.values(result.data!.notes)).toEqual(["盤點"]);
+    }
+  );
+
+  it("keeps name-keyed availability when upgrading from 1.x", () => {
+    const result = validateSaveData(LEGACY_SAVE_FILES["1.2.0"]);
+
+    expect(Object.values(result.data!.availability!)).toEqual([{ p4: "leave" }]);
+    expect(result.data?.metadata).toEqual({ creator: "管理員", department: "藥劑科" });
+  });
+
+  it.each(Object.entries(LEGACY_SAVE_FILES))(
+    "rejects a %s save file that breaks its historical schema",
+    (_version, data) => {
+      const result = validateSaveData({ ...data, pharmacists: [] });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toMatch(/^舊版本資料格式錯誤: pharmacists/);
+      expect(result.data).toBeUndefined();
+    }
+  );
+
+  it("rejects an unknown version", () => {
+    const result = validateSaveData({ ...currentSave(), version: "9.0.0" });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(["舊版本資料格式錯誤: 不支援的版本: 9.0.0"]);
+  });
+
+  it("reports the path of each schema error in the current version", () => {
+    const result = validateSaveData({
+      ...currentSave(),
+      notes: { "2025-01-02": "x".repeat(501) },
+      extra: true,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain("notes.2025-01-02: 備註長度不可超過500字");
+    expect(result.errors.some((error) => error.includes("extra"))).toBe(true);
+  });
+
+  it("warns about empty schedules and old save files", () => {
+    const result = validateSaveData({
+      ...currentSave(),
+      schedule: {},
+      savedAt: "2020-01-01T00:00:00.000Z",
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      "排班資料為空",
+      "此存檔已超過6個月，可能與當前版本不完全相容",
+    ]);
+  });
+
+  it("rejects data that is not an object", () => {
+    expect(validateSaveData(null).isValid).toBe(false);
+    expect(validateSaveData("save").isValid).toBe(false);
+  });
+});
+
+describe("checkVersionCompatibility", () => {
+  it("accepts the current version without a message", () => {
+    expect(checkVersionCompatibility(CURRENT_VERSION)).toEqual({ compatible: true });
+  });
+
+  it("accepts the same major version with a message", () => {
+    const result = checkVersionCompatibility("2.0.0");
+
+    expect(result.compatible).toBe(true);
+    expect(result.message).toContain("相容，但可能有細微差異");
+  });
+
+  it("accepts a newer minor version of the same major version", () => {
+    expect(checkVersionCompatibility("2.9.0").compatible).toBe(true);
+  });
+
+  it.each(["1.2.0", "3.0.0", "", "abc"])("rejects version %j", (version) => {
+    const result = checkVersionCompatibility(version);
+
+    expect(result.compatible).toBe(false);
+    expect(result.message).toContain("不相容");
+  });
+
+  it("compares only the major version of partial version strings", () => {
+    expect(checkVersionCompatibility("2").compatible).toBe(true);
+  });
+});
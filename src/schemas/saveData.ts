@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { migrateToLatest, validateLegacyData } from './migrations';
+import { CURRENT_VERSION, migrateToLatest, validateLegacyData } from './migrations';
+
+export { CURRENT_VERSION };
 
 // 班別驗證
 export const ShiftSchema = z.enum(['早', '午', '晚', '加']);
@@ -16,11 +18,19 @@ export const MonthKeySchema = z.string().regex(
   "月份格式必須為 YYYY-MM"
 );
 
-// 排班資料驗證
+// 藥師資料驗證
+export const PharmacistSchema = z.object({
+  id: z.string().min(1, "藥師 id 不可為空"),
+  name: z.string().min(1, "藥師姓名不可為空"),
+  label: z.string().min(1, "藥師簡稱不可為空").max(4, "藥師簡稱不可超過4字"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "顏色格式必須為 #RRGGBB"),
+});
+
+// 排班資料驗證（以藥師 id 為鍵）
 export const ScheduleSchema = z.record(
   DateKeySchema,
   z.record(
-    z.string().min(1, "藥師姓名不可為空"),
+    z.string().min(1, "藥師 id 不可為空"),
     z.array(ShiftSchema).max(4, "每日最多4個班別")
   )
 );
@@ -31,15 +41,163 @@ export const NotesSchema = z.record(
   z.string().max(500, "備註長度不可超過500字")
 );
 
-// 完整存檔資料驗證
+// 請假登記驗證
+export const AvailabilitySchema = z.enum(['leave', 'noEvening', 'morningOnly']);
+
+export const AvailabilityMapSchema = z.record(
+  DateKeySchema,
+  z.record(z.string().min(1, "藥師 id 不可為空"), AvailabilitySchema)
+);
+
+// 加班明細驗證（時數以半小時為單位）
+export const OvertimeEntrySchema = z.object({
+  hours: z.number().min(0.5, "加班時數至少0.5小時").max(12, "加班時數不可超過12小時").multipleOf(0.5, "加班時數必須以0.5小時為單位"),
+  reason: z.string().max(100, "加班事由不可超過100字"),
+  period: z.enum(['早', '午', '晚']).optional(),
+});
+
+export const OvertimeMapSchema = z.record(
+  DateKeySchema,
+  z.record(z.string().min(1, "藥師 id 不可為空"), OvertimeEntrySchema)
+);
+
+// 排班規則驗證（索引對應星期，0 = 週日）
+export const RequiredShiftsSchema = z.object({
+  morning: z.number().int().min(0).max(20),
+  afternoon: z.number().int().min(0).max(20),
+  evening: z.number().int().min(0).max(20),
+  maxPerPerson: z.number().int().min(1).max(4).optional(),
+});
+
+export const CoverageRulesSchema = z.array(RequiredShiftsSchema).length(7, "排班規則必須包含週日至週六共7天");
+
+// 國定假日／補班日驗證
+export const HolidaySchema = z.object({
+  name: z.string().min(1, "假日名稱不可為空").max(50, "假日名稱不可超過50字"),
+  kind: z.enum(['holiday', 'makeup']),
+  rulesOf: z.number().int().min(0).max(6).nullable(),
+});
+
+export const HolidayCalendarSchema = z.record(DateKeySchema, HolidaySchema);
+
+// 可匯入的假日清單檔案格式（見 src/data/holidays）
+export const HolidayListFileSchema = z.object({
+  year: z.number().int().optional(),
+  region: z.string().optional(),
+  source: z.string().optional(),
+  holidays: z.array(z.object({
+    date: DateKeySchema,
+    name: z.string().min(1).max(50),
+    kind: z.enum(['holiday', 'makeup']),
+    rulesOf: z.number().int().min(0).max(6).nullable().optional(),
+  })),
+});
+
+// 約定工時比例驗證（0.1 ~ 1）
+export const PharmacistFteSchema = z.record(
+  z.string().min(1, "藥師 id 不可為空"),
+  z.number().min(0.1, "工時比例不可低於0.1").max(1, "工時比例不可超過1")
+);
+
+// 規則啟用與參數設定驗證
+export const RuleConfigSchema = z.record(
+  z.string(),
+  z.object({
+    enabled: z.boolean().optional(),
+    params: z.record(z.string(), z.number()).optional(),
+  }).strict()
+);
+
+// 班別時間驗證（HH:MM）
+const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "時間格式必須為 HH:MM");
+
+export const ShiftTimeSchema = z.object({
+  start: TimeSchema,
+  end: TimeSchema,
+  breakMinutes: z.number().int().min(0, "休息時間不可為負數").max(240, "休息時間不可超過240分鐘"),
+});
+
+export const ShiftDefinitionSchema = ShiftTimeSchema.extend({
+  // 依星期覆寫（0 = 週日）
+  weekdayOverrides: z.record(z.string().regex(/^[0-6]$/, "星期必須為 0 到 6"), ShiftTimeSchema).optional(),
+});
+
+export const ShiftDefinitionsSchema = z.object({
+  早: ShiftDefinitionSchema,
+  午: ShiftDefinitionSchema,
+  晚: ShiftDefinitionSchema,
+  加: ShiftDefinitionSchema,
+});
+
+// 已封存藥師驗證
+export const ArchivedPharmacistSchema = PharmacistSchema.extend({
+  archivedAt: DateKeySchema,
+});
+
+// 月份索引驗證
+export const MonthInfoSchema = z.object({
+  status: z.enum(['draft', 'locked', 'published']),
+  publishedAt: z.string().datetime("發布時間格式錯誤").optional(),
+});
+
+export const MonthIndexSchema = z.record(MonthKeySchema, MonthInfoSchema);
+
+// 編輯記錄驗證（僅自動存檔會包含）
+const valueChange = <T extends z.ZodTypeAny>(schema: T) =>
+  z.object({ before: schema.optional(), after: schema.optional() });
+
+export const HistoryPatchSchema = z.object({
+  months: z.record(MonthKeySchema, valueChange(MonthInfoSchema)).optional(),
+  pharmacists: valueChange(z.array(PharmacistSchema)).optional(),
+  archivedPharmacists: valueChange(z.array(ArchivedPharmacistSchema)).optional(),
+  schedule: z.record(DateKeySchema, valueChange(ScheduleSchema.valueSchema)).optional(),
+  notes: z.record(DateKeySchema, valueChange(NotesSchema.valueSchema)).optional(),
+  availability: z.record(DateKeySchema, valueChange(AvailabilityMapSchema.valueSchema)).optional(),
+  overtime: z.record(DateKeySchema, valueChange(OvertimeMapSchema.valueSchema)).optional(),
+  fte: z.record(z.string(), valueChange(PharmacistFteSchema.valueSchema)).optional(),
+});
+
+export const HistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  timestamp: z.string().datetime("記錄時間格式錯誤"),
+  mergeKey: z.string().optional(),
+  patch: HistoryPatchSchema,
+});
+
+export const EditHistorySchema = z.object({
+  past: z.array(HistoryEntrySchema).max(100, "編輯記錄不可超過100筆"),
+  future: z.array(HistoryEntrySchema).max(100, "編輯記錄不可超過100筆"),
+});
+
+// 完整存檔資料驗證（最新版本 CURRENT_VERSION 的格式，舊版本見 migrations.ts）
 export const SaveDataSchema = z.object({
-  version: z.string().min(1, "版本號不可為空"),
+  version: z.literal(CURRENT_VERSION, {
+    errorMap: () => ({ message: `版本號必須為 ${CURRENT_VERSION}` }),
+  }),
   currentMonth: MonthKeySchema,
-  pharmacists: z.array(
-    z.string().min(1, "藥師姓名不可為空")
-  ).min(1, "至少需要一位藥師").max(20, "藥師數量不可超過20位"),
+  // 檔案包含的月份與其狀態；未提供時依排班資料推算
+  months: MonthIndexSchema.optional(),
+  pharmacists: z.array(PharmacistSchema).min(1, "至少需要一位藥師").max(20, "藥師數量不可超過20位"),
+  archivedPharmacists: z.array(ArchivedPharmacistSchema).optional(),
   schedule: ScheduleSchema,
   notes: NotesSchema,
+  availability: AvailabilityMapSchema.optional(),
+  overtime: OvertimeMapSchema.optional(),
+  coverageRules: CoverageRulesSchema.optional(),
+  holidays: HolidayCalendarSchema.optional(),
+  fte: PharmacistFteSchema.optional(),
+  ruleConfig: RuleConfigSchema.optional(),
+  shiftDefinitions: ShiftDefinitionsSchema.optional(),
+  // 編輯記錄，讓重新整理頁面後仍可復原
+  history: EditHistorySchema.optional(),
+  // 修復存檔時移入的未知欄位，原樣保留
+  extras: z.record(z.string(), z.unknown()).optional(),
+  // 1.2.0 版加入的附加資訊
+  metadata: z.object({
+    creator: z.string().optional(),
+    department: z.string().optional(),
+  }).optional(),
   savedAt: z.string().datetime("存檔時間格式錯誤"),
 }).strict(); // 嚴格模式，不允許額外欄位
 
@@ -47,6 +205,22 @@ export const SaveDataSchema = z.object({
 export type SaveData = z.infer<typeof SaveDataSchema>;
 export type Shift = z.infer<typeof ShiftSchema>;
 
+// 排班以外的附加設定（皆為選填）
+export type SaveDataExtras = Pick<
+  SaveData,
+  | 'months'
+  | 'archivedPharmacists'
+  | 'availability'
+  | 'overtime'
+  | 'coverageRules'
+  | 'holidays'
+  | 'fte'
+  | 'ruleConfig'
+  | 'shiftDefinitions'
+  | 'history'
+  | 'extras'
+>;
+
 // 驗證結果型別
 export interface ValidationResult {
   isValid: boolean;
@@ -57,8 +231,14 @@ export interface ValidationResult {
 
 // 驗證函數（支援版本遷移）
 export function validateSaveData(data: unknown): ValidationResult {
-  // 首先檢查是否為有效的舊版本格式
-  if (typeof data === 'object' && data !== null && 'version' in data) {
+  const targetVersion = CURRENT_VERSION;
+
+  // 首先檢查是否為有效的舊版本格式（沒有版本號的資料視為 1.0.0）
+  if (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Record<string, unknown>).version !== targetVersion
+  ) {
     const legacyValidation = validateLegacyData(data as Record<string, unknown>);
     
     if (legacyValidation.isValid) {
@@ -66,7 +246,6 @@ export function validateSaveData(data: unknown): ValidationResult {
       const currentVersion = (typeof (data as Record<string, unknown>).version === 'string' 
         ? (data as Record<string, unknown>).version 
         : '1.0.0');
-      const targetVersion = '1.0.0'; // 當前最新版本
       
       if (currentVersion !== targetVersion) {
         const migrationResult = migrateToLatest(data as Record<string, unknown>, targetVersion);
@@ -79,7 +258,10 @@ export function validateSaveData(data: unknown): ValidationResult {
             return {
               isValid: true,
               errors: [],
-              warnings: [`資料已從版本 ${currentVersion} 自動升級到 ${targetVersion}`],
+              warnings: [
+                `資料已從版本 ${currentVersion} 自動升級到 ${targetVersion}`,
+                ...(migrationResult.warnings ?? []),
+              ],
               data: result.data
             };
           } else {
@@ -151,7 +333,7 @@ export function checkVersionCompatibility(version: string): {
   compatible: boolean;
   message?: string;
 } {
-  const currentVersion = "1.0.0";
+  const currentVersion = CURRENT_VERSION;
   
   // 簡單的版本比較邏輯
   if (version === currentVersion) {
@@ -1,5 +1,35 @@
 export type Shift = '早' | '午' | '晚' | '加';
 
+// 班別的上下班時間（HH:MM，台北時間）；下班早於上班時視為跨到隔天
+export interface ShiftTime {
+  start: string;
+  end: string;
+  breakMinutes: number; // 不計入工時的休息時間
+}
+
+// 班別定義：可依星期（getDay()）覆寫，例如週六晚班較短
+export interface ShiftDefinition extends ShiftTime {
+  weekdayOverrides?: { [dayOfWeek: number]: ShiftTime };
+}
+
+export type ShiftDefinitions = Record<Shift, ShiftDefinition>;
+
+// 加班可附掛的時段：接在該時段之後延長上班
+export type OvertimePeriod = Exclude<Shift, '加'>;
+
+// 加班明細：有「加」的格子可記錄時數、事由與附掛的時段，未記錄時依班別時間計算
+export interface OvertimeEntry {
+  hours: number;
+  reason: string;
+  period?: OvertimePeriod;
+}
+
+export interface OvertimeMap {
+  [dateKey: string]: {
+    [pharmacistId: string]: OvertimeEntry;
+  };
+}
+
 export interface RequiredShifts {
   morning: number;
   afternoon: number;
@@ -7,20 +37,155 @@ export interface RequiredShifts {
   maxPerPerson?: number;
 }
 
+// 排班違規：error 為硬性規則違反，warning 為公平性提醒
+export type ViolationSeverity = 'error' | 'warning';
+
+export type ViolationRuleId =
+  | 'headcount'
+  | 'maxPerPerson'
+  | 'availability'
+  | 'overtimePeriod'
+  | 'fairness.holidays'
+  | 'fairness.shifts'
+  | 'fairness.morningEveningDays'
+  | 'fairness.mondayHolidays'
+  | 'fairness.saturdayHolidays'
+  | 'labour.restInterval'
+  | 'labour.consecutiveDays'
+  | 'labour.monthlyOvertime'
+  | 'labour.weeklyHours'
+  | 'labour.maxSessionsPerDay';
+
+export interface Violation {
+  ruleId: ViolationRuleId;
+  severity: ViolationSeverity;
+  message: string;
+  dateKey?: string;
+  pharmacist?: string; // 藥師 id
+  period?: Shift;
+}
+
+// 藥師資料：排班、請假等記錄皆以 id 為鍵，改名不影響既有資料
+export interface Pharmacist {
+  id: string;
+  name: string;
+  label: string; // 月曆與匯出圖片上使用的簡稱
+  color: string; // #RRGGBB
+}
+
+// 月份狀態：草稿可編輯，鎖定與已發布的月份皆不可編輯
+export type MonthStatus = 'draft' | 'locked' | 'published';
+
+export interface MonthInfo {
+  status: MonthStatus;
+  publishedAt?: string;
+}
+
+// 工作區的月份索引（YYYY-MM），未列出的月份視為草稿
+export interface MonthIndex {
+  [monthKey: string]: MonthInfo;
+}
+
+// 已封存的藥師：保留到封存日為止的歷史班表
+export interface ArchivedPharmacist extends Pharmacist {
+  archivedAt: string; // 封存當日（YYYY-MM-DD），該日所在月份之後不再顯示
+}
+
+// 藥師的約定工時比例（1 = 全職），未設定者視為全職
+export interface PharmacistFte {
+  [pharmacistId: string]: number;
+}
+
+// 特定日期的排班覆寫：國定假日或補班日
+export interface Holiday {
+  name: string;
+  kind: 'holiday' | 'makeup';
+  // 套用哪一個星期（getDay()）的排班規則，null 表示公休
+  rulesOf: number | null;
+}
+
+export interface HolidayCalendar {
+  [dateKey: string]: Holiday;
+}
+
+// 每週各日的排班需求，索引對應 getDay()（0 = 週日）
+export type CoverageRules = RequiredShifts[];
+
 export interface PharmacistStats {
   holidays: number;
-  shifts: number;
+  shifts: number; // 早、午、晚的節數，不含加班
   morningEveningDays: number;
   mondayHolidays: number;
   saturdayHolidays: number;
+  holidayWorkDays: number;
+  hours: number; // 總工時（扣除休息時間）
+  overtimeSessions: number; // 加班（加）的次數
+  overtimeHours: number; // 加班（加）的工時
+  weeklyHours: { [weekStartKey: string]: number }; // 以週一的日期鍵為鍵，跨月的週包含相鄰月份的班
 }
 
+// 可直接比較的數值統計
+export type PharmacistStatKey = Exclude<keyof PharmacistStats, 'weeklyHours'>;
+
 export interface Schedule {
   [dateKey: string]: {
-    [pharmacist: string]: Shift[];
+    [pharmacistId: string]: Shift[];
   };
 }
 
 export interface Notes {
   [dateKey: string]: string;
-} 
\ No newline at end of file
+}
+
+// 藥師可上班狀態：請假、不上晚班、只上早班
+export type Availability = 'leave' | 'noEvening' | 'morningOnly';
+
+export interface AvailabilityMap {
+  [dateKey: string]: {
+    [pharmacistId: string]: Availability;
+  };
+}
+
+// 編輯記錄可還原的工作區資料
+export interface EditableState {
+  months: MonthIndex;
+  pharmacists: Pharmacist[];
+  archivedPharmacists: ArchivedPharmacist[];
+  schedule: Schedule;
+  notes: Notes;
+  availability: AvailabilityMap;
+  overtime: OvertimeMap;
+  fte: PharmacistFte;
+}
+
+// 單一值的變更，undefined 表示該值不存在
+export interface ValueChange<T> {
+  before?: T;
+  after?: T;
+}
+
+// 一次編輯的差異：以鍵值組成的資料只記錄有變動的鍵，藥師名單記錄整份名單
+export interface HistoryPatch {
+  months?: { [monthKey: string]: ValueChange<MonthInfo> };
+  pharmacists?: ValueChange<Pharmacist[]>;
+  archivedPharmacists?: ValueChange<ArchivedPharmacist[]>;
+  schedule?: { [dateKey: string]: ValueChange<Schedule[string]> };
+  notes?: { [dateKey: string]: ValueChange<string> };
+  availability?: { [dateKey: string]: ValueChange<AvailabilityMap[string]> };
+  overtime?: { [dateKey: string]: ValueChange<OvertimeMap[string]> };
+  fte?: { [pharmacistId: string]: ValueChange<number> };
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // 顯示在編輯記錄中的說明
+  timestamp: string; // ISO 時間
+  mergeKey?: string; // 短時間內相同 mergeKey 的連續編輯合併為一筆（例如輸入備註）
+  patch: HistoryPatch;
+}
+
+// 編輯記錄：past 由舊到新，future 為已復原、可重做的記錄（最近復原的在最後）
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { Schedule } from "@/types/schedule";
+import { generateSchedule } from "./autoScheduler";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { calculateStats } from "./scheduleUtils";
+import { ScheduleInput, validateSchedule } from "./rulesEngine";
+
+const MONTH = new Date(2025, 0, 1);
+const PHARMACISTS = createDefaultPharmacists();
+const IDS = PHARMACISTS.map((p) => p.id);
+
+const input = (overrides: Partial<ScheduleInput> = {}): ScheduleInput => ({
+  currentMonth: MONTH,
+  pharmacists: PHARMACISTS,
+  schedule: {},
+  ...overrides,
+});
+
+const ruleIds = (schedule: Schedule, overrides: Partial<ScheduleInput> = {}) =>
+  validateSchedule(input({ ...overrides, schedule })).map((violation) => violation.ruleId);
+
+describe("generateSchedule", () => {
+  it("fills every required slot without breaking the hard rules", () => {
+    const result = generateSchedule(input());
+
+    expect(result.unfilledSlots).toBe(0);
+    expect(result.filledCells).toBe(31 * PHARMACISTS.length);
+    expect(ruleIds(result.schedule).filter((id) => !id.startsWith("fairness."))).toEqual([]);
+  });
+
+  it("keeps filled cells and counts them towards the headcount", () => {
+    const schedule: Schedule = {
+      "2025-01-06": { p1: ["早", "晚"], p2: [] },
+      "2025-01-07": { p3: ["早", "午", "晚"] },
+    };
+    const result = generateSchedule(input({ schedule }));
+
+    expect(result.schedule["2025-01-06"]).toMatchObject(schedule["2025-01-06"]);
+    expect(result.schedule["2025-01-07"]).toMatchObject(schedule["2025-01-07"]);
+    // 週二需要早 1 人，已由 p3 補上
+    expect(IDS.filter((id) => result.schedule["2025-01-07"][id].includes("早"))).toEqual(["p3"]);
+    expect(result.filledCells).toBe(31 * PHARMACISTS.length - 3);
+  });
+
+  it("honours leave and availability", () => {
+    const availability = {
+      "2025-01-08": { p1: "leave" as const, p2: "noEvening" as const },
+      "2025-01-09": { p3: "morningOnly" as const },
+    };
+    const result = generateSchedule(input({ availability }));
+
+    expect(result.schedule["2025-01-08"].p1).toEqual([]);
+    expect(result.schedule["2025-01-08"].p2).not.toContain("晚");
+    expect(result.schedule["2025-01-09"].p3.every((shift) => shift === "早")).toBe(true);
+    expect(ruleIds(result.schedule, { availability })).not.toContain("availability");
+  });
+
+  it("leaves enough rest after a fixed overtime shift", () => {
+    // 加班到 22:30，隔天 08:30 的早班只間隔 10 小時
+    const schedule: Schedule = { "2025-01-07": { p1: ["晚", "加"] } };
+    const result = generateSchedule(input({ schedule }));
+
+    expect(result.schedule["2025-01-08"].p1).not.toContain("早");
+  });
+
+  it("gives a day off after the maximum run of working days", () => {
+    const schedule: Schedule = Object.fromEntries(
+      ["2025-01-06", "2025-01-07", "2025-01-08", "2025-01-09", "2025-01-10"].map((dateKey) => [
+        dateKey,
+        { p1: ["午"] },
+      ])
+    );
+    const config = { "labour.consecutiveDays": { params: { maxDays: 5 } } };
+    const result = generateSchedule(input({ schedule }), config);
+
+    expect(result.schedule["2025-01-11"].p1).toEqual([]);
+    expect(generateSchedule(input({ schedule })).schedule["2025-01-11"].p1).not.toEqual([]);
+  });
+
+  it("leaves a slot open rather than break a labour rule, unless the rule is turned off", () => {
+    const schedule: Schedule = { "2025-01-07": { p1: ["晚", "加"] } };
+    const availability = { "2025-01-08": { p2: "leave" as const, p3: "leave" as const, p4: "leave" as const } };
+
+    const result = generateSchedule(input({ schedule, availability }));
+    expect(result.schedule["2025-01-08"].p1).toEqual(["午", "晚"]);
+    expect(result.unfilledSlots).toBeGreaterThan(0);
+
+    const relaxed = generateSchedule(input({ schedule, availability }), {
+      "labour.restInterval": { enabled: false },
+    });
+    expect(relaxed.schedule["2025-01-08"].p1).toEqual(["早", "午", "晚"]);
+  });
+
+  it("shares the work in proportion to FTE", () => {
+    const fte = { p4: 0.5 };
+    const result = generateSchedule(input({ fte }));
+    const stats = calculateStats(MONTH, result.schedule, IDS);
+    const fullTime = ["p1", "p2", "p3"].map((id) => stats[id].shifts);
+    const average = fullTime.reduce((sum, v) => sum + v, 0) / fullTime.length;
+
+    expect(stats.p4.shifts).toBeLessThan(average * 0.75);
+    expect(stats.p4.holidays).toBeGreaterThan(Math.max(...["p1", "p2", "p3"].map((id) => stats[id].holidays)));
+  });
+});
@@ -0,0 +1,332 @@
+import { PharmacistStats, Schedule, Shift } from '@/types/schedule';
+import {
+  DEFAULT_COVERAGE_RULES,
+  DEFAULT_SHIFT_DEFINITIONS,
+  getAvailabilityConflicts,
+  getDaysInMonth,
+  getRequiredShifts,
+  getSessionCount,
+} from './scheduleUtils';
+import { addDays, parseDateKey, toDateKey } from './calendarDate';
+import {
+  RuleConfig,
+  RuleContext,
+  ScheduleInput,
+  ScheduleRule,
+  consecutiveDaysRule,
+  getFairnessTargets,
+  maxSessionsPerDayRule,
+  restIntervalRule,
+} from './rulesEngine';
+
+type Period = 'morning' | 'afternoon' | 'evening';
+
+const PERIODS: Period[] = ['morning', 'afternoon', 'evening'];
+const PERIOD_SHIFT: Record<Period, Shift> = {
+  morning: '早',
+  afternoon: '午',
+  evening: '晚',
+};
+
+// 每個時段最多考慮的候選人數，避免藥師人數多時組合數爆炸
+const MAX_CANDIDATES_PER_PERIOD = 6;
+
+// 各項公平指標的權重（與目標值差距的平方加權）
+const FAIRNESS_WEIGHTS = {
+  holidays: 4,
+  shifts: 2,
+  morningEveningDays: 3,
+  mondayHolidays: 3,
+  saturdayHolidays: 3,
+};
+
+type FairnessMetric = keyof typeof FAIRNESS_WEIGHTS;
+
+// 休假類指標的目標值依已排日期中可休的天數分配，與公平性規則的算法相同
+const REST_DAY_FILTERS: Partial<Record<FairnessMetric, (day: Date) => boolean>> = {
+  holidays: () => true,
+  mondayHolidays: (day) => day.getDay() === 1,
+  saturdayHolidays: (day) => day.getDay() === 6,
+};
+
+// 逐格檢查的勞基法規則；每月加班時數只計算加班（加），自動排班不會排加班，不需檢查
+const PLACEMENT_RULES: ScheduleRule[] = [
+  restIntervalRule,
+  consecutiveDaysRule,
+  maxSessionsPerDayRule,
+];
+
+export interface AutoScheduleResult {
+  schedule: Schedule;
+  filledCells: number;
+  unfilledSlots: number;
+}
+
+const emptyStats = (): PharmacistStats => ({
+  holidays: 0,
+  shifts: 0,
+  morningEveningDays: 0,
+  mondayHolidays: 0,
+  saturdayHolidays: 0,
+  holidayWorkDays: 0,
+  hours: 0,
+  overtimeSessions: 0,
+  overtimeHours: 0,
+  weeklyHours: {},
+});
+
+// 與目標值差距的平方平均；全職團隊時目標值就是平均值，等同變異數
+const deviation = (values: number[], targets: number[]): number => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v, idx) => sum + (v - targets[idx]) ** 2, 0) / values.length;
+};
+
+// 將某日的班別累加到統計中（與 calculateStats 的計算方式一致；工時與加班不列入公平性比較，不累加）
+const applyDay = (
+  stats: PharmacistStats,
+  shifts: Shift[],
+  dayOfWeek: number,
+  isNationalHoliday = false
+): PharmacistStats => {
+  const next = { ...stats };
+  if (shifts.length === 0) {
+    next.holidays++;
+    if (dayOfWeek === 1) next.mondayHolidays++;
+    if (dayOfWeek === 6) next.saturdayHolidays++;
+  } else {
+    next.shifts += getSessionCount(shifts);
+    if (isNationalHoliday) next.holidayWorkDays++;
+    if (shifts.includes('早') && shifts.includes('晚')) {
+      next.morningEveningDays++;
+    }
+  }
+  return next;
+};
+
+// 各指標依約定工時比例計算目標值，加總與目標值的差距
+const fairnessCost = (
+  stats: PharmacistStats[],
+  weights: number[],
+  metrics: FairnessMetric[],
+  restDayCounts: Partial<Record<FairnessMetric, number>>
+): number =>
+  metrics.reduce((sum, key) => {
+    const values = stats.map((s) => s[key]);
+    const targets = getFairnessTargets(
+      values.reduce((total, v) => total + v, 0),
+      weights,
+      restDayCounts[key]
+    );
+    return sum + FAIRNESS_WEIGHTS[key] * deviation(values, targets);
+  }, 0);
+
+const combinations = <T>(items: T[], k: number): T[][] => {
+  if (k === 0) return [[]];
+  if (items.length < k) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, k - 1).map((combo) => [first, ...combo]),
+    ...combinations(rest, k),
+  ];
+};
+
+// 自動排班：依照每日所需人數補齊未填寫的格子，已填寫的格子視為固定。
+// 避開請假登記與會違反勞基法規則的排法，並以約定工時比例分配班數與假期；
+// 規則的啟用與參數沿用排班檢查的設定
+export const generateSchedule = (
+  input: ScheduleInput,
+  config: RuleConfig = {}
+): AutoScheduleResult => {
+  const { currentMonth, pharmacists: roster, schedule } = input;
+  const availability = input.availability ?? {};
+  const coverageRules = input.coverageRules ?? DEFAULT_COVERAGE_RULES;
+  const holidays = input.holidays ?? {};
+  const fte = input.fte ?? {};
+  const pharmacists = roster.map((p) => p.id);
+  const weights = pharmacists.map((p) => fte[p] ?? 1);
+  const metrics = (Object.keys(FAIRNESS_WEIGHTS) as FairnessMetric[]).filter(
+    (key) => config[`fairness.${key}`]?.enabled !== false
+  );
+  const placementRules = PLACEMENT_RULES.filter((rule) => config[rule.id]?.enabled !== false).map(
+    (rule) => ({ rule, params: { ...rule.defaultParams, ...config[rule.id]?.params } })
+  );
+  // 往後檢查的天數：連續上班可能接上之後已填寫的日子
+  const lookahead =
+    placementRules.find(({ rule }) => rule === consecutiveDaysRule)?.params.maxDays ?? 0;
+
+  const days = getDaysInMonth(currentMonth);
+  const result: Schedule = { ...schedule };
+  const running: { [pharmacist: string]: PharmacistStats } = {};
+  let filledCells = 0;
+  let unfilledSlots = 0;
+
+  pharmacists.forEach((pharmacist) => {
+    running[pharmacist] = emptyStats();
+  });
+
+  const baseContext: Omit<RuleContext, 'days' | 'pharmacists' | 'schedule'> = {
+    currentMonth,
+    availability,
+    overtime: input.overtime ?? {},
+    coverageRules,
+    holidays,
+    fte,
+    shiftDefinitions: input.shiftDefinitions ?? DEFAULT_SHIFT_DEFINITIONS,
+    stats: {},
+  };
+
+  // 以規則引擎計算某位藥師當天排這些班時的違規數
+  const countViolations = (dateKey: string, pharmacistIndex: number, shifts: Shift[]) => {
+    const context: RuleContext = {
+      ...baseContext,
+      days: Array.from({ length: lookahead + 1 }, (_, i) => parseDateKey(addDays(dateKey, i))),
+      pharmacists: [roster[pharmacistIndex]],
+      schedule: {
+        ...result,
+        [dateKey]: { ...result[dateKey], [pharmacists[pharmacistIndex]]: shifts },
+      },
+    };
+    return placementRules.reduce((sum, { rule, params }) => sum + rule.check(context, params).length, 0);
+  };
+
+  days.forEach((day, dayIndex) => {
+    const dateKey = toDateKey(day);
+    const dayOfWeek = day.getDay();
+    const required = getRequiredShifts(day, coverageRules, holidays);
+    const existing = schedule[dateKey] || {};
+    const dayAvailability = availability[dateKey] || {};
+    const isNationalHoliday = holidays[dateKey]?.kind === 'holiday';
+    const maxPerPerson = required.maxPerPerson ?? PERIODS.length;
+    const elapsedDays = days.slice(0, dayIndex + 1);
+    const restDayCounts = Object.fromEntries(
+      Object.entries(REST_DAY_FILTERS).map(([key, isRestDay]) => [
+        key,
+        elapsedDays.filter(isRestDay).length,
+      ])
+    );
+
+    const fixed = pharmacists.filter((p) => existing[p] !== undefined);
+    // 每天輪替起始順序，讓同分時不總是選到名單前面的藥師
+    const free = pharmacists
+      .filter((p) => existing[p] === undefined)
+      .map((_, idx, list) => list[(idx + dayIndex) % list.length]);
+
+    // 比休假多出違規的排法不採用；規則只會因多排班而更嚴重，可在加入每個時段時就排除
+    const allowed = new Map<string, boolean>();
+    const baseline = new Map<string, number>();
+    const isAllowed = (p: string, shifts: Shift[]) => {
+      const key = `${p}:${shifts.join('')}`;
+      if (!allowed.has(key)) {
+        const index = pharmacists.indexOf(p);
+        if (!baseline.has(p)) baseline.set(p, countViolations(dateKey, index, []));
+        allowed.set(key, countViolations(dateKey, index, shifts) <= baseline.get(p)!);
+      }
+      return allowed.get(key)!;
+    };
+
+    // 到前一天為止與目標值的差距，決定候選人的優先順序
+    const surplus = (metric: FairnessMetric, restDayCount?: number) => {
+      const values = pharmacists.map((p) => running[p][metric]);
+      const targets = getFairnessTargets(
+        values.reduce((total, v) => total + v, 0),
+        weights,
+        restDayCount
+      );
+      return Object.fromEntries(pharmacists.map((p, idx) => [p, values[idx] - targets[idx]]));
+    };
+    const holidaySurplus = surplus('holidays', dayIndex);
+    const shiftSurplus = surplus('shifts');
+
+    // 扣除已固定的人數，得到各時段尚需補上的人數
+    const needs = PERIODS.map((period) => {
+      const assigned = fixed.filter((p) =>
+        existing[p].includes(PERIOD_SHIFT[period])
+      ).length;
+      return Math.max(0, required[period] - assigned);
+    });
+
+    const initial: Record<string, Shift[]> = {};
+    free.forEach((p) => {
+      initial[p] = [];
+    });
+    const best = { assignment: initial, cost: Infinity };
+
+    const search = (
+      periodIndex: number,
+      assignment: Record<string, Shift[]>,
+      missing: number
+    ) => {
+      if (periodIndex === PERIODS.length) {
+        const projected = pharmacists.map((p) =>
+          applyDay(
+            running[p],
+            fixed.includes(p) ? existing[p] : assignment[p],
+            dayOfWeek,
+            isNationalHoliday
+          )
+        );
+        // 缺人遠比不平均嚴重
+        const cost = missing * 1000 + fairnessCost(projected, weights, metrics, restDayCounts);
+        if (cost < best.cost) {
+          best.assignment = assignment;
+          best.cost = cost;
+        }
+        return;
+      }
+
+      const period = PERIODS[periodIndex];
+      const need = needs[periodIndex];
+      const eligible = free
+        .filter(
+          (p) =>
+            assignment[p].length < maxPerPerson &&
+            getAvailabilityConflicts([PERIOD_SHIFT[period]], dayAvailability[p])
+              .length === 0 &&
+            isAllowed(p, [...assignment[p], PERIOD_SHIFT[period]])
+        )
+        .sort((a, b) => {
+          if (holidaySurplus[a] !== holidaySurplus[b]) {
+            return holidaySurplus[b] - holidaySurplus[a];
+          }
+          return shiftSurplus[a] - shiftSurplus[b];
+        })
+        .slice(0, MAX_CANDIDATES_PER_PERIOD);
+      const pickCount = Math.min(need, eligible.length);
+
+      combinations(eligible, pickCount).forEach((picked) => {
+        const nextAssignment = { ...assignment };
+        picked.forEach((p) => {
+          nextAssignment[p] = [...nextAssignment[p], PERIOD_SHIFT[period]];
+        });
+        search(periodIndex + 1, nextAssignment, missing + need - pickCount);
+      });
+    };
+
+    search(0, initial, 0);
+
+    const daySchedule = { ...existing };
+    free.forEach((p) => {
+      daySchedule[p] = best.assignment[p];
+      filledCells++;
+    });
+    PERIODS.forEach((period) => {
+      const assigned = pharmacists.filter((p) =>
+        daySchedule[p].includes(PERIOD_SHIFT[period])
+      ).length;
+      unfilledSlots += Math.max(0, required[period] - assigned);
+    });
+
+    pharmacists.forEach((p) => {
+      running[p] = applyDay(
+        running[p],
+        daySchedule[p],
+        dayOfWeek,
+        isNationalHoliday
+      );
+    });
+
+    result[dateKey] = daySchedule;
+  });
+
+  return { schedule: result, filledCells, unfilledSlots };
+};
@@ -0,0 +1,41 @@
+// 日曆日期工具：日期鍵一律以本地時區的年月日組成，不經過 UTC 轉換。
+// 不可使用 toISOString() 產生日期鍵，在 UTC+8 會得到前一天的日期。
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 日期鍵（YYYY-MM-DD）
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// 月份鍵（YYYY-MM）
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+// 將日期鍵轉為本地午夜的 Date
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// 將月份鍵轉為該月 1 日本地午夜的 Date
+export function parseMonthKey(monthKey: string): Date {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+}
+
+// 日期鍵加減天數（以日曆日計算，不受日光節約時間影響）
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
+// 該日所在週（週一至週日）的週一日期鍵
+export function getWeekStartKey(dateKey: string): string {
+  return addDays(dateKey, -((parseDateKey(dateKey).getDay() + 6) % 7));
+}
+
+export function getTodayKey(): string {
+  return toDateKey(new Date());
+}
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Schedule } from "@/types/schedule";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { DEFAULT_SHIFT_DEFINITIONS } from "./scheduleUtils";
+import { downloadBlob } from "./download";
+import {
+  buildIcsCalendar,
+  CalendarExportInput,
+  escapeIcsText,
+  exportCalendar,
+  foldIcsLine,
+  getEventUid,
+  getSequence,
+} from "./calendarExport";
+
+vi.mock("./download", () => ({ downloadBlob: vi.fn() }));
+
+const PHARMACISTS = createDefaultPharmacists();
+const NOW = new Date(Date.UTC(2025, 0, 15, 4, 30, 0));
+
+const schedule: Schedule = {
+  "2025-01-02": { p1: ["晚", "早"] },
+  "2025-02-01": { p1: ["早"] },
+};
+
+const input: CalendarExportInput = {
+  currentMonth: new Date(2025, 0, 1),
+  roster: PHARMACISTS,
+  schedule,
+  notes: { "2025-01-02": "盤點, 請提早到" },
+  now: NOW,
+};
+
+// 還原折行後逐行分開
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+const events = (ics: string) =>
+  unfold(ics)
+    .join("\n")
+    .split("BEGIN:VEVENT\n")
+    .slice(1)
+    .map((event) => event.split("\nEND:VEVENT")[0].split("\n"));
+
+describe("escapeIcsText", () => {
+  it("escapes backslashes, semicolons, commas and line breaks", () => {
+    expect(escapeIcsText("a\\b;c,d\ne\r\nf")).toBe("a\\\\b\\;c\\,d\\ne\\nf");
+  });
+});
+
+describe("foldIcsLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldIcsLine("SUMMARY:邱 早班")).toBe("SUMMARY:邱 早班");
+  });
+
+  it("folds at 75 octets without splitting multi-byte characters", () => {
+    const line = `DESCRIPTION:${"藥".repeat(60)}`;
+    const folded = foldIcsLine(line);
+    const encoder = new TextEncoder();
+
+    folded.split("\r\n").forEach((part, index) => {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+      if (index > 0) expect(part.startsWith(" ")).toBe(true);
+    });
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
+
+describe("buildIcsCalendar", () => {
+  const ics = buildIcsCalendar(input, PHARMACISTS, "藥師排班 2025年01月");
+
+  it("uses CRLF line endings and the Taipei time zone", () => {
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(unfold(ics)).toContain("TZID:Asia/Taipei");
+  });
+
+  it("writes one timed event per shift of the month", () => {
+    const [morning, evening] = events(ics);
+
+    expect(events(ics)).toHaveLength(2);
+    expect(morning).toEqual([
+      `UID:${getEventUid("2025-01-02", "早", "p1")}`,
+      "DTSTAMP:20250115T043000Z",
+      "SEQUENCE:547470",
+      `DTSTART;TZID=Asia/Taipei:20250102T${DEFAULT_SHIFT_DEFINITIONS["早"].start.replace(":", "")}00`,
+      `DTEND;TZID=Asia/Taipei:20250102T${DEFAULT_SHIFT_DEFINITIONS["早"].end.replace(":", "")}00`,
+      `SUMMARY:${PHARMACISTS[0].name} 早班`,
+      "DESCRIPTION:藥師排班：早班\\n備註：盤點\\, 請提早到",
+    ]);
+    expect(evening[0]).toBe("UID:20250102-evening-p1@pharmacist-scheduler");
+  });
+
+  it("keeps UIDs stable across exports", () => {
+    const later = buildIcsCalendar({ ...input, now: new Date() }, PHARMACISTS, "x");
+    const uids = (text: string) => unfold(text).filter((line) => line.startsWith("UID:"));
+
+    expect(uids(later)).toEqual(uids(ics));
+  });
+
+  it("raises SEQUENCE on later exports so calendars take the new times", () => {
+    expect(getSequence(new Date(NOW.getTime() + 60_000))).toBe(getSequence(NOW) + 1);
+  });
+
+  it("moves the end to the next day for shifts past midnight", () => {
+    const overnight = buildIcsCalendar(
+      {
+        ...input,
+        shiftDefinitions: {
+          ...DEFAULT_SHIFT_DEFINITIONS,
+          晚: { start: "22:00", end: "06:00", breakMinutes: 0 },
+        },
+      },
+      PHARMACISTS,
+      "x"
+    );
+
+    expect(events(overnight)[1]).toContain("DTEND;TZID=Asia/Taipei:20250103T060000");
+  });
+
+  it("times overtime from its entry and lists the reason", () => {
+    const withOvertime = buildIcsCalendar(
+      {
+        ...input,
+        schedule: { "2025-01-03": { p1: ["晚", "加"] } },
+        overtime: { "2025-01-03": { p1: { hours: 1.5, reason: "盤點", period: "晚" } } },
+      },
+      PHARMACISTS,
+      "x"
+    );
+    const overtimeEvent = events(withOvertime)[1];
+
+    expect(overtimeEvent).toContain("DTSTART;TZID=Asia/Taipei:20250103T213000");
+    expect(overtimeEvent).toContain("DTEND;TZID=Asia/Taipei:20250103T230000");
+    expect(overtimeEvent).toContain(
+      "DESCRIPTION:藥師排班：加班\\n加班：1.5小時（接在晚班後）：盤點"
+    );
+  });
+
+  it("includes only the given pharmacists", () => {
+    expect(events(buildIcsCalendar(input, [PHARMACISTS[1]], "x"))).toHaveLength(0);
+  });
+});
+
+describe("exportCalendar", () => {
+  afterEach(() => {
+    vi.mocked(downloadBlob).mockClear();
+    vi.useRealTimers();
+  });
+
+  const fileNames = () => vi.mocked(downloadBlob).mock.calls.map(([, name]) => name);
+
+  it("downloads one file for the whole roster", async () => {
+    await expect(exportCalendar("combined", input)).resolves.toBe(1);
+    expect(fileNames()).toEqual(["藥師排班_2025年01月.ics"]);
+  });
+
+  it("downloads nothing for a month without shifts", async () => {
+    const empty = { ...input, currentMonth: new Date(2025, 2, 1) };
+
+    await expect(exportCalendar("combined", empty)).resolves.toBe(0);
+    await expect(exportCalendar("separate", empty)).resolves.toBe(0);
+    expect(downloadBlob).not.toHaveBeenCalled();
+  });
+
+  it("spaces out the downloads of separate files", async () => {
+    vi.useFakeTimers();
+    const twoPharmacists = {
+      ...input,
+      schedule: { ...schedule, "2025-01-03": { p2: ["午" as const] } },
+    };
+
+    const exported = exportCalendar("separate", twoPharmacists);
+    expect(fileNames()).toEqual([`藥師排班_2025年01月_${PHARMACISTS[0].name}.ics`]);
+
+    await vi.runAllTimersAsync();
+    await expect(exported).resolves.toBe(2);
+    expect(fileNames()).toEqual([
+      `藥師排班_2025年01月_${PHARMACISTS[0].name}.ics`,
+      `藥師排班_2025年01月_${PHARMACISTS[1].name}.ics`,
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { HolidayCalendar, Notes, OvertimeMap, Pharmacist, Schedule, Shift, ShiftDefinitions } from '@/types/schedule';
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  describeOvertimeEntry,
+  getDaysInMonth,
+  getOvertimeTime,
+  getShiftTime,
+  SHIFT_ORDER,
+} from './scheduleUtils';
+import { addDays, toDateKey } from './calendarDate';
+import { downloadBlob } from './download';
+
+// 匯出 RFC 5545 日曆檔：每個班別一個事件，時間以台北時區表示。
+// 檔案只列出目前的班別：排班中刪除的班別不會產生取消事件，
+// 重新匯入不會把它從日曆中移除，需在日曆中手動刪除
+
+const TIME_ZONE = 'Asia/Taipei';
+const PRODUCT_ID = '-//藥師排班系統//NONSGML v1.0//ZH-TW';
+const UID_DOMAIN = 'pharmacist-scheduler';
+// 每行最多 75 個位元組（不含換行），超過時折行
+const MAX_LINE_OCTETS = 75;
+// SEQUENCE 以匯出時間距此時刻的分鐘數表示，後匯出的版本一定較大，日曆才會以新內容更新同一事件
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+// 分開下載多個檔案時的間隔，避免瀏覽器略過連續觸發的下載
+const DOWNLOAD_INTERVAL_MS = 500;
+
+// UID 中使用的班別代碼：同一天、同一位藥師、同一班別的 UID 固定，重新匯入時會更新而非重複
+const SHIFT_UID_CODES: Record<Shift, string> = {
+  早: 'morning',
+  午: 'afternoon',
+  晚: 'evening',
+  加: 'overtime',
+};
+
+// 台灣自 1979 年後不實施日光節約時間，固定為 UTC+8
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'TZNAME:CST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export type CalendarExportMode = 'combined' | 'separate';
+
+export const CALENDAR_EXPORT_MODE_LABELS: Record<CalendarExportMode, string> = {
+  combined: '全部藥師（單一檔案）',
+  separate: '每位藥師各一個檔案',
+};
+
+export interface CalendarExportInput {
+  currentMonth: Date;
+  roster: Pharmacist[];
+  schedule: Schedule;
+  notes: Notes;
+  shiftDefinitions?: ShiftDefinitions;
+  holidays?: HolidayCalendar;
+  overtime?: OvertimeMap;
+  // 事件的 DTSTAMP，預設為現在
+  now?: Date;
+}
+
+// 跳脫文字值中的反斜線、分號、逗號與換行
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// 折行：以 UTF-8 位元組計算長度，不拆開多位元組字元；續行以一個空白開頭
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 續行開頭的空白也算在 75 個位元組內
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatLocalDateTime = (dateKey: string, time: string) =>
+  `${dateKey.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtcDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const getSequence = (now: Date) =>
+  Math.max(0, Math.floor((now.getTime() - SEQUENCE_EPOCH) / 60000));
+
+const getShiftLabel = (shift: Shift) => (shift === '加' ? '加班' : `${shift}班`);
+
+export const getEventUid = (dateKey: string, shift: Shift, pharmacistId: string) =>
+  `${dateKey.replace(/-/g, '')}-${SHIFT_UID_CODES[shift]}-${pharmacistId}@${UID_DOMAIN}`;
+
+// 產生日曆內容；pharmacists 為要包含的藥師
+export function buildIcsCalendar(
+  {
+    currentMonth,
+    schedule,
+    notes,
+    shiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+    holidays = {},
+    overtime = {},
+    now = new Date(),
+  }: CalendarExportInput,
+  pharmacists: Pharmacist[],
+  calendarName: string
+): string {
+  const stamp = formatUtcDateTime(now);
+  const sequence = getSequence(now);
+  const events = getDaysInMonth(currentMonth).flatMap(day => {
+    const dateKey = toDateKey(day);
+    const note = notes[dateKey];
+
+    return pharmacists.flatMap(pharmacist => {
+      const shifts = schedule[dateKey]?.[pharmacist.id] ?? [];
+      return SHIFT_ORDER.filter(shift => shifts.includes(shift)).flatMap(shift => {
+        // 加班依明細的時數與附掛時段計算時間，並在說明中列出事由
+        const overtimeEntry = shift === '加' ? overtime[dateKey]?.[pharmacist.id] : undefined;
+        const { start, end } =
+          shift === '加'
+            ? getOvertimeTime(day, overtimeEntry, shiftDefinitions, holidays)
+            : getShiftTime(shift, day, shiftDefinitions, holidays);
+        const endDateKey = end <= start ? addDays(dateKey, 1) : dateKey;
+        const description = [
+          `藥師排班：${getShiftLabel(shift)}`,
+          overtimeEntry && `加班：${describeOvertimeEntry(overtimeEntry)}`,
+          note && `備註：${note}`,
+        ]
+          .filter(Boolean)
+          .join('\n');
+        return [
+          'BEGIN:VEVENT',
+          `UID:${getEventUid(dateKey, shift, pharmacist.id)}`,
+          `DTSTAMP:${stamp}`,
+          `SEQUENCE:${sequence}`,
+          `DTSTART;TZID=${TIME_ZONE}:${formatLocalDateTime(dateKey, start)}`,
+          `DTEND;TZID=${TIME_ZONE}:${formatLocalDateTime(endDateKey, end)}`,
+          `SUMMARY:${escapeIcsText(`${pharmacist.name} ${getShiftLabel(shift)}`)}`,
+          `DESCRIPTION:${escapeIcsText(description)}`,
+          'END:VEVENT',
+        ];
+      });
+    });
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...VTIMEZONE,
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldIcsLine)
+    .join('\r\n') + '\r\n';
+}
+
+const monthLabel = (currentMonth: Date) =>
+  `${currentMonth.getFullYear()}年${String(currentMonth.getMonth() + 1).padStart(2, '0')}月`;
+
+// 檔名中不可使用的字元
+const toFileNamePart = (text: string) => text.replace(/[\\/:*?"<>|]/g, '_');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 下載日曆檔：合併為一個檔案，或每位有排班的藥師各一個檔案（逐一間隔下載）；
+// 回傳下載的檔案數，本月沒有任何排班時不下載並回傳 0
+export async function exportCalendar(
+  mode: CalendarExportMode,
+  input: CalendarExportInput
+): Promise<number> {
+  const month = monthLabel(input.currentMonth);
+  const dateKeys = getDaysInMonth(input.currentMonth).map(toDateKey);
+  const scheduled = input.roster.filter(pharmacist =>
+    dateKeys.some(dateKey => (input.schedule[dateKey]?.[pharmacist.id] ?? []).length > 0)
+  );
+  if (scheduled.length === 0) return 0;
+
+  const files =
+    mode === 'combined'
+      ? [{ name: `藥師排班_${month}`, pharmacists: input.roster, title: `藥師排班 ${month}` }]
+      : scheduled.map(pharmacist => ({
+          name: `藥師排班_${month}_${toFileNamePart(pharmacist.name)}`,
+          pharmacists: [pharmacist],
+          title: `${pharmacist.name} 排班 ${month}`,
+        }));
+
+  for (const [index, { name, pharmacists, title }] of files.entries()) {
+    if (index > 0) await wait(DOWNLOAD_INTERVAL_MS);
+    const content = buildIcsCalendar(input, pharmacists, title);
+    downloadBlob(new Blob([content], { type: 'text/calendar;charset=utf-8' }), `${name}.ics`);
+  }
+  return files.length;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultPharmacists } from "./rosterUtils";
+import {
+  buildCalendarWeeks,
+  CalendarRenderInput,
+  fitText,
+  getCalendarNotes,
+  getDayRows,
+  wrapText,
+} from "./calendarRenderer";
+
+const PHARMACISTS = createDefaultPharmacists();
+// 每個字元寬 10
+const measure = (text: string) => [...text].length * 10;
+
+const input: CalendarRenderInput = {
+  currentMonth: new Date(2025, 0, 1),
+  roster: PHARMACISTS,
+  schedule: {
+    "2025-01-02": { p1: ["早", "晚"], p2: ["午", "加"], p3: ["加"] },
+    "2025-01-03": { p1: ["早", "晚", "加"] },
+  },
+  notes: { "2025-01-03": "盤點", "2025-01-02": "  ", "2024-12-31": "跨年" },
+  holidays: { "2025-01-01": { name: "元旦", kind: "holiday", rulesOf: null } },
+  overtime: { "2025-01-03": { p1: { hours: 2, reason: "", period: "早" } } },
+};
+
+describe("getDayRows", () => {
+  it("lists pharmacists by period, with overtime on the last worked period", () => {
+    const rows = getDayRows(input, new Date(2025, 0, 2));
+
+    expect(rows.map((row) => row.map((block) => block.text))).toEqual([
+      ["邱"],
+      ["黃+1h"],
+      // 只有加班時畫在晚班列
+      ["邱", "李加1h"],
+    ]);
+    expect(rows[0][0].color).toBe(PHARMACISTS[0].color);
+  });
+
+  it("puts overtime on its attached period", () => {
+    const rows = getDayRows(input, new Date(2025, 0, 3));
+
+    expect(rows.map((row) => row.map((block) => block.text))).toEqual([["邱+2h"], [], ["邱"]]);
+  });
+});
+
+describe("buildCalendarWeeks", () => {
+  const weeks = buildCalendarWeeks(input);
+
+  it("starts on the Sunday before the first day and covers the month", () => {
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0].dateKey).toBe("2024-12-29");
+    expect(weeks[0][0].inMonth).toBe(false);
+    expect(weeks[0][3]).toMatchObject({ dateKey: "2025-01-01", inMonth: true, closed: true });
+    expect(weeks[0][3].holiday?.name).toBe("元旦");
+  });
+
+  it("numbers the days that have notes", () => {
+    expect(weeks[0][5]).toMatchObject({ dateKey: "2025-01-03", noteNumber: 1 });
+    expect(weeks[0][4].noteNumber).toBeUndefined();
+  });
+});
+
+describe("getCalendarNotes", () => {
+  it("lists the non-empty notes of the month in full", () => {
+    expect(getCalendarNotes(input)).toEqual([{ number: 1, dateKey: "2025-01-03", text: "盤點" }]);
+  });
+});
+
+describe("wrapText / fitText", () => {
+  it("wraps at any character and keeps line breaks", () => {
+    expect(wrapText("一二三四五\n六", 30, measure)).toEqual(["一二三", "四五", "六"]);
+  });
+
+  it("truncates with an ellipsis", () => {
+    expect(fitText("一二三", 30, measure)).toBe("一二三");
+    expect(fitText("一二三四五", 30, measure)).toBe("一二…");
+  });
+});
@@ -0,0 +1,560 @@
+import {
+  CoverageRules,
+  Holiday,
+  HolidayCalendar,
+  Notes,
+  OvertimeEntry,
+  OvertimeMap,
+  OvertimePeriod,
+  Pharmacist,
+  Schedule,
+  Shift,
+  ShiftDefinitions,
+} from '@/types/schedule';
+import { toDateKey } from './calendarDate';
+import { downloadBlob, printImage } from './download';
+import { buildImagePdf } from './pdfExport';
+import {
+  DEFAULT_COVERAGE_RULES,
+  DEFAULT_SHIFT_DEFINITIONS,
+  describeShiftDefinitions,
+  getDayName,
+  getOvertimeTime,
+  getRequiredShifts,
+  getShiftHours,
+  isClosedDay,
+} from './scheduleUtils';
+
+// 月曆圖片的繪製：匯出圖片、分享、PDF 與列印共用同一份版面
+
+export type CalendarLayout = 'screen' | 'a4';
+
+export type CalendarImageOutput = 'png' | 'pdf' | 'print';
+
+export const CALENDAR_IMAGE_OUTPUT_LABELS: Record<CalendarImageOutput, string> = {
+  png: '圖片（PNG）',
+  pdf: 'PDF（A4）',
+  print: '列印（A4）',
+};
+
+// 各輸出使用的版面：圖片維持螢幕版，PDF 與列印使用 A4 橫向版面
+export const CALENDAR_OUTPUT_LAYOUTS: Record<CalendarImageOutput, CalendarLayout> = {
+  png: 'screen',
+  pdf: 'a4',
+  print: 'a4',
+};
+
+export interface CalendarRenderInput {
+  currentMonth: Date;
+  roster: Pharmacist[];
+  schedule: Schedule;
+  notes: Notes;
+  holidays: HolidayCalendar;
+  coverageRules?: CoverageRules;
+  shiftDefinitions?: ShiftDefinitions;
+  overtime?: OvertimeMap;
+  today?: Date; // 螢幕版會標示今天
+}
+
+export interface CalendarBlock {
+  pharmacistId: string;
+  text: string;
+  color: string;
+}
+
+export interface CalendarDay {
+  date: Date;
+  dateKey: string;
+  inMonth: boolean;
+  holiday?: Holiday;
+  closed: boolean;
+  rows: CalendarBlock[][]; // 早、午、晚各一列
+  noteNumber?: number; // 對應月曆下方備註的編號
+}
+
+export interface CalendarNote {
+  number: number;
+  dateKey: string;
+  text: string;
+}
+
+const PERIODS: OvertimePeriod[] = ['早', '午', '晚'];
+const WEEK_DAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+// 加班標在附掛的時段（未指定或當天沒排該班時為當天最後一個班）；只有加班時標在晚班列
+const getOvertimeHost = (shifts: Shift[], entry?: OvertimeEntry): OvertimePeriod | undefined => {
+  if (!shifts.includes('加')) return undefined;
+  const worked = PERIODS.filter(period => shifts.includes(period));
+  if (entry?.period && worked.includes(entry.period)) return entry.period;
+  return worked[worked.length - 1] ?? '晚';
+};
+
+// 某日早、午、晚三列要顯示的藥師（依名單順序）
+export function getDayRows(
+  {
+    roster,
+    schedule,
+    holidays,
+    overtime = {},
+    shiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+  }: CalendarRenderInput,
+  date: Date
+): CalendarBlock[][] {
+  const dateKey = toDateKey(date);
+  return PERIODS.map(period =>
+    roster.flatMap(pharmacist => {
+      const shifts = schedule[dateKey]?.[pharmacist.id] ?? [];
+      const entry = overtime[dateKey]?.[pharmacist.id];
+      const isHost = getOvertimeHost(shifts, entry) === period;
+      if (!shifts.includes(period) && !isHost) return [];
+
+      const hours = isHost
+        ? getShiftHours(getOvertimeTime(date, entry, shiftDefinitions, holidays))
+        : 0;
+      const text = !shifts.includes(period)
+        ? `${pharmacist.label}加${hours}h`
+        : hours
+          ? `${pharmacist.label}+${hours}h`
+          : pharmacist.label;
+      return [{ pharmacistId: pharmacist.id, text, color: pharmacist.color }];
+    })
+  );
+}
+
+// 本月有內容的備註，依日期編號
+export function getCalendarNotes({ currentMonth, notes }: CalendarRenderInput): CalendarNote[] {
+  const prefix = toDateKey(currentMonth).slice(0, 8);
+  return Object.keys(notes)
+    .filter(dateKey => dateKey.startsWith(prefix) && notes[dateKey].trim() !== '')
+    .sort()
+    .map((dateKey, index) => ({ number: index + 1, dateKey, text: notes[dateKey].trim() }));
+}
+
+// 月曆的週列，從包含本月一日的週日開始
+export function buildCalendarWeeks(input: CalendarRenderInput): CalendarDay[][] {
+  const { currentMonth, holidays, coverageRules = DEFAULT_COVERAGE_RULES } = input;
+  const year = currentMonth.getFullYear();
+  const month = currentMonth.getMonth();
+  const offset = new Date(year, month, 1).getDay();
+  const totalWeeks = Math.ceil((new Date(year, month + 1, 0).getDate() + offset) / 7);
+  const noteNumbers = new Map(getCalendarNotes(input).map(note => [note.dateKey, note.number]));
+
+  return Array.from({ length: totalWeeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, dayOfWeek): CalendarDay => {
+      const date = new Date(year, month, 1 - offset + week * 7 + dayOfWeek);
+      const dateKey = toDateKey(date);
+      const inMonth = date.getMonth() === month;
+      if (!inMonth) return { date, dateKey, inMonth, closed: false, rows: [[], [], []] };
+
+      return {
+        date,
+        dateKey,
+        inMonth,
+        holiday: holidays[dateKey],
+        closed: isClosedDay(getRequiredShifts(date, coverageRules, holidays)),
+        rows: getDayRows(input, date),
+        noteNumber: noteNumbers.get(dateKey),
+      };
+    })
+  );
+}
+
+// 依寬度斷行；中文可在任意字元間斷開，保留原有的換行
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  return text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const char of paragraph) {
+      if (line !== '' && measure(line + char) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+    lines.push(line);
+    return lines;
+  });
+}
+
+// 超過寬度時截斷並加上省略號
+export function fitText(text: string, maxWidth: number, measure: (text: string) => number): string {
+  if (measure(text) <= maxWidth) return text;
+  const chars = [...text];
+  while (chars.length > 0 && measure(`${chars.join('')}…`) > maxWidth) chars.pop();
+  return `${chars.join('')}…`;
+}
+
+interface LayoutSpec {
+  width: number;
+  height?: number; // 固定高度（A4），格子高度依剩餘空間計算
+  cellHeight: number;
+  padding: number;
+  fontScale: number;
+  highlightToday: boolean;
+  blockAlpha: string; // 藥師色塊底色的透明度
+}
+
+// A4 橫向約 150 dpi
+const LAYOUTS: Record<CalendarLayout, LayoutSpec> = {
+  screen: {
+    width: 1300,
+    cellHeight: 140,
+    padding: 20,
+    fontScale: 1,
+    highlightToday: true,
+    blockAlpha: '33',
+  },
+  a4: {
+    width: 1754,
+    height: 1240,
+    cellHeight: 90,
+    padding: 60,
+    fontScale: 1.1,
+    highlightToday: false,
+    blockAlpha: '1a',
+  },
+};
+
+const FONT_FAMILY = 'Arial, sans-serif';
+const TITLE_HEIGHT = 60;
+const HEADER_HEIGHT = 50;
+const SECTION_GAP = 16;
+
+interface LegendItem {
+  text: string;
+  color: string;
+  swatch: 'filled' | 'outline' | 'none';
+}
+
+// 月曆下方的圖例：藥師顏色、假日標示與班別時間
+const getLegendItems = ({
+  roster,
+  shiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+}: CalendarRenderInput): LegendItem[] => [
+  ...roster.map(p => ({
+    text: p.label === p.name ? p.name : `${p.label} ${p.name}`,
+    color: p.color,
+    swatch: 'filled' as const,
+  })),
+  { text: '國定假日', color: '#c2410c', swatch: 'outline' },
+  { text: '補班日', color: '#1d4ed8', swatch: 'outline' },
+  ...describeShiftDefinitions(shiftDefinitions).map(text => ({
+    text,
+    color: '#4b5563',
+    swatch: 'none' as const,
+  })),
+];
+
+// 將圖例項目依寬度排成數列
+const flowLegend = (
+  items: LegendItem[],
+  maxWidth: number,
+  itemWidth: (item: LegendItem) => number
+): LegendItem[][] => {
+  const rows: LegendItem[][] = [[]];
+  let used = 0;
+  items.forEach(item => {
+    const width = itemWidth(item);
+    if (used > 0 && used + width > maxWidth) {
+      rows.push([]);
+      used = 0;
+    }
+    rows[rows.length - 1].push(item);
+    used += width;
+  });
+  return rows;
+};
+
+// 在畫布上繪製整個月曆，畫布大小依版面與內容決定
+export function renderMonthCalendar(
+  canvas: HTMLCanvasElement,
+  input: CalendarRenderInput,
+  layout: CalendarLayout = 'screen'
+): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('無法建立畫布');
+
+  const spec = LAYOUTS[layout];
+  const font = (size: number, bold = false) =>
+    `${bold ? 'bold ' : ''}${Math.round(size * spec.fontScale)}px ${FONT_FAMILY}`;
+  const measureWith = (fontSpec: string) => (text: string) => {
+    ctx.font = fontSpec;
+    return ctx.measureText(text).width;
+  };
+
+  const { currentMonth, today } = input;
+  const weeks = buildCalendarWeeks(input);
+  const contentWidth = spec.width - spec.padding * 2;
+  const cellWidth = contentWidth / 7;
+
+  // 先量測圖例與備註需要的高度
+  const legendFont = font(14);
+  const legendLineHeight = Math.round(24 * spec.fontScale);
+  const swatch = Math.round(14 * spec.fontScale);
+  const measureLegend = measureWith(legendFont);
+  const legendItemWidth = (item: LegendItem) =>
+    (item.swatch === 'none' ? 0 : swatch + 6) + measureLegend(item.text) + 20;
+  const legendRows = flowLegend(getLegendItems(input), contentWidth, legendItemWidth);
+  const legendHeight = legendRows.length * legendLineHeight;
+
+  const noteFont = font(14);
+  const noteLineHeight = Math.round(22 * spec.fontScale);
+  const measureNote = measureWith(noteFont);
+  const noteLines = getCalendarNotes(input).flatMap(note => {
+    const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), Number(note.dateKey.slice(8)));
+    const prefix = `※${note.number} ${date.getMonth() + 1}/${date.getDate()}（${getDayName(date)}）`;
+    const indent = measureNote(`${prefix} `);
+    const [first, ...rest] = wrapText(note.text, contentWidth - indent, measureNote);
+    return [
+      { prefix, text: first, indent },
+      ...rest.map(text => ({ prefix: '', text, indent })),
+    ];
+  });
+  const notesHeight = noteLines.length > 0 ? noteLineHeight * (noteLines.length + 1) : 0;
+
+  const fixedHeight =
+    spec.padding * 2 + TITLE_HEIGHT + HEADER_HEIGHT + SECTION_GAP + legendHeight +
+    (notesHeight > 0 ? SECTION_GAP + notesHeight : 0);
+  // A4 版面讓格子填滿一頁；備註太多時頁面會加長，輸出 PDF 時再縮放
+  const cellHeight = spec.height
+    ? Math.max(spec.cellHeight, (spec.height - fixedHeight) / weeks.length)
+    : spec.cellHeight;
+  const calendarHeight = cellHeight * weeks.length;
+
+  // 調整畫布大小會重設繪圖狀態，之後才開始繪製
+  canvas.width = spec.width;
+  canvas.height = Math.ceil(fixedHeight + calendarHeight);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // 標題
+  ctx.fillStyle = '#1e40af';
+  ctx.font = font(28, true);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(
+    `${currentMonth.getFullYear()}年 ${currentMonth.getMonth() + 1}月 排班表`,
+    spec.width / 2,
+    spec.padding + TITLE_HEIGHT / 2
+  );
+
+  // 星期標題
+  const headerY = spec.padding + TITLE_HEIGHT;
+  ctx.fillStyle = '#f8fafc';
+  ctx.fillRect(spec.padding, headerY, contentWidth, HEADER_HEIGHT);
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(spec.padding, headerY, contentWidth, HEADER_HEIGHT);
+  ctx.font = font(18, true);
+  WEEK_DAYS.forEach((day, index) => {
+    ctx.fillStyle = index === 0 || index === 6 ? '#dc2626' : '#1f2937';
+    ctx.fillText(day, spec.padding + cellWidth * (index + 0.5), headerY + HEADER_HEIGHT / 2);
+  });
+
+  // 月曆格子
+  const gridY = headerY + HEADER_HEIGHT;
+  weeks.forEach((week, weekIndex) => {
+    week.forEach((day, dayOfWeek) => {
+      const x = spec.padding + cellWidth * dayOfWeek;
+      const y = gridY + cellHeight * weekIndex;
+      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+      const isNationalHoliday = day.holiday?.kind === 'holiday';
+      const isToday =
+        spec.highlightToday && day.inMonth && today !== undefined && toDateKey(today) === day.dateKey;
+
+      ctx.fillStyle = !day.inMonth
+        ? '#f8fafc'
+        : isToday
+          ? '#fef3c7'
+          : isNationalHoliday
+            ? '#fff7ed'
+            : isWeekend
+              ? '#fef2f2'
+              : '#ffffff';
+      ctx.fillRect(x, y, cellWidth, cellHeight);
+      ctx.strokeStyle = '#e2e8f0';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x, y, cellWidth, cellHeight);
+
+      // 日期
+      ctx.textBaseline = 'alphabetic';
+      ctx.textAlign = 'left';
+      ctx.font = isToday ? font(16, true) : font(14);
+      ctx.fillStyle = !day.inMonth
+        ? '#9ca3af'
+        : isWeekend || isNationalHoliday
+          ? '#dc2626'
+          : '#1f2937';
+      const dateText = String(day.date.getDate());
+      ctx.fillText(dateText, x + 8, y + 20);
+      if (!day.inMonth) return;
+
+      // 假日名稱（國定假日為橘色、補班為藍色），過長時截斷
+      if (day.holiday) {
+        const dateWidth = ctx.measureText(dateText).width;
+        const holidayFont = font(12);
+        ctx.font = holidayFont;
+        ctx.fillStyle = day.holiday.kind === 'makeup' ? '#1d4ed8' : '#c2410c';
+        ctx.textAlign = 'right';
+        ctx.fillText(
+          fitText(day.holiday.name, cellWidth - dateWidth - 24, measureWith(holidayFont)),
+          x + cellWidth - 8,
+          y + 20
+        );
+      }
+
+      // 早、午、晚三列的藥師色塊
+      const footer = day.noteNumber !== undefined ? 18 * spec.fontScale : 0;
+      const rowHeight = (cellHeight - 36 - footer) / 3;
+      const rowWidth = cellWidth - 16;
+      day.rows.forEach((blocks, rowIndex) => {
+        if (blocks.length === 0) return;
+        const rowY = y + 28 + rowIndex * rowHeight + 1;
+        const blockHeight = rowHeight - 2;
+        // 只有一位藥師時只填滿左半邊
+        const blockWidth = blocks.length === 1 ? rowWidth / 2 : rowWidth / blocks.length;
+        const blockFont = font(Math.min(18, blockHeight * 0.6), true);
+
+        blocks.forEach((block, index) => {
+          const blockX = x + 8 + index * blockWidth;
+          ctx.fillStyle = `${block.color}${spec.blockAlpha}`;
+          ctx.fillRect(blockX, rowY, blockWidth, blockHeight);
+          ctx.strokeStyle = block.color;
+          ctx.lineWidth = 1;
+          ctx.strokeRect(blockX, rowY, blockWidth, blockHeight);
+
+          ctx.fillStyle = block.color;
+          ctx.font = blockFont;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(
+            fitText(block.text, blockWidth - 4, measureWith(blockFont)),
+            blockX + blockWidth / 2,
+            rowY + blockHeight / 2
+          );
+        });
+      });
+
+      // 依排班規則為公休日時，顯示公休
+      if (day.closed) {
+        ctx.fillStyle = '#dc2626';
+        ctx.font = font(14);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('公休', x + cellWidth / 2, y + cellHeight / 2);
+      }
+
+      // 備註編號，全文列在月曆下方
+      if (day.noteNumber !== undefined) {
+        ctx.fillStyle = '#ef4444';
+        ctx.font = font(13);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(`※${day.noteNumber} 備註`, x + 8, y + cellHeight - 8);
+      }
+    });
+  });
+
+  // 圖例
+  let cursorY = gridY + calendarHeight + SECTION_GAP;
+  ctx.font = legendFont;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  legendRows.forEach(row => {
+    let cursorX = spec.padding;
+    const centerY = cursorY + legendLineHeight / 2;
+    row.forEach(item => {
+      let textX = cursorX;
+      if (item.swatch !== 'none') {
+        const swatchY = centerY - swatch / 2;
+        if (item.swatch === 'filled') {
+          ctx.fillStyle = `${item.color}${spec.blockAlpha}`;
+          ctx.fillRect(cursorX, swatchY, swatch, swatch);
+        }
+        ctx.strokeStyle = item.color;
+        ctx.lineWidth = item.swatch === 'filled' ? 1 : 2;
+        ctx.strokeRect(cursorX, swatchY, swatch, swatch);
+        textX += swatch + 6;
+      }
+      ctx.fillStyle = item.swatch === 'filled' ? item.color : '#1f2937';
+      ctx.fillText(item.text, textX, centerY);
+      cursorX += legendItemWidth(item);
+    });
+    cursorY += legendLineHeight;
+  });
+
+  // 備註全文
+  if (noteLines.length > 0) {
+    cursorY += SECTION_GAP;
+    ctx.fillStyle = '#1f2937';
+    ctx.font = font(15, true);
+    ctx.fillText('備註', spec.padding, cursorY + noteLineHeight / 2);
+    cursorY += noteLineHeight;
+
+    ctx.font = noteFont;
+    noteLines.forEach(line => {
+      const centerY = cursorY + noteLineHeight / 2;
+      if (line.prefix) {
+        ctx.fillStyle = '#ef4444';
+        ctx.fillText(line.prefix, spec.padding, centerY);
+      }
+      ctx.fillStyle = '#1f2937';
+      ctx.fillText(line.text, spec.padding + line.indent, centerY);
+      cursorY += noteLineHeight;
+    });
+  }
+}
+
+// 建立並繪製月曆畫布
+export function createCalendarCanvas(
+  input: CalendarRenderInput,
+  layout: CalendarLayout = 'screen'
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  renderMonthCalendar(canvas, input, layout);
+  return canvas;
+}
+
+export const calendarImageFileName = (currentMonth: Date) =>
+  `藥師排班月曆_${currentMonth.getFullYear()}年${String(currentMonth.getMonth() + 1).padStart(2, '0')}月`;
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('無法生成圖片'))),
+      type,
+      quality
+    );
+  });
+
+// 輸出月曆：下載 PNG 或 PDF，或開啟列印視窗
+export async function exportCalendarImage(
+  output: CalendarImageOutput,
+  input: CalendarRenderInput
+): Promise<void> {
+  const canvas = createCalendarCanvas(input, CALENDAR_OUTPUT_LAYOUTS[output]);
+  const name = calendarImageFileName(input.currentMonth);
+
+  switch (output) {
+    case 'png':
+      downloadBlob(await canvasToBlob(canvas, 'image/png'), `${name}.png`);
+      break;
+    case 'pdf': {
+      const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+      const pdf = buildImagePdf({
+        data: new Uint8Array(await jpeg.arrayBuffer()),
+        width: canvas.width,
+        height: canvas.height,
+      });
+      downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `${name}.pdf`);
+      break;
+    }
+    case 'print':
+      // 列印視窗必須在點擊當下開啟，之前不可有非同步等待
+      if (!printImage(canvas.toDataURL('image/png'), name)) {
+        throw new Error('無法開啟列印視窗，請允許此網站開啟彈出式視窗');
+      }
+      break;
+  }
+}
@@ -0,0 +1,37 @@
+// 透過暫時的連結下載檔案
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// 在新視窗中以 A4 橫向列印圖片；視窗被瀏覽器封鎖時回傳 false
+export function printImage(dataUrl: string, title: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.title = title;
+  const style = printWindow.document.createElement('style');
+  style.textContent = [
+    '@page { size: A4 landscape; margin: 10mm; }',
+    'html, body { margin: 0; height: 100%; }',
+    'body { display: flex; align-items: center; justify-content: center; }',
+    'img { max-width: 100%; max-height: 100%; }',
+  ].join('\n');
+  printWindow.document.head.appendChild(style);
+
+  const image = printWindow.document.createElement('img');
+  image.onload = () => {
+    printWindow.focus();
+    printWindow.print();
+  };
+  image.src = dataUrl;
+  printWindow.document.body.appendChild(image);
+  return true;
+}
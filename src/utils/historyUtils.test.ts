@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { EditableState, Schedule } from "@/types/schedule";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { SHIFT_ORDER } from "./scheduleUtils";
+import {
+  HISTORY_MERGE_WINDOW_MS,
+  applyPatch,
+  createEmptyHistory,
+  createPatch,
+  getPatchMonths,
+  isEmptyPatch,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from "./historyUtils";
+
+const PHARMACISTS = createDefaultPharmacists();
+const NOW = new Date(2025, 0, 15, 9, 0, 0);
+
+const state = (overrides: Partial<EditableState> = {}): EditableState => ({
+  months: {},
+  pharmacists: PHARMACISTS,
+  archivedPharmacists: [],
+  schedule: {},
+  notes: {},
+  availability: {},
+  overtime: {},
+  fte: {},
+  ...overrides,
+});
+
+const prev = state({
+  months: { "2025-01": { status: "draft" } },
+  schedule: { "2025-01-02": { p1: ["早"] }, "2025-01-03": { p2: ["晚"] } },
+  notes: { "2025-01-02": "盤點" },
+  fte: { p4: 0.5 },
+});
+
+const next: Partial<EditableState> = {
+  schedule: { "2025-01-02": { p1: ["早", "午"] }, "2025-02-01": { p3: [] } },
+  notes: {},
+  pharmacists: PHARMACISTS.slice(0, 3),
+};
+
+describe("createPatch → applyPatch", () => {
+  const patch = createPatch(prev, next);
+
+  it("records only the keys that changed", () => {
+    expect(patch).toEqual({
+      schedule: {
+        "2025-01-02": { before: { p1: ["早"] }, after: { p1: ["早", "午"] } },
+        "2025-01-03": { before: { p2: ["晚"] }, after: undefined },
+        "2025-02-01": { before: undefined, after: { p3: [] } },
+      },
+      notes: { "2025-01-02": { before: "盤點", after: undefined } },
+      pharmacists: { before: PHARMACISTS, after: PHARMACISTS.slice(0, 3) },
+    });
+    expect(getPatchMonths(patch)).toEqual(["2025-01", "2025-02"]);
+  });
+
+  it("redoes to the edited state and undoes back to the original", () => {
+    const redone = { ...prev, ...applyPatch(prev, patch, "redo") };
+    expect(redone).toEqual({ ...prev, ...next });
+
+    const undone = { ...redone, ...applyPatch(redone, patch, "undo") };
+    expect(undone).toEqual(prev);
+  });
+
+  it("leaves keys changed by other edits alone", () => {
+    const redone = { ...prev, ...applyPatch(prev, patch, "redo") };
+    const edited = {
+      ...redone,
+      schedule: { ...redone.schedule, "2025-01-10": { p4: ["午" as const] } },
+    };
+
+    expect(applyPatch(edited, patch, "undo").schedule).toEqual({
+      ...prev.schedule,
+      "2025-01-10": { p4: ["午"] },
+    });
+  });
+
+  it("treats unchanged data as an empty patch", () => {
+    expect(isEmptyPatch(createPatch(prev, { schedule: { ...prev.schedule }, fte: { p4: 0.5 } }))).toBe(true);
+  });
+
+  it("round-trips random schedules", () => {
+    const days = Array.from({ length: 10 }, (_, i) => `2025-01-${String(i + 1).padStart(2, "0")}`);
+    const scheduleArbitrary = fc
+      .dictionary(
+        fc.constantFrom(...days),
+        fc.dictionary(
+          fc.constantFrom(...PHARMACISTS.map((p) => p.id)),
+          fc.subarray(SHIFT_ORDER)
+        )
+      )
+      .map((schedule) => schedule as Schedule);
+
+    fc.assert(
+      fc.property(scheduleArbitrary, scheduleArbitrary, (before, after) => {
+        const from = state({ schedule: before });
+        const patch = createPatch(from, { schedule: after });
+        const redone = { ...from, ...applyPatch(from, patch, "redo") };
+
+        expect(redone.schedule).toEqual(after);
+        expect({ ...redone, ...applyPatch(redone, patch, "undo") }).toEqual(from);
+      })
+    );
+  });
+});
+
+describe("edit history", () => {
+  const entry = (label: string, mergeKey?: string) => ({
+    label,
+    mergeKey,
+    patch: createPatch(prev, { notes: { "2025-01-02": label } }),
+  });
+
+  it("moves entries between undo and redo", () => {
+    const history = pushHistory(pushHistory(createEmptyHistory(), entry("a"), NOW), entry("b"), NOW);
+
+    const undone = undoHistory(history)!;
+    expect(undone.entry.label).toBe("b");
+    const redone = redoHistory(undone.history)!;
+    expect(redone.entry.label).toBe("b");
+    expect(redone.history).toEqual(history);
+    expect(undoHistory(createEmptyHistory())).toBeNull();
+    expect(redoHistory(history)).toBeNull();
+  });
+
+  it("clears redo after a new edit", () => {
+    const history = pushHistory(createEmptyHistory(), entry("a"), NOW);
+    const undone = undoHistory(history)!.history;
+
+    expect(pushHistory(undone, entry("b"), NOW).future).toEqual([]);
+  });
+
+  it("merges quick edits with the same key so one undo restores the original", () => {
+    const first = createPatch(prev, { notes: { "2025-01-02": "盤" } });
+    const typed = { ...prev, notes: { "2025-01-02": "盤" } };
+    const second = createPatch(typed, { notes: { "2025-01-02": "盤點改期" } });
+
+    let history = pushHistory(createEmptyHistory(), { label: "備註", mergeKey: "note", patch: first }, NOW);
+    history = pushHistory(
+      history,
+      { label: "備註", mergeKey: "note", patch: second },
+      new Date(NOW.getTime() + HISTORY_MERGE_WINDOW_MS)
+    );
+    expect(history.past).toHaveLength(1);
+
+    const latest = { ...typed, notes: { "2025-01-02": "盤點改期" } };
+    const { entry: merged } = undoHistory(history)!;
+    expect({ ...latest, ...applyPatch(latest, merged.patch, "undo") }).toEqual(prev);
+  });
+
+  it("keeps edits apart once the merge window has passed", () => {
+    let history = pushHistory(createEmptyHistory(), entry("a", "note"), NOW);
+    history = pushHistory(
+      history,
+      entry("b", "note"),
+      new Date(NOW.getTime() + HISTORY_MERGE_WINDOW_MS + 1)
+    );
+
+    expect(history.past.map((e) => e.label)).toEqual(["a", "b"]);
+  });
+});
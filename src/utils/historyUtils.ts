@@ -0,0 +1,183 @@
+import { EditableState, EditHistory, HistoryEntry, HistoryPatch, ValueChange } from '@/types/schedule';
+
+// 保留的編輯記錄筆數上限，避免自動存檔過大；復原與重做只在兩個列表間移動，合計不會超過上限
+export const HISTORY_LIMIT = 100;
+
+// 相同 mergeKey 的連續編輯在此時間內合併為一筆
+export const HISTORY_MERGE_WINDOW_MS = 5000;
+
+// 以鍵值組成的資料逐鍵記錄差異，其他編輯（例如調整工時比例、鎖定月份）改到的鍵不受復原影響
+type KeyedField = 'months' | 'schedule' | 'notes' | 'availability' | 'overtime' | 'fte';
+type ValueField = 'pharmacists' | 'archivedPharmacists';
+
+const KEYED_FIELDS: KeyedField[] = ['months', 'schedule', 'notes', 'availability', 'overtime', 'fte'];
+const DATE_KEYED_FIELDS: KeyedField[] = ['schedule', 'notes', 'availability', 'overtime'];
+const VALUE_FIELDS: ValueField[] = ['pharmacists', 'archivedPharmacists'];
+
+type KeyedPatch<T> = { [key: string]: ValueChange<T> };
+
+export function createEmptyHistory(): EditHistory {
+  return { past: [], future: [] };
+}
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// 比較兩份以鍵值組成的資料，只記錄有變動的鍵
+const diffKeyed = <T>(
+  before: Record<string, T>,
+  after: Record<string, T>
+): KeyedPatch<T> | undefined => {
+  const patch: KeyedPatch<T> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (!isSame(before[key], after[key])) {
+      patch[key] = { before: before[key], after: after[key] };
+    }
+  });
+  return Object.keys(patch).length > 0 ? patch : undefined;
+};
+
+// 計算編輯前後的差異；next 只需包含有變更的欄位
+export function createPatch(prev: EditableState, next: Partial<EditableState>): HistoryPatch {
+  const patch: HistoryPatch = {};
+
+  KEYED_FIELDS.forEach(field => {
+    if (next[field] === undefined) return;
+    const change = diffKeyed<unknown>(prev[field], next[field]);
+    if (change) (patch as Record<KeyedField, KeyedPatch<unknown>>)[field] = change;
+  });
+
+  VALUE_FIELDS.forEach(field => {
+    if (next[field] === undefined || isSame(prev[field], next[field])) return;
+    (patch as Record<ValueField, ValueChange<unknown>>)[field] = {
+      before: prev[field],
+      after: next[field],
+    };
+  });
+
+  return patch;
+}
+
+export function isEmptyPatch(patch: HistoryPatch): boolean {
+  return Object.keys(patch).length === 0;
+}
+
+// 將差異套用到目前的資料；undo 時還原為 before，redo 時改為 after
+export function applyPatch(
+  state: EditableState,
+  patch: HistoryPatch,
+  direction: 'undo' | 'redo'
+): Partial<EditableState> {
+  const pick = <T>(change: ValueChange<T>) => (direction === 'undo' ? change.before : change.after);
+  const result: Partial<EditableState> = {};
+
+  KEYED_FIELDS.forEach(field => {
+    const changes = patch[field] as KeyedPatch<unknown> | undefined;
+    if (!changes) return;
+    const updated: Record<string, unknown> = { ...state[field] };
+    Object.entries(changes).forEach(([key, change]) => {
+      const value = pick(change);
+      if (value === undefined) {
+        delete updated[key];
+      } else {
+        updated[key] = value;
+      }
+    });
+    (result as Record<KeyedField, unknown>)[field] = updated;
+  });
+
+  VALUE_FIELDS.forEach(field => {
+    const change = patch[field] as ValueChange<unknown> | undefined;
+    if (change) (result as Record<ValueField, unknown>)[field] = pick(change);
+  });
+
+  return result;
+}
+
+// 差異涉及的月份（YYYY-MM），用來檢查月份是否已鎖定
+export function getPatchMonths(patch: HistoryPatch): string[] {
+  const months = new Set<string>();
+  DATE_KEYED_FIELDS.forEach(field => {
+    Object.keys(patch[field] ?? {}).forEach(dateKey => months.add(dateKey.slice(0, 7)));
+  });
+  return [...months].sort();
+}
+
+// 合併兩筆連續的差異：保留較早的 before 與較晚的 after
+const mergePatches = (earlier: HistoryPatch, later: HistoryPatch): HistoryPatch => {
+  const merged: HistoryPatch = { ...earlier };
+
+  KEYED_FIELDS.forEach(field => {
+    const laterChanges = later[field] as KeyedPatch<unknown> | undefined;
+    if (!laterChanges) return;
+    const changes: KeyedPatch<unknown> = { ...(earlier[field] as KeyedPatch<unknown>) };
+    Object.entries(laterChanges).forEach(([key, change]) => {
+      changes[key] = key in changes ? { before: changes[key].before, after: change.after } : change;
+    });
+    (merged as Record<KeyedField, KeyedPatch<unknown>>)[field] = changes;
+  });
+
+  VALUE_FIELDS.forEach(field => {
+    const laterChange = later[field] as ValueChange<unknown> | undefined;
+    if (!laterChange) return;
+    const earlierChange = earlier[field] as ValueChange<unknown> | undefined;
+    (merged as Record<ValueField, ValueChange<unknown>>)[field] = earlierChange
+      ? { before: earlierChange.before, after: laterChange.after }
+      : laterChange;
+  });
+
+  return merged;
+};
+
+// 新增一筆編輯記錄：清除可重做的記錄，並視需要與上一筆合併
+export function pushHistory(
+  history: EditHistory,
+  entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+  now: Date = new Date()
+): EditHistory {
+  const last = history.past[history.past.length - 1];
+  const canMerge =
+    entry.mergeKey !== undefined &&
+    last?.mergeKey === entry.mergeKey &&
+    history.future.length === 0 &&
+    now.getTime() - new Date(last.timestamp).getTime() <= HISTORY_MERGE_WINDOW_MS;
+
+  if (canMerge) {
+    return {
+      past: [
+        ...history.past.slice(0, -1),
+        { ...last, label: entry.label, timestamp: now.toISOString(), patch: mergePatches(last.patch, entry.patch) },
+      ],
+      future: [],
+    };
+  }
+
+  const newEntry: HistoryEntry = {
+    ...entry,
+    id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    timestamp: now.toISOString(),
+  };
+  return {
+    past: [...history.past, newEntry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+// 復原最近一筆記錄，沒有可復原的記錄時回傳 null
+export function undoHistory(history: EditHistory): { history: EditHistory; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    entry,
+  };
+}
+
+// 重做最近一筆復原的記錄，沒有可重做的記錄時回傳 null
+export function redoHistory(history: EditHistory): { history: EditHistory; entry: HistoryEntry } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    entry,
+  };
+}
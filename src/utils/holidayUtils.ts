@@ -0,0 +1,138 @@
+import { HolidayListFileSchema } from '@/schemas/saveData';
+import { Holiday, HolidayCalendar } from '@/types/schedule';
+import taiwan2025 from '@/data/holidays/tw-2025.json';
+import { addDays } from './calendarDate';
+
+// 補班日預設套用週五的排班規則（一般平日人力）
+export const DEFAULT_MAKEUP_RULES_OF = 5;
+
+export interface HolidayImportResult {
+  success: boolean;
+  holidays?: HolidayCalendar;
+  errors: string[];
+}
+
+// 內建的假日清單（離線可用）
+export const BUILT_IN_HOLIDAY_LISTS = [
+  { label: '2025 台灣國定假日', data: taiwan2025 },
+];
+
+// 依假日種類給出預設的排班覆寫方式
+export function createHoliday(name: string, kind: Holiday['kind']): Holiday {
+  return {
+    name,
+    kind,
+    rulesOf: kind === 'makeup' ? DEFAULT_MAKEUP_RULES_OF : null,
+  };
+}
+
+// 將假日清單檔案內容轉換為假日表
+export function parseHolidayJson(data: unknown): HolidayImportResult {
+  const result = HolidayListFileSchema.safeParse(data);
+
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.errors.map(err => {
+        const path = err.path.length > 0 ? `${err.path.join('.')}: ` : '';
+        return `${path}${err.message}`;
+      }),
+    };
+  }
+
+  const holidays: HolidayCalendar = {};
+  result.data.holidays.forEach(entry => {
+    const holiday = createHoliday(entry.name, entry.kind);
+    if (entry.rulesOf !== undefined) {
+      holiday.rulesOf = entry.rulesOf;
+    }
+    holidays[entry.date] = holiday;
+  });
+
+  return { success: true, holidays, errors: [] };
+}
+
+// 解析 ICS 日曆中的全天事件；標題含「補班」或「補行上班」者視為補班日
+export function parseHolidayIcs(text: string): HolidayImportResult {
+  // 還原 RFC 5545 的折行
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: HolidayCalendar = {};
+  let inEvent = false;
+  let start: string | null = null;
+  let end: string | null = null;
+  let summary = '';
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      inEvent = true;
+      start = null;
+      end = null;
+      summary = '';
+      return;
+    }
+
+    if (line === 'END:VEVENT') {
+      inEvent = false;
+      if (!start || !summary) return;
+
+      const kind = /補班|補行上班/.test(summary) ? 'makeup' : 'holiday';
+      const toKey = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+      const first = toKey(start);
+      // DTEND 為不含的結束日，沒有時視為單日事件
+      const last = end ? toKey(end) : addDays(first, 1);
+
+      for (let dateKey = first; dateKey < last; dateKey = addDays(dateKey, 1)) {
+        holidays[dateKey] = createHoliday(summary.slice(0, 50), kind);
+      }
+      return;
+    }
+
+    if (!inEvent) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === 'DTSTART' && /^\d{8}/.test(value)) {
+      start = value.slice(0, 8);
+    } else if (name === 'DTEND' && /^\d{8}/.test(value)) {
+      end = value.slice(0, 8);
+    } else if (name === 'SUMMARY') {
+      summary = value
+        .replace(/\\n/gi, ' ')
+        .replace(/\\([,;\\])/g, '$1')
+        .trim();
+    }
+  });
+
+  if (Object.keys(holidays).length === 0) {
+    return { success: false, errors: ['ICS 檔案中沒有找到任何全天事件'] };
+  }
+
+  return { success: true, holidays, errors: [] };
+}
+
+// 從檔案匯入假日清單（支援 JSON 與 ICS）
+export async function loadHolidayFile(file: File): Promise<HolidayImportResult> {
+  try {
+    const text = await file.text();
+
+    if (file.name.toLowerCase().endsWith('.ics')) {
+      return parseHolidayIcs(text);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { success: false, errors: ['檔案格式錯誤：無法解析 JSON'] };
+    }
+    return parseHolidayJson(data);
+  } catch (err) {
+    return {
+      success: false,
+      errors: [`匯入失敗: ${err instanceof Error ? err.message : '未知錯誤'}`],
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { buildOvertimeReport, buildOvertimeReportRows, OvertimeReportInput } from "./overtimeReport";
+
+const PHARMACISTS = createDefaultPharmacists();
+
+const input: OvertimeReportInput = {
+  currentMonth: new Date(2025, 0, 1),
+  roster: PHARMACISTS,
+  schedule: {
+    "2025-01-01": { p2: ["加"] },
+    "2025-01-03": { p1: ["晚", "加"], p2: ["早"] },
+    "2025-02-01": { p1: ["加"] },
+  },
+  overtime: {
+    "2025-01-03": {
+      p1: { hours: 1.5, reason: "盤點", period: "晚" },
+      // 沒有排「加」的格子不列入
+      p2: { hours: 2, reason: "" },
+    },
+  },
+  holidays: { "2025-01-01": { name: "元旦", kind: "holiday", rulesOf: null } },
+};
+
+describe("buildOvertimeReport", () => {
+  const report = buildOvertimeReport(input);
+
+  it("lists each 加 cell of the month in date order", () => {
+    expect(report.entries).toEqual([
+      {
+        dateKey: "2025-01-01",
+        pharmacistId: "p2",
+        start: "21:30",
+        end: "22:30",
+        hours: 1,
+        reason: "",
+        holidayName: "元旦",
+      },
+      {
+        dateKey: "2025-01-03",
+        pharmacistId: "p1",
+        start: "21:30",
+        end: "23:00",
+        hours: 1.5,
+        reason: "盤點",
+        period: "晚",
+      },
+    ]);
+  });
+
+  it("totals every pharmacist on the roster", () => {
+    expect(report.totals).toHaveLength(PHARMACISTS.length);
+    expect(report.totals.slice(0, 3)).toEqual([
+      { pharmacistId: "p1", sessions: 1, hours: 1.5 },
+      { pharmacistId: "p2", sessions: 1, hours: 1 },
+      { pharmacistId: "p3", sessions: 0, hours: 0 },
+    ]);
+    expect(report).toMatchObject({ totalSessions: 2, totalHours: 2.5 });
+  });
+});
+
+describe("buildOvertimeReportRows", () => {
+  it("writes the entries, then a total per pharmacist", () => {
+    const rows = buildOvertimeReportRows(input);
+
+    expect(rows[0]).toEqual(["日期", "星期", "藥師", "時間", "時數", "附掛時段", "事由"]);
+    expect(rows[2]).toEqual([
+      "2025-01-03",
+      "週五",
+      PHARMACISTS[0].name,
+      "21:30-23:00",
+      1.5,
+      "晚班後",
+      "盤點",
+    ]);
+    expect(rows[3]).toEqual([]);
+    expect(rows[rows.length - 1]).toEqual(["合計", 2, 2.5]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  HolidayCalendar,
+  OvertimeMap,
+  OvertimePeriod,
+  Pharmacist,
+  Schedule,
+  ShiftDefinitions,
+} from '@/types/schedule';
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  getDayName,
+  getDaysInMonth,
+  getOvertimeTime,
+  getShiftHours,
+} from './scheduleUtils';
+import { parseDateKey, toDateKey } from './calendarDate';
+
+// 每月加班報表：逐筆列出加班（時間、時數、事由），並依藥師加總
+
+export interface OvertimeReportInput {
+  currentMonth: Date;
+  roster: Pharmacist[];
+  schedule: Schedule;
+  overtime?: OvertimeMap;
+  holidays: HolidayCalendar;
+  shiftDefinitions?: ShiftDefinitions;
+}
+
+export interface OvertimeReportEntry {
+  dateKey: string;
+  pharmacistId: string;
+  start: string;
+  end: string;
+  hours: number;
+  reason: string;
+  period?: OvertimePeriod;
+  holidayName?: string;
+}
+
+export interface OvertimeReportTotal {
+  pharmacistId: string;
+  sessions: number;
+  hours: number;
+}
+
+export interface OvertimeReport {
+  entries: OvertimeReportEntry[];
+  // 名單中的每位藥師各一筆，沒有加班的為 0
+  totals: OvertimeReportTotal[];
+  totalSessions: number;
+  totalHours: number;
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+// 依日期、名單順序列出本月所有排了「加」的格子；沒有明細時依加班班別的時間計算
+export function buildOvertimeReport({
+  currentMonth,
+  roster,
+  schedule,
+  overtime = {},
+  holidays,
+  shiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+}: OvertimeReportInput): OvertimeReport {
+  const entries = getDaysInMonth(currentMonth).flatMap(day => {
+    const dateKey = toDateKey(day);
+    return roster
+      .filter(p => (schedule[dateKey]?.[p.id] ?? []).includes('加'))
+      .map((p): OvertimeReportEntry => {
+        const entry = overtime[dateKey]?.[p.id];
+        const time = getOvertimeTime(day, entry, shiftDefinitions, holidays);
+        return {
+          dateKey,
+          pharmacistId: p.id,
+          start: time.start,
+          end: time.end,
+          hours: round(getShiftHours(time)),
+          reason: entry?.reason ?? '',
+          ...(entry?.period && { period: entry.period }),
+          ...(holidays[dateKey] && { holidayName: holidays[dateKey].name }),
+        };
+      });
+  });
+
+  const totals = roster.map(p => {
+    const own = entries.filter(entry => entry.pharmacistId === p.id);
+    return {
+      pharmacistId: p.id,
+      sessions: own.length,
+      hours: round(own.reduce((sum, entry) => sum + entry.hours, 0)),
+    };
+  });
+
+  return {
+    entries,
+    totals,
+    totalSessions: entries.length,
+    totalHours: round(entries.reduce((sum, entry) => sum + entry.hours, 0)),
+  };
+}
+
+// 報表的表格內容：明細在前，空一列後為每位藥師的合計
+export function buildOvertimeReportRows(input: OvertimeReportInput): (string | number)[][] {
+  const report = buildOvertimeReport(input);
+  const names = new Map(input.roster.map(p => [p.id, p.name]));
+
+  return [
+    ['日期', '星期', '藥師', '時間', '時數', '附掛時段', '事由'],
+    ...report.entries.map(entry => {
+      const weekday = `週${getDayName(parseDateKey(entry.dateKey))}`;
+      return [
+        entry.dateKey,
+        entry.holidayName ? `${weekday}（${entry.holidayName}）` : weekday,
+        names.get(entry.pharmacistId) ?? entry.pharmacistId,
+        `${entry.start}-${entry.end}`,
+        entry.hours,
+        entry.period ? `${entry.period}班後` : '',
+        entry.reason,
+      ];
+    }),
+    [],
+    ['藥師', '加班次數', '加班工時'],
+    ...report.totals.map(total => [names.get(total.pharmacistId) ?? total.pharmacistId, total.sessions, total.hours]),
+    ['合計', report.totalSessions, report.totalHours],
+  ];
+}
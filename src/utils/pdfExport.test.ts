@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildImagePdf, getPdfPageSize } from "./pdfExport";
+
+const image = { data: new Uint8Array([0xff, 0xd8, 0x00, 0xff, 0xd9]), width: 1754, height: 1240 };
+const text = (pdf: Uint8Array) => new TextDecoder("latin1").decode(pdf);
+
+describe("buildImagePdf", () => {
+  const pdf = text(buildImagePdf(image));
+
+  it("uses a landscape A4 page for wide images", () => {
+    expect(getPdfPageSize(image)).toEqual([841.89, 595.28]);
+    expect(getPdfPageSize({ ...image, width: 100, height: 200 })).toEqual([595.28, 841.89]);
+    expect(pdf).toContain("/MediaBox [0 0 841.89 595.28]");
+  });
+
+  it("embeds the JPEG as is", () => {
+    expect(pdf).toContain("/Width 1754 /Height 1240");
+    expect(pdf).toContain("/Filter /DCTDecode /Length 5 >>\nstream\n\xff\xd8\x00\xff\xd9\nendstream");
+  });
+
+  it("points the cross-reference table at each object", () => {
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets).toHaveLength(5);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+  });
+});
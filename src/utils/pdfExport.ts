@@ -0,0 +1,92 @@
+// 以單張 JPEG 圖片產生一頁 A4 的 PDF（PDF 1.4），圖片依比例置中縮放
+
+// A4 的大小（pt）
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const PAGE_MARGIN = 28; // 約 1 公分
+
+export interface PdfImage {
+  data: Uint8Array; // JPEG 檔案內容
+  width: number; // 像素
+  height: number;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// 圖片較寬時使用橫向頁面
+export function getPdfPageSize({ width, height }: PdfImage): [number, number] {
+  return width > height ? [A4_HEIGHT, A4_WIDTH] : [A4_WIDTH, A4_HEIGHT];
+}
+
+export function buildImagePdf(image: PdfImage): Uint8Array {
+  const encoder = new TextEncoder();
+  const [pageWidth, pageHeight] = getPdfPageSize(image);
+  const scale = Math.min(
+    (pageWidth - PAGE_MARGIN * 2) / image.width,
+    (pageHeight - PAGE_MARGIN * 2) / image.height
+  );
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  const content = `q ${formatNumber(drawWidth)} 0 0 ${formatNumber(drawHeight)} ${formatNumber(
+    (pageWidth - drawWidth) / 2
+  )} ${formatNumber((pageHeight - drawHeight) / 2)} cm /Im1 Do Q`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(
+        pageHeight
+      )}] /Resources << /XObject << /Im1 4 0 R >> >> /Contents 5 0 R >>`,
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+      image.data,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ];
+
+  // 逐段寫入並記錄每個物件的位移，供交互參照表使用
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(
+    [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      'startxref',
+      String(xrefOffset),
+      '%%EOF',
+      '',
+    ].join('\n')
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+}
@@ -0,0 +1,142 @@
+import { ArchivedPharmacist, Pharmacist, Schedule } from '@/types/schedule';
+import { toMonthKey } from './calendarDate';
+import { SHIFT_ORDER } from './scheduleUtils';
+
+// 與存檔格式一致的名單上限
+export const MAX_PHARMACISTS = 20;
+
+// 新增藥師時依序配給的顏色
+export const PHARMACIST_COLORS = [
+  '#166534',
+  '#995c02',
+  '#621e69',
+  '#1e40af',
+  '#b91c1c',
+  '#0f766e',
+  '#c2410c',
+  '#4338ca',
+  '#be185d',
+  '#4d7c0f',
+];
+
+// 預設名單使用固定 id，避免伺服器與瀏覽器渲染結果不一致
+const DEFAULT_NAMES = ['邱', '黃', '李', '陳'];
+
+type PharmacistDateMap<T> = {
+  [dateKey: string]: { [pharmacistId: string]: T };
+};
+
+export function createDefaultPharmacists(): Pharmacist[] {
+  return DEFAULT_NAMES.map((name, index) => ({
+    id: `p${index + 1}`,
+    name,
+    label: name.charAt(0),
+    color: PHARMACIST_COLORS[index],
+  }));
+}
+
+// 建立新藥師：產生不重複的 id，並挑選目前最少人使用的顏色
+export function createPharmacist(name: string, existing: Pharmacist[]): Pharmacist {
+  const ids = new Set(existing.map(p => p.id));
+  let id: string;
+  do {
+    id = `p-${Math.random().toString(36).slice(2, 10)}`;
+  } while (ids.has(id));
+
+  const usage = PHARMACIST_COLORS.map(color => existing.filter(p => p.color === color).length);
+  const color = PHARMACIST_COLORS[usage.indexOf(Math.min(...usage))];
+
+  return { id, name, label: name.charAt(0), color };
+}
+
+// 依 id 取得顯示名稱，找不到時直接顯示 id
+export function getPharmacistName(pharmacists: Pharmacist[], id: string): string {
+  return pharmacists.find(p => p.id === id)?.name ?? id;
+}
+
+// 檢查姓名是否可用，可用時回傳 null；記錄以 id 區分，允許同名
+export function validatePharmacistName(name: string): string | null {
+  const trimmed = name.trim();
+  if (trimmed === '') return '藥師姓名不可為空';
+  if (trimmed.length > 10) return '藥師姓名不可超過10字';
+  return null;
+}
+
+// 指定月份要顯示的藥師：在職名單加上封存日不早於該月的封存藥師
+export function getRosterForMonth(
+  pharmacists: Pharmacist[],
+  archived: ArchivedPharmacist[],
+  currentMonth: Date
+): Pharmacist[] {
+  const monthStart = `${toMonthKey(currentMonth)}-01`;
+  const visibleArchived = archived.filter(entry => entry.archivedAt >= monthStart);
+
+  return [...pharmacists, ...visibleArchived];
+}
+
+// 移除某位藥師在指定日期（含）之後的資料；未指定日期時移除全部
+export function removePharmacistEntries<T>(
+  data: PharmacistDateMap<T>,
+  pharmacistId: string,
+  fromDateKey?: string
+): PharmacistDateMap<T> {
+  const result: PharmacistDateMap<T> = {};
+
+  Object.keys(data).forEach(dateKey => {
+    const { [pharmacistId]: removed, ...rest } = data[dateKey];
+    const shouldRemove = removed !== undefined && (!fromDateKey || dateKey >= fromDateKey);
+    result[dateKey] = shouldRemove ? rest : data[dateKey];
+  });
+
+  return result;
+}
+
+// 將某位藥師在指定日期（含）之後的班次轉給另一位藥師，與其原有班次合併
+export function reassignFutureShifts(
+  schedule: Schedule,
+  fromId: string,
+  toId: string,
+  fromDateKey: string
+): Schedule {
+  const result: Schedule = {};
+
+  Object.keys(schedule).forEach(dateKey => {
+    const daySchedule = schedule[dateKey];
+    const shifts = daySchedule[fromId];
+    if (!shifts || dateKey < fromDateKey) {
+      result[dateKey] = daySchedule;
+      return;
+    }
+
+    const rest = { ...daySchedule };
+    delete rest[fromId];
+    const merged = new Set([...(rest[toId] || []), ...shifts]);
+    result[dateKey] = {
+      ...rest,
+      [toId]: SHIFT_ORDER.filter(shift => merged.has(shift)),
+    };
+  });
+
+  return result;
+}
+
+// 合併兩份名單：以 id 判斷同一人，現有資料優先，新出現的藥師附加在後
+export function mergeRosters(
+  current: { pharmacists: Pharmacist[]; archived: ArchivedPharmacist[] },
+  incoming: { pharmacists: Pharmacist[]; archived: ArchivedPharmacist[] }
+): { pharmacists: Pharmacist[]; archived: ArchivedPharmacist[] } {
+  const known = new Set([...current.pharmacists, ...current.archived].map(p => p.id));
+  const pharmacists = [
+    ...current.pharmacists,
+    ...incoming.pharmacists.filter(p => !known.has(p.id)),
+  ];
+  const active = new Set(pharmacists.map(p => p.id));
+
+  return {
+    pharmacists,
+    archived: [
+      ...current.archived,
+      ...incoming.archived.filter(p => !known.has(p.id) && !active.has(p.id)),
+    ],
+  };
+}
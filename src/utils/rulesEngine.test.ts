@@ -0,0 +1,452 @@
+import { describe, expect, it } from "vitest";
+import { Pharmacist, Schedule, Shift } from "@/types/schedule";
+import { addDays, toDateKey } from "./calendarDate";
+import { getDaysInMonth } from "./scheduleUtils";
+import {
+  availabilityRule,
+  consecutiveDaysRule,
+  fairnessRules,
+  getFairnessTargets,
+  headcountRule,
+  maxPerPersonRule,
+  maxSessionsPerDayRule,
+  monthlyOvertimeRule,
+  overtimePeriodRule,
+  restIntervalRule,
+  validateSchedule,
+  weeklyHoursRule,
+  ScheduleInput,
+} from "./rulesEngine";
+
+// 2025 年 6 月：6/1 為週日，6/2 為週一
+const MONTH = new Date(2025, 5, 1);
+// 測試中以姓名作為 id，方便撰寫排班資料
+const PHARMACISTS: Pharmacist[] = ["邱", "黃", "李", "陳"].map((name) => ({
+  id: name,
+  name,
+  label: name,
+  color: "#000000",
+}));
+const key = (day: number) =>
+  toDateKey(new Date(2025, 5, day));
+
+const input = (
+  schedule: Schedule,
+  overrides: Partial<ScheduleInput> = {}
+): ScheduleInput => ({
+  currentMonth: MONTH,
+  pharmacists: PHARMACISTS,
+  schedule,
+  ...overrides,
+});
+
+const fairnessRule = (id: string) => fairnessRules.find((r) => r.id === id)!;
+
+// 讓每位藥師在整個月都有相同的班表，使公平性指標完全一致
+const uniformSchedule = (shifts: Shift[]): Schedule => {
+  const schedule: Schedule = {};
+  getDaysInMonth(MONTH).forEach((day) => {
+    const dateKey = toDateKey(day);
+    schedule[dateKey] = Object.fromEntries(
+      PHARMACISTS.map((p) => [p.id, [...shifts]])
+    );
+  });
+  return schedule;
+};
+
+describe("headcountRule", () => {
+  it("reports each period whose headcount differs from the requirement", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["早"], 黃: ["午"], 李: ["晚"] }, // 週二需要晚班 2 人
+    };
+    const violations = validateSchedule(input(schedule), {}, [headcountRule]);
+    const tuesday = violations.filter((v) => v.dateKey === key(3));
+
+    expect(tuesday).toHaveLength(1);
+    expect(tuesday[0]).toMatchObject({
+      ruleId: "headcount",
+      severity: "error",
+      period: "晚",
+      message: "6/3 晚班人數不符：需要2人，實際1人",
+    });
+  });
+
+  it("also reports overstaffed periods", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["早"], 黃: ["早", "午"], 李: ["晚"], 陳: ["晚"] },
+    };
+    const violations = validateSchedule(input(schedule), {}, [headcountRule]);
+
+    expect(violations.filter((v) => v.dateKey === key(3))).toEqual([
+      expect.objectContaining({ period: "早", message: expect.stringContaining("實際2人") }),
+    ]);
+  });
+
+  it("skips closed days", () => {
+    const violations = validateSchedule(input({}), {}, [headcountRule]);
+    expect(violations.some((v) => v.dateKey === key(1))).toBe(false);
+  });
+
+  it("uses holiday overrides and custom coverage rules", () => {
+    const holidays = {
+      [key(3)]: { name: "測試假日", kind: "holiday" as const, rulesOf: null },
+    };
+    const closedTuesday = validateSchedule(input({}, { holidays }), {}, [headcountRule]);
+    expect(closedTuesday.some((v) => v.dateKey === key(3))).toBe(false);
+
+    const coverageRules = Array.from({ length: 7 }, () => ({
+      morning: 0,
+      afternoon: 0,
+      evening: 1,
+    }));
+    const eveningOnly = validateSchedule(input({}, { coverageRules }), {}, [headcountRule]);
+    expect(eveningOnly.every((v) => v.period === "晚")).toBe(true);
+  });
+});
+
+describe("maxPerPersonRule", () => {
+  it("flags pharmacists above the Monday limit", () => {
+    const schedule: Schedule = { [key(2)]: { 邱: ["早", "午", "晚"], 黃: ["早", "午"] } };
+    const violations = validateSchedule(input(schedule), {}, [maxPerPersonRule]);
+
+    expect(violations).toEqual([
+      {
+        ruleId: "maxPerPerson",
+        severity: "error",
+        message: "6/2 邱超過週一最多2節限制",
+        dateKey: key(2),
+        pharmacist: "邱",
+      },
+    ]);
+  });
+
+  it("reports the display name while keying by id", () => {
+    const pharmacists = [{ id: "p1", name: "邱小明", label: "邱", color: "#000000" }];
+    const schedule: Schedule = { [key(2)]: { p1: ["早", "午", "晚"] } };
+    const violations = validateSchedule(input(schedule, { pharmacists }), {}, [
+      maxPerPersonRule,
+    ]);
+
+    expect(violations).toEqual([
+      expect.objectContaining({ pharmacist: "p1", message: "6/2 邱小明超過週一最多2節限制" }),
+    ]);
+  });
+
+  it("does not apply on days without a limit", () => {
+    const schedule: Schedule = { [key(3)]: { 邱: ["早", "午", "晚"] } };
+    expect(validateSchedule(input(schedule), {}, [maxPerPersonRule])).toEqual([]);
+  });
+});
+
+describe("availabilityRule", () => {
+  it("flags shifts that conflict with recorded leave", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["早"], 黃: ["早", "晚"], 李: ["早", "午"] },
+    };
+    const availability = {
+      [key(3)]: {
+        邱: "leave" as const,
+        黃: "noEvening" as const,
+        李: "morningOnly" as const,
+      },
+    };
+    const violations = validateSchedule(input(schedule, { availability }), {}, [
+      availabilityRule,
+    ]);
+
+    expect(violations.map((v) => v.message)).toEqual([
+      "6/3 邱已登記請假，不應排早班",
+      "6/3 黃已登記不上晚班，不應排晚班",
+      "6/3 李已登記只上早班，不應排午班",
+    ]);
+  });
+
+  it("accepts assignments compatible with the leave", () => {
+    const schedule: Schedule = { [key(3)]: { 黃: ["早", "午"], 李: ["早"] } };
+    const availability = {
+      [key(3)]: { 黃: "noEvening" as const, 李: "morningOnly" as const },
+    };
+    expect(
+      validateSchedule(input(schedule, { availability }), {}, [availabilityRule])
+    ).toEqual([]);
+  });
+});
+
+describe("fairnessRules", () => {
+  it("raises no warnings when everyone has the same stats", () => {
+    const schedule = uniformSchedule(["早", "晚"]);
+    expect(validateSchedule(input(schedule), {}, fairnessRules)).toEqual([]);
+  });
+
+  it.each([
+    ["fairness.holidays", "假期天數不平均"],
+    ["fairness.shifts", "上班節數不平均"],
+    ["fairness.mondayHolidays", "週一假期不平均"],
+    ["fairness.saturdayHolidays", "週六假期不平均"],
+  ])("%s warns about an outlier", (ruleId, suffix) => {
+    // 邱整個月休假，其他人每天上班
+    const schedule = uniformSchedule(["早"]);
+    Object.values(schedule).forEach((day) => {
+      day["邱"] = [];
+    });
+    const violations = validateSchedule(input(schedule), {}, [fairnessRule(ruleId)]);
+
+    expect(violations).toContainEqual({
+      ruleId,
+      severity: "warning",
+      message: `邱${suffix}`,
+      pharmacist: "邱",
+    });
+  });
+
+  it("fairness.morningEveningDays warns about an outlier", () => {
+    const schedule = uniformSchedule(["早"]);
+    Object.values(schedule).forEach((day) => {
+      day["邱"] = ["早", "晚"];
+    });
+    const violations = validateSchedule(input(schedule), {}, [
+      fairnessRule("fairness.morningEveningDays"),
+    ]);
+
+    expect(violations.map((v) => v.pharmacist)).toContain("邱");
+  });
+
+  it("averages over the actual roster size", () => {
+    // 三人團隊時，不在名單中的藥師不應拉低平均
+    const schedule = uniformSchedule(["早"]);
+    const violations = validateSchedule(
+      input(schedule, { pharmacists: PHARMACISTS.slice(0, 3) }),
+      {},
+      fairnessRules
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it("pro-rates targets by FTE", () => {
+    // 邱只上偶數日，約為其他人的一半
+    const schedule = uniformSchedule(["早"]);
+    Object.entries(schedule).forEach(([dateKey, day]) => {
+      if (Number(dateKey.slice(8)) % 2 === 1) day["邱"] = [];
+    });
+    const rules = [fairnessRule("fairness.holidays"), fairnessRule("fairness.shifts")];
+
+    expect(validateSchedule(input(schedule), {}, rules).length).toBeGreaterThan(0);
+    expect(validateSchedule(input(schedule, { fte: { 邱: 0.5 } }), {}, rules)).toEqual([]);
+  });
+});
+
+describe("getFairnessTargets", () => {
+  it("splits work metrics proportionally", () => {
+    expect(getFairnessTargets(30, [1, 1, 0.5, 0.5])).toEqual([10, 10, 5, 5]);
+  });
+
+  it("gives part-timers more rest days", () => {
+    // 10 個可休日，總上班天數 30，依 1:1:0.5:0.5 分配為 10/10/5/5
+    expect(getFairnessTargets(10, [1, 1, 0.5, 0.5], 10)).toEqual([0, 0, 5, 5]);
+  });
+
+  it("equals the plain average for a full-time team", () => {
+    expect(getFairnessTargets(9, [1, 1, 1])).toEqual([3, 3, 3]);
+    expect(getFairnessTargets(9, [1, 1, 1], 8)).toEqual([3, 3, 3]);
+  });
+});
+
+describe("restIntervalRule", () => {
+  it("flags less than 11 hours between the last shift and the next morning", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["晚", "加"], 黃: ["晚"] }, // 22:30 / 21:30 下班
+      [key(4)]: { 邱: ["早"], 黃: ["早"] }, // 08:30 上班
+    };
+    const violations = validateSchedule(input(schedule), {}, [restIntervalRule]);
+
+    expect(violations).toEqual([
+      {
+        ruleId: "labour.restInterval",
+        severity: "error",
+        message: "6/4 邱與前一天的班只間隔10小時，少於11小時",
+        dateKey: key(4),
+        pharmacist: "邱",
+      },
+    ]);
+  });
+
+  it("looks into the previous and next month", () => {
+    const schedule: Schedule = {
+      "2025-05-31": { 邱: ["加"] },
+      [key(1)]: { 邱: ["早"] },
+      [key(30)]: { 黃: ["加"] },
+      "2025-07-01": { 黃: ["早"] },
+    };
+    const violations = validateSchedule(input(schedule), {}, [restIntervalRule]);
+
+    expect(violations.map((v) => [v.dateKey, v.pharmacist])).toEqual([
+      [key(1), "邱"],
+      ["2025-07-01", "黃"],
+    ]);
+  });
+
+  it("ends overtime attached to a period after that period", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["早", "加"] },
+      [key(4)]: { 邱: ["早"] },
+    };
+    expect(validateSchedule(input(schedule), {}, [restIntervalRule])).toHaveLength(1);
+
+    const overtime = { [key(3)]: { 邱: { hours: 2, reason: "盤點", period: "早" as const } } };
+    expect(validateSchedule(input(schedule, { overtime }), {}, [restIntervalRule])).toEqual([]);
+  });
+});
+
+describe("consecutiveDaysRule", () => {
+  const workDays = (from: string, count: number): Schedule =>
+    Object.fromEntries(
+      Array.from({ length: count }, (_, i) => [addDays(from, i), { 邱: ["早"] as Shift[] }])
+    );
+
+  it("allows six consecutive working days", () => {
+    expect(validateSchedule(input(workDays(key(2), 6)), {}, [consecutiveDaysRule])).toEqual([]);
+  });
+
+  it("reports each run longer than six days once", () => {
+    const violations = validateSchedule(input(workDays(key(2), 9)), {}, [consecutiveDaysRule]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      message: "邱自 6/2 起連續上班9天，超過6天",
+      dateKey: key(8),
+    });
+  });
+
+  it("counts runs that start in the previous month", () => {
+    const violations = validateSchedule(input(workDays("2025-05-27", 8)), {}, [consecutiveDaysRule]);
+
+    expect(violations[0]).toMatchObject({
+      message: "邱自 5/27 起連續上班8天，超過6天",
+      dateKey: key(2),
+    });
+  });
+
+  it("notes runs that continue into the next month", () => {
+    const violations = validateSchedule(input(workDays(key(22), 12)), {}, [consecutiveDaysRule]);
+
+    expect(violations[0].message).toBe("邱自 6/22 起連續上班12天，超過6天（延續到下個月）");
+  });
+
+  it("leaves runs that only exceed the limit next month to that month", () => {
+    expect(validateSchedule(input(workDays(key(25), 10)), {}, [consecutiveDaysRule])).toEqual([]);
+  });
+});
+
+describe("monthlyOvertimeRule", () => {
+  it("flags overtime above the monthly cap", () => {
+    const schedule = uniformSchedule(["加"]); // 每天 1 小時，共 30 小時
+    expect(validateSchedule(input(schedule), {}, [monthlyOvertimeRule])).toEqual([]);
+
+    const strict = validateSchedule(
+      input(schedule),
+      { "labour.monthlyOvertime": { params: { maxHours: 20 } } },
+      [monthlyOvertimeRule]
+    );
+    expect(strict).toHaveLength(PHARMACISTS.length);
+    expect(strict[0].message).toBe("邱本月加班30小時，超過20小時上限");
+  });
+});
+
+describe("weeklyHoursRule", () => {
+  // 每天早、午班共 8 小時
+  const workDays = (from: string, count: number): Schedule =>
+    Object.fromEntries(
+      Array.from({ length: count }, (_, i) => [addDays(from, i), { 邱: ["早", "午"] }])
+    );
+
+  it("flags weeks above the configured maximum", () => {
+    const schedule = workDays(key(2), 6); // 6/2（週一）起 48 小時
+    expect(validateSchedule(input(schedule), {}, [weeklyHoursRule])).toEqual([]);
+
+    const strict = validateSchedule(
+      input(schedule),
+      { "labour.weeklyHours": { params: { maxHours: 40 } } },
+      [weeklyHoursRule]
+    );
+    expect(strict).toHaveLength(1);
+    expect(strict[0]).toMatchObject({ pharmacist: "邱", severity: "error" });
+    expect(strict[0].message).toBe("邱 6/2 起的一週工作48小時，超過40小時上限");
+  });
+
+  it("includes the next month's days of the last week", () => {
+    const schedule = workDays(key(30), 6); // 6/30（週一）到 7/5
+    const violations = validateSchedule(
+      input(schedule),
+      { "labour.weeklyHours": { params: { maxHours: 40 } } },
+      [weeklyHoursRule]
+    );
+
+    expect(violations.map((v) => v.message)).toEqual([
+      "邱 6/30 起的一週工作48小時，超過40小時上限",
+    ]);
+  });
+});
+
+describe("maxSessionsPerDayRule", () => {
+  it("limits sessions on every day of the week", () => {
+    const schedule: Schedule = {
+      [key(4)]: { 邱: ["早", "午", "晚", "加"], 黃: ["早", "午", "晚"] },
+    };
+    const violations = validateSchedule(input(schedule), {}, [maxSessionsPerDayRule]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ dateKey: key(4), pharmacist: "邱" });
+  });
+});
+
+describe("overtimePeriodRule", () => {
+  it("warns when overtime is attached to a period that is not worked", () => {
+    const schedule: Schedule = {
+      [key(3)]: { 邱: ["早", "加"], 黃: ["晚", "加"], 李: ["加"] },
+    };
+    const overtime = {
+      [key(3)]: {
+        邱: { hours: 1, reason: "", period: "晚" as const },
+        黃: { hours: 1, reason: "", period: "晚" as const },
+        李: { hours: 1, reason: "" },
+      },
+    };
+    const violations = validateSchedule(input(schedule, { overtime }), {}, [overtimePeriodRule]);
+
+    expect(violations).toEqual([
+      {
+        ruleId: "overtimePeriod",
+        severity: "warning",
+        message: "6/3 邱的加班接在晚班之後，但當天沒有排晚班",
+        dateKey: key(3),
+        pharmacist: "邱",
+        period: "晚",
+      },
+    ]);
+  });
+});
+
+describe("validateSchedule", () => {
+  it("runs every rule by default", () => {
+    const ruleIds = new Set(validateSchedule(input({})).map((v) => v.ruleId));
+    expect(ruleIds.has("headcount")).toBe(true);
+  });
+
+  it("skips disabled rules", () => {
+    const violations = validateSchedule(input({}), { headcount: { enabled: false } });
+    expect(violations.some((v) => v.ruleId === "headcount")).toBe(false);
+  });
+
+  it("merges parameters over the rule defaults", () => {
+    const schedule = uniformSchedule(["早"]);
+    Object.values(schedule).forEach((day) => {
+      day["邱"] = [];
+    });
+    const loose = validateSchedule(
+      input(schedule),
+      { "fairness.holidays": { params: { tolerance: 100 } } },
+      [fairnessRule("fairness.holidays")]
+    );
+    expect(loose).toEqual([]);
+  });
+});
@@ -0,0 +1,495 @@
+import {
+  AvailabilityMap,
+  CoverageRules,
+  HolidayCalendar,
+  OvertimeMap,
+  Pharmacist,
+  PharmacistFte,
+  PharmacistStatKey,
+  PharmacistStats,
+  Schedule,
+  Shift,
+  ShiftDefinitions,
+  Violation,
+  ViolationRuleId,
+} from '@/types/schedule';
+import {
+  AVAILABILITY_LABELS,
+  DEFAULT_COVERAGE_RULES,
+  DEFAULT_SHIFT_DEFINITIONS,
+  calculateStats,
+  getAvailabilityConflicts,
+  getDayName,
+  getDaysInMonth,
+  getRequiredShifts,
+  getSessionCount,
+  getShiftInterval,
+  isClosedDay,
+} from './scheduleUtils';
+import { addDays, parseDateKey, toDateKey } from './calendarDate';
+
+// 規則檢查時可用的資料
+export interface RuleContext {
+  currentMonth: Date;
+  days: Date[];
+  pharmacists: Pharmacist[];
+  // 整個工作區的排班（含相鄰月份），跨月規則可直接查詢 days 以外的日期
+  schedule: Schedule;
+  availability: AvailabilityMap;
+  overtime: OvertimeMap;
+  coverageRules: CoverageRules;
+  holidays: HolidayCalendar;
+  fte: PharmacistFte;
+  shiftDefinitions: ShiftDefinitions;
+  stats: { [pharmacistId: string]: PharmacistStats };
+}
+
+export type RuleParams = Record<string, number>;
+
+// 可插拔的排班規則
+export interface ScheduleRule {
+  id: ViolationRuleId;
+  name: string;
+  defaultParams: RuleParams;
+  // 參數在設定畫面上的名稱
+  paramLabels?: Record<string, string>;
+  check: (context: RuleContext, params: RuleParams) => Violation[];
+}
+
+export interface RuleSetting {
+  enabled?: boolean;
+  params?: RuleParams;
+}
+
+export type RuleConfig = Partial<Record<ViolationRuleId, RuleSetting>>;
+
+export interface ScheduleInput {
+  currentMonth: Date;
+  pharmacists: Pharmacist[];
+  schedule: Schedule;
+  availability?: AvailabilityMap;
+  overtime?: OvertimeMap;
+  coverageRules?: CoverageRules;
+  holidays?: HolidayCalendar;
+  fte?: PharmacistFte;
+  shiftDefinitions?: ShiftDefinitions;
+}
+
+const PERIOD_SHIFTS: { period: 'morning' | 'afternoon' | 'evening'; shift: Shift }[] = [
+  { period: 'morning', shift: '早' },
+  { period: 'afternoon', shift: '午' },
+  { period: 'evening', shift: '晚' },
+];
+
+const formatDay = (day: Date) => `${day.getMonth() + 1}/${day.getDate()}`;
+
+// 排班與請假登記衝突
+export const availabilityRule: ScheduleRule = {
+  id: 'availability',
+  name: '請假登記衝突',
+  defaultParams: {},
+  check: ({ days, pharmacists, schedule, availability }) => {
+    const violations: Violation[] = [];
+
+    days.forEach((day) => {
+      const dateKey = toDateKey(day);
+      const daySchedule = schedule[dateKey] || {};
+      const dayAvailability = availability[dateKey] || {};
+
+      pharmacists.forEach(({ id, name }) => {
+        const leave = dayAvailability[id];
+        const conflicts = getAvailabilityConflicts(daySchedule[id] || [], leave);
+        if (leave && conflicts.length > 0) {
+          violations.push({
+            ruleId: 'availability',
+            severity: 'error',
+            message: `${formatDay(day)} ${name}已登記${AVAILABILITY_LABELS[leave]}，不應排${conflicts.join('')}班`,
+            dateKey,
+            pharmacist: id,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+// 每個時段的人數需符合排班規則
+export const headcountRule: ScheduleRule = {
+  id: 'headcount',
+  name: '時段人數',
+  defaultParams: {},
+  check: ({ days, pharmacists, schedule, coverageRules, holidays }) => {
+    const violations: Violation[] = [];
+
+    days.forEach((day) => {
+      const dateKey = toDateKey(day);
+      const daySchedule = schedule[dateKey] || {};
+      const required = getRequiredShifts(day, coverageRules, holidays);
+
+      if (isClosedDay(required)) return; // 公休日跳過
+
+      PERIOD_SHIFTS.forEach(({ period, shift }) => {
+        const requiredCount = required[period];
+        if (requiredCount === 0) return;
+
+        const actualCount = pharmacists.filter((p) =>
+          (daySchedule[p.id] || []).includes(shift)
+        ).length;
+
+        if (actualCount !== requiredCount) {
+          violations.push({
+            ruleId: 'headcount',
+            severity: 'error',
+            message: `${formatDay(day)} ${shift}班人數不符：需要${requiredCount}人，實際${actualCount}人`,
+            dateKey,
+            period: shift,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+// 每人當日最多節數（例如週一最多兩節），加班不計入
+export const maxPerPersonRule: ScheduleRule = {
+  id: 'maxPerPerson',
+  name: '每人每日節數上限',
+  defaultParams: {},
+  check: ({ days, pharmacists, schedule, coverageRules, holidays }) => {
+    const violations: Violation[] = [];
+
+    days.forEach((day) => {
+      const dateKey = toDateKey(day);
+      const daySchedule = schedule[dateKey] || {};
+      const required = getRequiredShifts(day, coverageRules, holidays);
+      const { maxPerPerson } = required;
+
+      if (isClosedDay(required) || maxPerPerson === undefined) return;
+
+      pharmacists.forEach(({ id, name }) => {
+        if (getSessionCount(daySchedule[id] || []) > maxPerPerson) {
+          violations.push({
+            ruleId: 'maxPerPerson',
+            severity: 'error',
+            message: `${formatDay(day)} ${name}超過週${getDayName(day)}最多${maxPerPerson}節限制`,
+            dateKey,
+            pharmacist: id,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+// 加班附掛的時段必須有排班
+export const overtimePeriodRule: ScheduleRule = {
+  id: 'overtimePeriod',
+  name: '加班附掛時段',
+  defaultParams: {},
+  check: ({ days, pharmacists, schedule, overtime }) => {
+    const violations: Violation[] = [];
+
+    days.forEach((day) => {
+      const dateKey = toDateKey(day);
+      pharmacists.forEach(({ id, name }) => {
+        const shifts = schedule[dateKey]?.[id] ?? [];
+        const period = overtime[dateKey]?.[id]?.period;
+        if (!shifts.includes('加') || !period || shifts.includes(period)) return;
+        violations.push({
+          ruleId: 'overtimePeriod',
+          severity: 'warning',
+          message: `${formatDay(day)} ${name}的加班接在${period}班之後，但當天沒有排${period}班`,
+          dateKey,
+          pharmacist: id,
+          period,
+        });
+      });
+    });
+
+    return violations;
+  },
+};
+
+// 依約定工時比例計算每位藥師的目標值。
+// 工作類指標（班數等）按比例分配總量；休假類指標則先按比例分配上班天數，
+// 再以可休天數扣除，全職團隊時兩者都等於平均值。
+export const getFairnessTargets = (
+  total: number,
+  weights: number[],
+  restDayCount?: number
+): number[] => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return weights.map(() => 0);
+
+  if (restDayCount === undefined) {
+    return weights.map((w) => (total * w) / totalWeight);
+  }
+
+  const workTotal = restDayCount * weights.length - total;
+  return weights.map((w) => restDayCount - (workTotal * w) / totalWeight);
+};
+
+// 統計指標與目標值的差距不可超過容許值
+const createFairnessRule = (
+  id: ViolationRuleId,
+  metric: PharmacistStatKey,
+  label: string,
+  tolerance: number,
+  restDays?: (day: Date) => boolean
+): ScheduleRule => ({
+  id,
+  name: `${label}平均`,
+  defaultParams: { tolerance },
+  check: ({ days, pharmacists, stats, fte }, params) => {
+    const total = pharmacists.reduce((sum, p) => sum + stats[p.id][metric], 0);
+    const targets = getFairnessTargets(
+      total,
+      pharmacists.map((p) => fte[p.id] ?? 1),
+      restDays ? days.filter(restDays).length : undefined
+    );
+
+    return pharmacists
+      .filter((p, idx) => Math.abs(stats[p.id][metric] - targets[idx]) > params.tolerance)
+      .map((p) => ({
+        ruleId: id,
+        severity: 'warning' as const,
+        message: `${p.name}${label}不平均`,
+        pharmacist: p.id,
+      }));
+  },
+});
+
+export const fairnessRules: ScheduleRule[] = [
+  createFairnessRule('fairness.holidays', 'holidays', '假期天數', 2, () => true),
+  createFairnessRule('fairness.shifts', 'shifts', '上班節數', 3),
+  createFairnessRule('fairness.morningEveningDays', 'morningEveningDays', '早晚班天數', 1),
+  createFairnessRule('fairness.mondayHolidays', 'mondayHolidays', '週一假期', 1, (day) => day.getDay() === 1),
+  createFairnessRule('fairness.saturdayHolidays', 'saturdayHolidays', '週六假期', 1, (day) => day.getDay() === 6),
+];
+
+// 勞基法：輪班換班間隔至少 11 小時（第 34 條），與前一天最後一班的下班時間比較，跨月時查詢相鄰月份
+export const restIntervalRule: ScheduleRule = {
+  id: 'labour.restInterval',
+  name: '換班休息間隔',
+  defaultParams: { minRestHours: 11 },
+  paramLabels: { minRestHours: '最少小時' },
+  check: ({ days, pharmacists, schedule, overtime, holidays, shiftDefinitions }, params) => {
+    const violations: Violation[] = [];
+    const intervals = (dateKey: string, pharmacistId: string) =>
+      (schedule[dateKey]?.[pharmacistId] ?? []).map((shift) =>
+        getShiftInterval(
+          shift,
+          parseDateKey(dateKey),
+          shiftDefinitions,
+          holidays,
+          overtime[dateKey]?.[pharmacistId]
+        )
+      );
+
+    // 本月每一天與前一天比較，另外檢查月底與下個月 1 日
+    const dateKeys = [...days.map(toDateKey), addDays(toDateKey(days[days.length - 1]), 1)];
+    dateKeys.forEach((dateKey) => {
+      const previousKey = addDays(dateKey, -1);
+
+      pharmacists.forEach(({ id, name }) => {
+        const previous = intervals(previousKey, id);
+        const current = intervals(dateKey, id);
+        if (previous.length === 0 || current.length === 0) return;
+
+        const lastEnd = Math.max(...previous.map((interval) => interval.end));
+        const firstStart = Math.min(...current.map((interval) => interval.start));
+        const restHours = Math.round(((firstStart + 24 * 60 - lastEnd) / 60) * 10) / 10;
+        if (restHours < params.minRestHours) {
+          violations.push({
+            ruleId: 'labour.restInterval',
+            severity: 'error',
+            message: `${formatDay(parseDateKey(dateKey))} ${name}與前一天的班只間隔${restHours}小時，少於${params.minRestHours}小時`,
+            dateKey,
+            pharmacist: id,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+// 勞基法：每七日應有兩日休息（第 36 條），連續上班不可超過 6 天；往前查詢上個月月底的班表
+export const consecutiveDaysRule: ScheduleRule = {
+  id: 'labour.consecutiveDays',
+  name: '連續上班天數',
+  defaultParams: { maxDays: 6 },
+  paramLabels: { maxDays: '最多天數' },
+  check: ({ days, pharmacists, schedule }, params) => {
+    const violations: Violation[] = [];
+    const isWorking = (dateKey: string, pharmacistId: string) =>
+      (schedule[dateKey]?.[pharmacistId] ?? []).length > 0;
+    const firstKey = toDateKey(days[0]);
+    const lastKey = toDateKey(days[days.length - 1]);
+
+    pharmacists.forEach(({ id, name }) => {
+      let streak = 0;
+      // 從月初往前 maxDays 天開始計算，跨月的連續上班也會被發現
+      for (let offset = -params.maxDays; offset < days.length; offset++) {
+        const dateKey = addDays(firstKey, offset);
+        streak = isWorking(dateKey, id) ? streak + 1 : 0;
+        if (offset < 0 || streak !== params.maxDays + 1) continue;
+
+        // 每段連續上班只回報一次，並找出實際的起訖（可能從上個月開始或延續到下個月）
+        let startKey = addDays(dateKey, -params.maxDays);
+        let length = streak;
+        while (isWorking(addDays(startKey, -1), id)) {
+          startKey = addDays(startKey, -1);
+          length++;
+        }
+        let endKey = dateKey;
+        while (isWorking(addDays(endKey, 1), id)) {
+          endKey = addDays(endKey, 1);
+          length++;
+        }
+        violations.push({
+          ruleId: 'labour.consecutiveDays',
+          severity: 'error',
+          message: `${name}自 ${formatDay(parseDateKey(startKey))} 起連續上班${length}天，超過${params.maxDays}天${
+            endKey > lastKey ? '（延續到下個月）' : ''
+          }`,
+          dateKey,
+          pharmacist: id,
+        });
+      }
+    });
+
+    return violations;
+  },
+};
+
+// 勞基法：每月延長工時不可超過 46 小時（第 32 條），以加班（加）的工時計算
+export const monthlyOvertimeRule: ScheduleRule = {
+  id: 'labour.monthlyOvertime',
+  name: '每月加班時數',
+  defaultParams: { maxHours: 46 },
+  paramLabels: { maxHours: '最多小時' },
+  check: ({ pharmacists, stats }, params) =>
+    pharmacists
+      .filter((p) => stats[p.id].overtimeHours > params.maxHours)
+      .map((p) => ({
+        ruleId: 'labour.monthlyOvertime' as const,
+        severity: 'error' as const,
+        message: `${p.name}本月加班${stats[p.id].overtimeHours}小時，超過${params.maxHours}小時上限`,
+        pharmacist: p.id,
+      })),
+};
+
+// 勞基法：每週正常工時 40 小時（第 30 條），預設另容許 8 小時延長工時；
+// 以本月涵蓋的每一週計算，跨月的週包含相鄰月份的班（見 calculateStats）
+export const weeklyHoursRule: ScheduleRule = {
+  id: 'labour.weeklyHours',
+  name: '每週工時',
+  defaultParams: { maxHours: 48 },
+  paramLabels: { maxHours: '最多小時' },
+  check: ({ pharmacists, stats }, params) =>
+    pharmacists.flatMap((p) =>
+      Object.entries(stats[p.id].weeklyHours)
+        .filter(([, hours]) => hours > params.maxHours)
+        .map(([weekStartKey, hours]) => ({
+          ruleId: 'labour.weeklyHours' as const,
+          severity: 'error' as const,
+          message: `${p.name} ${formatDay(parseDateKey(weekStartKey))} 起的一週工作${hours}小時，超過${params.maxHours}小時上限`,
+          pharmacist: p.id,
+        }))
+    ),
+};
+
+// 每人每天最多節數（含加班），適用於每一天（排班規則中的節數上限只針對特定星期）
+export const maxSessionsPerDayRule: ScheduleRule = {
+  id: 'labour.maxSessionsPerDay',
+  name: '每日節數上限',
+  defaultParams: { maxSessions: 3 },
+  paramLabels: { maxSessions: '最多節數' },
+  check: ({ days, pharmacists, schedule }, params) => {
+    const violations: Violation[] = [];
+
+    days.forEach((day) => {
+      const dateKey = toDateKey(day);
+      pharmacists.forEach(({ id, name }) => {
+        const sessions = (schedule[dateKey]?.[id] ?? []).length;
+        if (sessions > params.maxSessions) {
+          violations.push({
+            ruleId: 'labour.maxSessionsPerDay',
+            severity: 'error',
+            message: `${formatDay(day)} ${name}排了${sessions}節，超過每日${params.maxSessions}節上限`,
+            dateKey,
+            pharmacist: id,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+export const labourRules: ScheduleRule[] = [
+  restIntervalRule,
+  consecutiveDaysRule,
+  monthlyOvertimeRule,
+  weeklyHoursRule,
+  maxSessionsPerDayRule,
+];
+
+export const SCHEDULE_RULES: ScheduleRule[] = [
+  availabilityRule,
+  headcountRule,
+  maxPerPersonRule,
+  overtimePeriodRule,
+  ...labourRules,
+  ...fairnessRules,
+];
+
+// 建立規則檢查所需的資料
+export const createRuleContext = (input: ScheduleInput): RuleContext => {
+  const holidays = input.holidays ?? {};
+  const shiftDefinitions = input.shiftDefinitions ?? DEFAULT_SHIFT_DEFINITIONS;
+  return {
+    currentMonth: input.currentMonth,
+    days: getDaysInMonth(input.currentMonth),
+    pharmacists: input.pharmacists,
+    schedule: input.schedule,
+    availability: input.availability ?? {},
+    overtime: input.overtime ?? {},
+    coverageRules: input.coverageRules ?? DEFAULT_COVERAGE_RULES,
+    holidays,
+    fte: input.fte ?? {},
+    shiftDefinitions,
+    stats: calculateStats(
+      input.currentMonth,
+      input.schedule,
+      input.pharmacists.map((p) => p.id),
+      holidays,
+      shiftDefinitions,
+      input.overtime
+    ),
+  };
+};
+
+// 依設定執行所有啟用中的規則，回傳違規清單
+export const validateSchedule = (
+  input: ScheduleInput,
+  config: RuleConfig = {},
+  rules: ScheduleRule[] = SCHEDULE_RULES
+): Violation[] => {
+  const context = createRuleContext(input);
+
+  return rules.flatMap((rule) => {
+    const setting = config[rule.id] ?? {};
+    if (setting.enabled === false) return [];
+    return rule.check(context, { ...rule.defaultParams, ...setting.params });
+  });
+};
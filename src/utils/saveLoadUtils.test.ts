@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fc from "fast-check";
+import { CURRENT_VERSION, SaveData } from "@/schemas/saveData";
+import { Schedule } from "@/types/schedule";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { SHIFT_ORDER } from "./scheduleUtils";
+import { toDateKey } from "./calendarDate";
+import { startNewSnapshot, listSnapshots } from "./snapshotStore";
+import {
+  autoSave,
+  clearAutoSave,
+  createSaveData,
+  getAutoSaveInfo,
+  hasAutoSave,
+  loadAutoSave,
+  loadFromFile,
+  saveDataToAppState,
+  saveToFile,
+} from "./saveLoadUtils";
+
+const MONTH = new Date(2025, 0, 1);
+const PHARMACISTS = createDefaultPharmacists();
+
+// 以 Map 模擬 localStorage
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+// 模擬下載連結：記錄 saveToFile 寫出的檔案
+interface Download {
+  name: string;
+  blob: Blob;
+}
+
+let downloads: Download[];
+
+beforeEach(() => {
+  downloads = [];
+  const blobs = new Map<string, Blob>();
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.stubGlobal("document", {
+    createElement: () => {
+      const link = {
+        href: "",
+        download: "",
+        style: {},
+        click: () => downloads.push({ name: link.download, blob: blobs.get(link.href)! }),
+      };
+      return link;
+    },
+    body: { appendChild: vi.fn(), removeChild: vi.fn() },
+  });
+  vi.spyOn(URL, "createObjectURL").mockImplementation((blob) => {
+    const url = `blob:${blobs.size}`;
+    blobs.set(url, blob as Blob);
+    return url;
+  });
+  vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  startNewSnapshot();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// 存檔後取回寫出的檔案
+const saveAndReadBack = async (data: SaveData, targetVersion?: string) => {
+  const result = await saveToFile(data, undefined, targetVersion);
+  expect(result.success).toBe(true);
+  const { name, blob } = downloads[downloads.length - 1];
+  return new File([await blob.text()], name, { type: "application/json" });
+};
+
+const jsonFile = (data: unknown) =>
+  new File([JSON.stringify(data)], "save.json", { type: "application/json" });
+
+describe("createSaveData", () => {
+  it("fills in the current version and default settings", () => {
+    const data = createSaveData(MONTH, PHARMACISTS, {}, {});
+
+    expect(data).toMatchObject({
+      version: CURRENT_VERSION,
+      currentMonth: "2025-01",
+      months: {},
+      archivedPharmacists: [],
+      availability: {},
+      holidays: {},
+      fte: {},
+      ruleConfig: {},
+    });
+    expect(data.coverageRules).toHaveLength(7);
+    expect(data).not.toHaveProperty("history");
+  });
+});
+
+describe("saveToFile → loadFromFile", () => {
+  it("round-trips a save file", async () => {
+    const data = createSaveData(
+      MONTH,
+      PHARMACISTS,
+      { "2025-01-02": { p1: ["早", "午"], p2: ["晚", "加"] } },
+      { "2025-01-02": "盤點" },
+      {
+        months: { "2025-01": { status: "locked" } },
+        availability: { "2025-01-03": { p3: "morningOnly" } },
+        fte: { p4: 0.5 },
+      }
+    );
+
+    const file = await saveAndReadBack(data);
+    expect(file.name).toMatch(/^排班存檔_2025年01月_\d{8}_\d{6}\.json$/);
+
+    const loaded = await loadFromFile(file);
+    expect(loaded).toEqual({ success: true, data, errors: [], warnings: [] });
+  });
+
+  it("names older-version files after their version", async () => {
+    const file = await saveAndReadBack(createSaveData(MONTH, PHARMACISTS, {}, {}), "1.2.0");
+
+    expect(file.name).toMatch(/_v1\.2\.0\.json$/);
+    expect(JSON.parse(await file.text()).version).toBe("1.2.0");
+  });
+
+  it("refuses to write invalid data", async () => {
+    const data = createSaveData(MONTH, [], {}, {});
+    const result = await saveToFile(data);
+
+    expect(result.success).toBe(false);
+    expect(downloads).toHaveLength(0);
+  });
+
+  it("reports files that are not JSON", async () => {
+    const loaded = await loadFromFile(new File(["{"], "save.json"));
+
+    expect(loaded).toEqual({
+      success: false,
+      errors: ["檔案格式錯誤：無法解析 JSON"],
+      warnings: [],
+    });
+  });
+
+  it("reports schema errors", async () => {
+    const loaded = await loadFromFile(
+      jsonFile({ ...createSaveData(MONTH, PHARMACISTS, {}, {}), pharmacists: [] })
+    );
+
+    expect(loaded.success).toBe(false);
+    expect(loaded.errors).toEqual(["pharmacists: 至少需要一位藥師"]);
+    expect(loaded.repair).toBeUndefined();
+  });
+
+  it("offers a repaired copy of files that fail validation", async () => {
+    const loaded = await loadFromFile(
+      jsonFile({ ...createSaveData(MONTH, PHARMACISTS, {}, { "2025-01-02": "x".repeat(501) }) })
+    );
+
+    expect(loaded.success).toBe(false);
+    expect(loaded.repair?.changes).toEqual(["notes.2025-01-02 超過 500 字，已截斷"]);
+    expect(loaded.repair?.data?.notes["2025-01-02"]).toHaveLength(500);
+  });
+
+  it("upgrades older save files and reports it", async () => {
+    const loaded = await loadFromFile(
+      jsonFile({
+        version: "1.0.0",
+        currentMonth: "2025-01",
+        pharmacists: ["邱"],
+        schedule: {},
+        notes: {},
+        savedAt: new Date().toISOString(),
+      })
+    );
+
+    expect(loaded.success).toBe(true);
+    expect(loaded.data?.pharmacists[0]).toMatchObject({ id: "p1", name: "邱" });
+    expect(loaded.warnings[0]).toBe(`資料已從版本 1.0.0 自動升級到 ${CURRENT_VERSION}`);
+  });
+});
+
+describe("autoSave → loadAutoSave", () => {
+  it("round-trips through localStorage", () => {
+    const schedule: Schedule = { "2025-01-02": { p1: ["早"] } };
+
+    expect(hasAutoSave()).toBe(false);
+    expect(autoSave(MONTH, PHARMACISTS, schedule, {}, { history: { past: [], future: [] } })).toEqual({ success: true });
+    expect(hasAutoSave()).toBe(true);
+    expect(getAutoSaveInfo()).toMatchObject({ hasAutoSave: true, month: "2025-01" });
+
+    const loaded = loadAutoSave();
+    expect(loaded.success).toBe(true);
+    expect(saveDataToAppState(loaded.data!)).toMatchObject({
+      pharmacists: PHARMACISTS,
+      schedule,
+      history: { past: [], future: [] },
+    });
+  });
+
+  it("quarantines a corrupt snapshot instead of deleting it", () => {
+    autoSave(MONTH, PHARMACISTS, {}, {});
+    const [snapshot] = listSnapshots();
+    localStorage.setItem(`pharmacist-schedule-snapshot:${snapshot.id}`, "{");
+
+    const loaded = loadAutoSave();
+    expect(loaded.success).toBe(false);
+    expect(loaded.errors[0]).toBe("自動存檔已損壞，已移到隔離區保留");
+    expect(listSnapshots()[0].quarantine?.errors).toEqual(["快照內容無法解析"]);
+    expect(hasAutoSave()).toBe(false);
+  });
+
+  it("clears snapshots but keeps quarantined ones", () => {
+    autoSave(MONTH, PHARMACISTS, {}, {});
+    startNewSnapshot();
+    autoSave(MONTH, PHARMACISTS, { "2025-01-02": { p1: ["早"] } }, {});
+    const [latest] = listSnapshots();
+    localStorage.setItem(`pharmacist-schedule-snapshot:${latest.id}`, "{");
+    loadAutoSave();
+
+    clearAutoSave();
+    expect(listSnapshots().map((meta) => Boolean(meta.quarantine))).toEqual([true]);
+    expect(loadAutoSave()).toMatchObject({ success: false, errors: ["沒有找到自動存檔"] });
+  });
+});
+
+describe("round-trip properties", () => {
+  const days = Array.from({ length: 31 }, (_, i) => toDateKey(new Date(2025, 0, i + 1)));
+  const ids = PHARMACISTS.map((p) => p.id);
+
+  // 隨機的有效排班：1 月的任意日期 × 名單中的藥師 × 不重複的班別組合
+  const scheduleArbitrary = fc
+    .dictionary(
+      fc.constantFrom(...days),
+      fc.dictionary(fc.constantFrom(...ids), fc.subarray(SHIFT_ORDER))
+    )
+    .map((schedule) => schedule as Schedule);
+  const notesArbitrary = fc.dictionary(
+    fc.constantFrom(...days),
+    fc.string({ maxLength: 500 })
+  );
+
+  it("keeps random schedules and notes unchanged through a save file", async () => {
+    await fc.assert(
+      fc.asyncProperty(scheduleArbitrary, notesArbitrary, async (schedule, notes) => {
+        const file = await saveAndReadBack(createSaveData(MONTH, PHARMACISTS, schedule, notes));
+        const loaded = await loadFromFile(file);
+
+        expect(loaded.success).toBe(true);
+        expect(loaded.data?.schedule).toEqual(schedule);
+        expect(loaded.data?.notes).toEqual(notes);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("keeps random schedules unchanged through a 1.0.0 save file", async () => {
+    await fc.assert(
+      fc.asyncProperty(scheduleArbitrary, async (schedule) => {
+        const file = await saveAndReadBack(createSaveData(MONTH, PHARMACISTS, schedule, {}), "1.0.0");
+        const loaded = await loadFromFile(file);
+
+        expect(loaded.success).toBe(true);
+        expect(loaded.data?.schedule).toEqual(schedule);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("keeps random schedules unchanged through an auto-save snapshot", () => {
+    fc.assert(
+      fc.property(scheduleArbitrary, (schedule) => {
+        startNewSnapshot();
+        expect(autoSave(MONTH, PHARMACISTS, schedule, {}).success).toBe(true);
+        expect(loadAutoSave().data?.schedule).toEqual(schedule);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -1,62 +1,116 @@
-import { SaveData, SaveDataSchema, validateSaveData, checkVersionCompatibility } from '@/schemas/saveData';
-import { Schedule, Notes } from '@/types/schedule';
-
-const CURRENT_VERSION = "1.0.0";
-const AUTO_SAVE_KEY = "pharmacist-schedule-autosave";
+import {
+  CURRENT_VERSION,
+  SaveData,
+  SaveDataExtras,
+  SaveDataSchema,
+  validateSaveData,
+  checkVersionCompatibility,
+} from '@/schemas/saveData';
+import { downgradeToVersion, getDowngradeVersions } from '@/schemas/migrations';
+import { RepairResult, repairSaveData } from '@/utils/saveRepair';
+import { Pharmacist, Schedule, Notes } from '@/types/schedule';
+import { DEFAULT_COVERAGE_RULES, DEFAULT_SHIFT_DEFINITIONS } from '@/utils/scheduleUtils';
+import { parseMonthKey, toMonthKey } from '@/utils/calendarDate';
+import {
+  deleteSnapshot,
+  listSnapshots,
+  quarantineSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from '@/utils/snapshotStore';
 
 // 存檔相關型別
 export interface SaveResult {
   success: boolean;
   error?: string;
+  warnings?: string[];
 }
 
+// 可以另存的舊版本，供舊版程式開啟（由新到舊）
+export const EXPORT_VERSIONS = getDowngradeVersions();
+
 export interface LoadResult {
   success: boolean;
   data?: SaveData;
   errors: string[];
   warnings: string[];
+  // 驗證失敗但可以修復時提供修復後的資料與修改清單，由使用者確認後再載入
+  repair?: RepairResult;
 }
 
 // 創建存檔資料
 export function createSaveData(
   currentMonth: Date,
-  pharmacists: string[],
+  pharmacists: Pharmacist[],
   schedule: Schedule,
-  notes: Notes
+  notes: Notes,
+  extras: SaveDataExtras = {}
 ): SaveData {
   return {
     version: CURRENT_VERSION,
-    currentMonth: `${currentMonth.getFullYear()}-${String(currentMonth.getMonth() + 1).padStart(2, '0')}`,
+    currentMonth: toMonthKey(currentMonth),
+    months: extras.months ?? {},
     pharmacists,
+    archivedPharmacists: extras.archivedPharmacists ?? [],
     schedule,
     notes,
+    availability: extras.availability ?? {},
+    overtime: extras.overtime ?? {},
+    coverageRules: extras.coverageRules ?? DEFAULT_COVERAGE_RULES,
+    holidays: extras.holidays ?? {},
+    fte: extras.fte ?? {},
+    ruleConfig: extras.ruleConfig ?? {},
+    shiftDefinitions: extras.shiftDefinitions ?? DEFAULT_SHIFT_DEFINITIONS,
+    // 編輯記錄只在提供時寫入（自動存檔），手動存檔的檔案不包含
+    ...(extras.history && { history: extras.history }),
+    ...(extras.extras && Object.keys(extras.extras).length > 0 && { extras: extras.extras }),
     savedAt: new Date().toISOString(),
   };
 }
 
-// 生成檔案名稱
-export function generateFileName(currentMonth: Date): string {
-  const year = currentMonth.getFullYear();
-  const month = currentMonth.getMonth() + 1;
+// 生成檔案名稱（指定結束月份時表示檔案包含一段月份範圍）
+export function generateFileName(currentMonth: Date, lastMonth?: Date): string {
+  const formatMonth = (date: Date) =>
+    `${date.getFullYear()}年${String(date.getMonth() + 1).padStart(2, '0')}月`;
   const now = new Date();
   const timestamp = now.toISOString().slice(0, 19).replace(/[:-]/g, '').replace('T', '_');
+  const range = lastMonth
+    ? `${formatMonth(currentMonth)}-${formatMonth(lastMonth)}`
+    : formatMonth(currentMonth);
   
-  return `排班存檔_${year}年${String(month).padStart(2, '0')}月_${timestamp}.json`;
+  return `排班存檔_${range}_${timestamp}.json`;
 }
 
-// 儲存到檔案
-export async function saveToFile(saveData: SaveData, filename?: string): Promise<SaveResult> {
+// 儲存到檔案；指定舊版本時先降級，warnings 列出遺失的資料
+export async function saveToFile(
+  saveData: SaveData,
+  filename?: string,
+  targetVersion: string = CURRENT_VERSION
+): Promise<SaveResult> {
   try {
     // 使用 Zod 驗證資料
     const validated = SaveDataSchema.parse(saveData);
+
+    let output: Record<string, unknown> = validated;
+    let warnings: string[] = [];
+    if (targetVersion !== CURRENT_VERSION) {
+      const downgrade = downgradeToVersion(validated, targetVersion);
+      if (!downgrade.success) {
+        return { success: false, error: downgrade.error };
+      }
+      output = downgrade.data!;
+      warnings = downgrade.warnings;
+    }
     
-    const jsonString = JSON.stringify(validated, null, 2);
+    const jsonString = JSON.stringify(output, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     
+    const name = filename || generateFileName(parseMonthKey(validated.currentMonth));
     const link = document.createElement('a');
     link.href = url;
-    link.download = filename || generateFileName(new Date(validated.currentMonth + '-01'));
+    link.download =
+      targetVersion !== CURRENT_VERSION ? name.replace(/\.json$/, `_v${targetVersion}.json`) : name;
     link.style.display = 'none';
     
     document.body.appendChild(link);
@@ -65,7 +119,7 @@ export async function saveToFile(saveData: SaveData, filename?: string): Promise
     
     URL.revokeObjectURL(url);
     
-    return { success: true };
+    return { success: true, warnings };
   } catch (error) {
     console.error('存檔失敗:', error);
     return {
@@ -75,6 +129,11 @@ export async function saveToFile(saveData: SaveData, filename?: string): Promise
   }
 }
 
+// 另存為舊版本前的檢查：回傳會遺失的資料說明
+export function getDowngradeWarnings(saveData: SaveData, targetVersion: string): string[] {
+  return downgradeToVersion(saveData, targetVersion).warnings;
+}
+
 // 從檔案讀取
 export async function loadFromFile(file: File): Promise<LoadResult> {
   try {
@@ -95,10 +154,12 @@ export async function loadFromFile(file: File): Promise<LoadResult> {
     const validation = validateSaveData(data);
     
     if (!validation.isValid) {
+      const repair = repairSaveData(data);
       return {
         success: false,
         errors: validation.errors,
-        warnings: validation.warnings
+        warnings: validation.warnings,
+        ...(repair.success && { repair })
       };
     }
     
@@ -133,90 +194,95 @@ export async function loadFromFile(file: File): Promise<LoadResult> {
   }
 }
 
-// 自動存檔到 LocalStorage
+// 自動存檔：寫入 LocalStorage 中的快照（見 snapshotStore）
 export function autoSave(
   currentMonth: Date,
-  pharmacists: string[],
+  pharmacists: Pharmacist[],
   schedule: Schedule,
-  notes: Notes
-): boolean {
+  notes: Notes,
+  extras: SaveDataExtras = {}
+): SaveResult {
   try {
-    const saveData = createSaveData(currentMonth, pharmacists, schedule, notes);
+    const saveData = createSaveData(currentMonth, pharmacists, schedule, notes, extras);
     const validated = SaveDataSchema.parse(saveData);
     
-    localStorage.setItem(AUTO_SAVE_KEY, JSON.stringify(validated));
-    return true;
+    return writeSnapshot(validated);
   } catch (error) {
     console.error('自動存檔失敗:', error);
-    return false;
+    return { success: false, error: '自動存檔失敗' };
   }
 }
 
-// 從 LocalStorage 讀取自動存檔
-export function loadAutoSave(): LoadResult {
+// 讀取自動存檔快照（未指定時讀取最新的快照）；損壞的快照移到隔離區保留，不會刪除
+export function loadAutoSave(snapshotId?: string): LoadResult {
+  const snapshot = listSnapshots().find(entry =>
+    snapshotId ? entry.id === snapshotId : !entry.quarantine
+  );
+  if (!snapshot) {
+    return {
+      success: false,
+      errors: ['沒有找到自動存檔'],
+      warnings: []
+    };
+  }
+  if (snapshot.quarantine) {
+    return {
+      success: false,
+      errors: ['此快照已被隔離', ...snapshot.quarantine.errors],
+      warnings: []
+    };
+  }
+
+  let errors: string[];
   try {
-    const saved = localStorage.getItem(AUTO_SAVE_KEY);
-    if (!saved) {
-      return {
-        success: false,
-        errors: ['沒有找到自動存檔'],
-        warnings: []
-      };
-    }
-    
-    const data = JSON.parse(saved);
+    const data = JSON.parse(readSnapshot(snapshot.id) ?? '');
     const validation = validateSaveData(data);
     
-    if (!validation.isValid) {
-      // 如果自動存檔損壞，清除它
-      localStorage.removeItem(AUTO_SAVE_KEY);
+    if (validation.isValid) {
       return {
-        success: false,
-        errors: ['自動存檔已損壞並已清除'],
-        warnings: []
+        success: true,
+        data: validation.data!,
+        errors: [],
+        warnings: validation.warnings
       };
     }
-    
-    return {
-      success: true,
-      data: validation.data!,
-      errors: [],
-      warnings: validation.warnings
-    };
+    errors = validation.errors;
   } catch {
-    // 清除損壞的自動存檔
-    localStorage.removeItem(AUTO_SAVE_KEY);
-    return {
-      success: false,
-      errors: ['自動存檔讀取失敗並已清除'],
-      warnings: []
-    };
+    errors = ['快照內容無法解析'];
   }
+
+  quarantineSnapshot(snapshot.id, errors);
+  return {
+    success: false,
+    errors: ['自動存檔已損壞，已移到隔離區保留', ...errors],
+    warnings: []
+  };
 }
 
-// 清除自動存檔
+// 清除所有正常的自動存檔快照（隔離的快照保留）
 export function clearAutoSave(): void {
-  localStorage.removeItem(AUTO_SAVE_KEY);
+  listSnapshots()
+    .filter(entry => !entry.quarantine)
+    .forEach(entry => deleteSnapshot(entry.id));
 }
 
 // 檢查是否有自動存檔
 export function hasAutoSave(): boolean {
-  return localStorage.getItem(AUTO_SAVE_KEY) !== null;
+  return listSnapshots().some(entry => !entry.quarantine);
 }
 
-// 獲取自動存檔的基本資訊（不完整載入）
+// 獲取最新自動存檔的基本資訊（不完整載入）
 export function getAutoSaveInfo(): { hasAutoSave: boolean; savedAt?: string; month?: string } {
   try {
-    const saved = localStorage.getItem(AUTO_SAVE_KEY);
-    if (!saved) {
+    const latest = listSnapshots().find(entry => !entry.quarantine);
+    if (!latest) {
       return { hasAutoSave: false };
     }
     
-    const data = JSON.parse(saved);
     return {
       hasAutoSave: true,
-      savedAt: data.savedAt,
-      month: data.currentMonth
+      savedAt: latest.savedAt,
+      month: latest.currentMonth
     };
   } catch {
     return { hasAutoSave: false };
@@ -225,12 +291,23 @@ export function getAutoSaveInfo(): { hasAutoSave: boolean; savedAt?: string; mon
 
 // 工具函數：將 SaveData 轉換為應用程式狀態
 export function saveDataToAppState(saveData: SaveData) {
-  const currentMonth = new Date(saveData.currentMonth + '-01');
+  const currentMonth = parseMonthKey(saveData.currentMonth);
   
   return {
     currentMonth,
+    months: saveData.months ?? {},
     pharmacists: saveData.pharmacists,
+    archivedPharmacists: saveData.archivedPharmacists ?? [],
     schedule: saveData.schedule,
-    notes: saveData.notes
+    notes: saveData.notes,
+    availability: saveData.availability ?? {},
+    overtime: saveData.overtime ?? {},
+    coverageRules: saveData.coverageRules ?? DEFAULT_COVERAGE_RULES,
+    holidays: saveData.holidays ?? {},
+    fte: saveData.fte ?? {},
+    ruleConfig: saveData.ruleConfig ?? {},
+    shiftDefinitions: saveData.shiftDefinitions ?? DEFAULT_SHIFT_DEFINITIONS,
+    history: saveData.history ?? { past: [], future: [] },
+    extras: saveData.extras ?? {}
   };
 }
\ No newline at end of file
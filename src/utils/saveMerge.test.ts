@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Notes, Schedule } from "@/types/schedule";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { createSaveData } from "./saveLoadUtils";
+import { buildMergedSaveData, describeMergeValue, mergeSaveFiles } from "./saveMerge";
+
+const MONTH = new Date(2025, 0, 1);
+const PHARMACISTS = createDefaultPharmacists();
+
+const save = (schedule: Schedule, notes: Notes = {}, pharmacists = PHARMACISTS) =>
+  createSaveData(MONTH, pharmacists, schedule, notes);
+
+const BASE_SCHEDULE: Schedule = {
+  "2025-01-02": { p1: ["早"], p2: ["晚"] },
+  "2025-01-03": { p1: ["午"] },
+};
+
+describe("mergeSaveFiles", () => {
+  it("takes edits made on only one side", () => {
+    const base = save(BASE_SCHEDULE, { "2025-01-02": "盤點" });
+    const ours = save({ ...BASE_SCHEDULE, "2025-01-02": { p1: ["早", "午"], p2: ["晚"] } }, base.notes);
+    const theirs = save(BASE_SCHEDULE, { "2025-01-02": "盤點", "2025-01-03": "進貨" });
+
+    const result = mergeSaveFiles(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result).toMatchObject({ takenFromOurs: 1, takenFromTheirs: 1 });
+
+    const merged = buildMergedSaveData(result, {});
+    expect(merged.isValid).toBe(true);
+    expect(merged.data?.schedule["2025-01-02"]).toEqual({ p1: ["早", "午"], p2: ["晚"] });
+    expect(merged.data?.notes).toEqual({ "2025-01-02": "盤點", "2025-01-03": "進貨" });
+  });
+
+  it("reports different edits of the same cell as a conflict", () => {
+    const base = save(BASE_SCHEDULE);
+    const ours = save({ ...BASE_SCHEDULE, "2025-01-03": { p1: ["早"] } });
+    const theirs = save({ ...BASE_SCHEDULE, "2025-01-03": { p1: ["晚"] } });
+
+    const result = mergeSaveFiles(base, ours, theirs);
+    expect(result.conflicts).toEqual([
+      {
+        id: "schedule:2025-01-03/p1",
+        field: "schedule",
+        key: "2025-01-03/p1",
+        base: ["午"],
+        ours: ["早"],
+        theirs: ["晚"],
+      },
+    ]);
+    expect(buildMergedSaveData(result, {}).errors).toEqual(["尚有 1 項衝突未選擇"]);
+
+    const merged = buildMergedSaveData(result, { "schedule:2025-01-03/p1": "theirs" });
+    expect(merged.data?.schedule["2025-01-03"]).toEqual({ p1: ["晚"] });
+  });
+
+  it("applies deletions made on one side", () => {
+    const base = save(BASE_SCHEDULE, { "2025-01-02": "盤點" });
+    const ours = save({ "2025-01-02": BASE_SCHEDULE["2025-01-02"] }, {});
+    const theirs = save(BASE_SCHEDULE, { "2025-01-02": "盤點" });
+
+    const merged = buildMergedSaveData(mergeSaveFiles(base, ours, theirs), {});
+    expect(merged.data?.schedule).toEqual({ "2025-01-02": { p1: ["早"], p2: ["晚"] } });
+    expect(merged.data?.notes).toEqual({});
+  });
+
+  it("keeps a recorded day off distinct from an empty cell", () => {
+    const base = save(BASE_SCHEDULE);
+    const ours = save({ ...BASE_SCHEDULE, "2025-01-04": { p3: [] } });
+    const theirs = save(BASE_SCHEDULE);
+
+    const merged = buildMergedSaveData(mergeSaveFiles(base, ours, theirs), {});
+    expect(merged.data?.schedule["2025-01-04"]).toEqual({ p3: [] });
+  });
+
+  it("reports a day off against worked shifts as a conflict", () => {
+    const base = save(BASE_SCHEDULE);
+    const ours = save({ ...BASE_SCHEDULE, "2025-01-03": { p1: [] } });
+    const theirs = save({ ...BASE_SCHEDULE, "2025-01-03": { p1: ["午", "晚"] } });
+
+    const [conflict] = mergeSaveFiles(base, ours, theirs).conflicts;
+    expect(conflict).toMatchObject({ ours: [], theirs: ["午", "晚"] });
+    expect(describeMergeValue("schedule", conflict.ours)).toBe("休");
+    expect(describeMergeValue("schedule", undefined)).toBe("（未填）");
+  });
+
+  it("drops the cells of pharmacists removed from the roster", () => {
+    const base = save(BASE_SCHEDULE);
+    const ours = save(BASE_SCHEDULE, {}, PHARMACISTS.filter((p) => p.id !== "p2"));
+    const theirs = save({ ...BASE_SCHEDULE, "2025-01-03": { p1: ["午"], p2: ["早"] } });
+
+    const merged = buildMergedSaveData(mergeSaveFiles(base, ours, theirs), {});
+    expect(merged.data?.pharmacists.map((p) => p.id)).toEqual(["p1", "p3", "p4"]);
+    expect(merged.data?.schedule).toEqual({ "2025-01-02": { p1: ["早"] }, "2025-01-03": { p1: ["午"] } });
+    expect(merged.warnings[0]).toContain("有 2 筆");
+  });
+});
@@ -0,0 +1,373 @@
+import { SaveData, ValidationResult, validateSaveData } from '@/schemas/saveData';
+import {
+  ArchivedPharmacist,
+  Availability,
+  AvailabilityMap,
+  CoverageRules,
+  Holiday,
+  HolidayCalendar,
+  MonthIndex,
+  MonthInfo,
+  Notes,
+  OvertimeEntry,
+  OvertimeMap,
+  Pharmacist,
+  PharmacistFte,
+  RequiredShifts,
+  Schedule,
+  Shift,
+  ShiftDefinition,
+  ShiftDefinitions,
+} from '@/types/schedule';
+import { createSaveData } from './saveLoadUtils';
+import {
+  AVAILABILITY_LABELS,
+  DEFAULT_COVERAGE_RULES,
+  DEFAULT_SHIFT_DEFINITIONS,
+  SHIFT_ORDER,
+  describeOvertimeEntry,
+  describeShiftDefinition,
+} from './scheduleUtils';
+import { MONTH_STATUS_LABELS } from './workspaceUtils';
+import { parseMonthKey } from './calendarDate';
+
+// 可合併的資料：排班、備註、請假與加班明細以「日期／藥師」為單位，其他設定以各自的鍵為單位
+export type MergeField =
+  | 'schedule'
+  | 'notes'
+  | 'availability'
+  | 'overtime'
+  | 'roster'
+  | 'months'
+  | 'holidays'
+  | 'fte'
+  | 'coverageRules'
+  | 'ruleConfig'
+  | 'shiftDefinitions';
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  schedule: '排班',
+  notes: '備註',
+  availability: '請假登記',
+  overtime: '加班明細',
+  roster: '藥師名單',
+  months: '月份狀態',
+  holidays: '假日',
+  fte: '工時比例',
+  coverageRules: '排班規則',
+  ruleConfig: '規則設定',
+  shiftDefinitions: '班別時間',
+};
+
+// ours 與 theirs 為兩份各自編輯後的存檔
+export type MergeSide = 'ours' | 'theirs';
+
+// 兩邊都修改且結果不同的項目，undefined 表示該邊沒有此項目
+export interface MergeConflict {
+  id: string;
+  field: MergeField;
+  key: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface MergeResult {
+  ours: SaveData;
+  theirs: SaveData;
+  // 已自動合併的項目（不含衝突）
+  entries: Record<string, unknown>;
+  conflicts: MergeConflict[];
+  // 自動採用各邊修改的項目數
+  takenFromOurs: number;
+  takenFromTheirs: number;
+}
+
+export type MergeResolutions = Record<string, MergeSide>;
+
+const WEEKDAY_NAMES = ['日', '一', '二', '三', '四', '五', '六'];
+
+const entryId = (field: MergeField, key: string) => `${field}:${key}`;
+
+const parseEntryId = (id: string): { field: MergeField; key: string } => {
+  const separator = id.indexOf(':');
+  return { field: id.slice(0, separator) as MergeField, key: id.slice(separator + 1) };
+};
+
+// 日期與藥師組成的鍵（日期固定為 10 字元）
+const cellKey = (dateKey: string, pharmacistId: string) => `${dateKey}/${pharmacistId}`;
+const splitCellKey = (key: string) => ({ dateKey: key.slice(0, 10), pharmacistId: key.slice(11) });
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// 將存檔展開為「項目 id → 值」；沒有班別的格子（[]）是排定的休假，與未填寫的格子不同
+function flattenSaveData(data: SaveData): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  const put = (field: MergeField, key: string, value: unknown) => {
+    flat[entryId(field, key)] = value;
+  };
+
+  Object.entries(data.schedule).forEach(([dateKey, day]) => {
+    Object.entries(day).forEach(([pharmacistId, shifts]) => {
+      put('schedule', cellKey(dateKey, pharmacistId), SHIFT_ORDER.filter(shift => shifts.includes(shift)));
+    });
+  });
+  Object.entries(data.notes).forEach(([dateKey, note]) => {
+    if (note !== '') put('notes', dateKey, note);
+  });
+  Object.entries(data.availability ?? {}).forEach(([dateKey, day]) => {
+    Object.entries(day).forEach(([pharmacistId, value]) => {
+      put('availability', cellKey(dateKey, pharmacistId), value);
+    });
+  });
+  Object.entries(data.overtime ?? {}).forEach(([dateKey, day]) => {
+    Object.entries(day).forEach(([pharmacistId, entry]) => {
+      put('overtime', cellKey(dateKey, pharmacistId), entry);
+    });
+  });
+  [...data.pharmacists, ...(data.archivedPharmacists ?? [])].forEach(p => put('roster', p.id, p));
+  Object.entries(data.months ?? {}).forEach(([monthKey, info]) => put('months', monthKey, info));
+  Object.entries(data.holidays ?? {}).forEach(([dateKey, holiday]) => put('holidays', dateKey, holiday));
+  Object.entries(data.fte ?? {}).forEach(([id, value]) => put('fte', id, value));
+  (data.coverageRules ?? DEFAULT_COVERAGE_RULES).forEach((rules, weekday) =>
+    put('coverageRules', String(weekday), rules)
+  );
+  Object.entries(data.ruleConfig ?? {}).forEach(([ruleId, config]) => put('ruleConfig', ruleId, config));
+  Object.entries(data.shiftDefinitions ?? DEFAULT_SHIFT_DEFINITIONS).forEach(([shift, definition]) =>
+    put('shiftDefinitions', shift, definition)
+  );
+
+  return flat;
+}
+
+// 三方合併：只有一邊修改的項目自動採用該邊，兩邊修改結果不同時列為衝突
+// 三份存檔應先經過 validateSaveData（已升級到最新版本）
+export function mergeSaveFiles(base: SaveData, ours: SaveData, theirs: SaveData): MergeResult {
+  const baseFlat = flattenSaveData(base);
+  const oursFlat = flattenSaveData(ours);
+  const theirsFlat = flattenSaveData(theirs);
+
+  const entries: Record<string, unknown> = {};
+  const conflicts: MergeConflict[] = [];
+  let takenFromOurs = 0;
+  let takenFromTheirs = 0;
+
+  const ids = new Set([...Object.keys(baseFlat), ...Object.keys(oursFlat), ...Object.keys(theirsFlat)]);
+  [...ids].sort().forEach(id => {
+    const baseValue = baseFlat[id];
+    const oursValue = oursFlat[id];
+    const theirsValue = theirsFlat[id];
+
+    let merged: unknown;
+    if (isSame(oursValue, theirsValue)) {
+      merged = oursValue;
+    } else if (isSame(oursValue, baseValue)) {
+      merged = theirsValue;
+      takenFromTheirs++;
+    } else if (isSame(theirsValue, baseValue)) {
+      merged = oursValue;
+      takenFromOurs++;
+    } else {
+      conflicts.push({ id, ...parseEntryId(id), base: baseValue, ours: oursValue, theirs: theirsValue });
+      return;
+    }
+    if (merged !== undefined) entries[id] = merged;
+  });
+
+  return { ours, theirs, entries, conflicts, takenFromOurs, takenFromTheirs };
+}
+
+// 依衝突的選擇產生合併後的存檔，並以 validateSaveData 驗證
+// 已不在名單中的藥師仍留有排班或請假時不寫入，並列在警告中
+export function buildMergedSaveData(result: MergeResult, resolutions: MergeResolutions): ValidationResult {
+  const unresolved = result.conflicts.filter(conflict => !resolutions[conflict.id]);
+  if (unresolved.length > 0) {
+    return { isValid: false, errors: [`尚有 ${unresolved.length} 項衝突未選擇`], warnings: [] };
+  }
+
+  const entries = { ...result.entries };
+  result.conflicts.forEach(conflict => {
+    const value = conflict[resolutions[conflict.id]];
+    if (value !== undefined) entries[conflict.id] = value;
+  });
+
+  const pharmacists: Pharmacist[] = [];
+  const archivedPharmacists: ArchivedPharmacist[] = [];
+  const schedule: Schedule = {};
+  const notes: Notes = {};
+  const months: MonthIndex = {};
+  const availability: AvailabilityMap = {};
+  const overtime: OvertimeMap = {};
+  const holidays: HolidayCalendar = {};
+  const fte: PharmacistFte = {};
+  const coverageRules: CoverageRules = [...DEFAULT_COVERAGE_RULES];
+  const ruleConfig: NonNullable<SaveData['ruleConfig']> = {};
+  const shiftDefinitions: ShiftDefinitions = { ...DEFAULT_SHIFT_DEFINITIONS };
+  const roster = new Map<string, Pharmacist | ArchivedPharmacist>();
+
+  Object.entries(entries).forEach(([id, value]) => {
+    const { field, key } = parseEntryId(id);
+    switch (field) {
+      case 'schedule': {
+        const { dateKey, pharmacistId } = splitCellKey(key);
+        schedule[dateKey] = { ...schedule[dateKey], [pharmacistId]: value as Shift[] };
+        break;
+      }
+      case 'availability': {
+        const { dateKey, pharmacistId } = splitCellKey(key);
+        availability[dateKey] = { ...availability[dateKey], [pharmacistId]: value as Availability };
+        break;
+      }
+      case 'overtime': {
+        const { dateKey, pharmacistId } = splitCellKey(key);
+        overtime[dateKey] = { ...overtime[dateKey], [pharmacistId]: value as OvertimeEntry };
+        break;
+      }
+      case 'notes':
+        notes[key] = value as string;
+        break;
+      case 'roster':
+        roster.set(key, value as Pharmacist | ArchivedPharmacist);
+        break;
+      case 'months':
+        months[key] = value as MonthInfo;
+        break;
+      case 'holidays':
+        holidays[key] = value as Holiday;
+        break;
+      case 'fte':
+        fte[key] = value as number;
+        break;
+      case 'coverageRules':
+        coverageRules[Number(key)] = value as RequiredShifts;
+        break;
+      case 'ruleConfig':
+        ruleConfig[key] = value as NonNullable<SaveData['ruleConfig']>[string];
+        break;
+      case 'shiftDefinitions':
+        shiftDefinitions[key as Shift] = value as ShiftDefinition;
+        break;
+    }
+  });
+
+  // 名單順序以 ours 為主，theirs 新增的藥師接在後面
+  const order = [
+    ...result.ours.pharmacists,
+    ...(result.ours.archivedPharmacists ?? []),
+    ...result.theirs.pharmacists,
+    ...(result.theirs.archivedPharmacists ?? []),
+  ].map(p => p.id);
+  [...new Set(order)].forEach(id => {
+    const pharmacist = roster.get(id);
+    if (!pharmacist) return;
+    if ('archivedAt' in pharmacist) {
+      archivedPharmacists.push(pharmacist);
+    } else {
+      pharmacists.push(pharmacist);
+    }
+  });
+
+  // 移除已不在名單中的藥師所留下的資料
+  const warnings: string[] = [];
+  let orphaned = 0;
+  [schedule, availability, overtime].forEach(map => {
+    Object.values(map).forEach(day => {
+      Object.keys(day).forEach(pharmacistId => {
+        if (roster.has(pharmacistId)) return;
+        delete day[pharmacistId];
+        orphaned++;
+      });
+    });
+  });
+  if (orphaned > 0) {
+    warnings.push(`有 ${orphaned} 筆排班、請假登記或加班明細屬於已不在名單中的藥師，未寫入合併結果`);
+  }
+
+  const saveData = createSaveData(
+    parseMonthKey(result.ours.currentMonth),
+    pharmacists,
+    schedule,
+    notes,
+    {
+      months,
+      archivedPharmacists,
+      availability,
+      overtime,
+      coverageRules,
+      holidays,
+      fte,
+      ruleConfig,
+      shiftDefinitions,
+    }
+  );
+  const validation = validateSaveData({
+    ...saveData,
+    ...(result.ours.metadata && { metadata: result.ours.metadata }),
+  });
+  return { ...validation, warnings: [...warnings, ...validation.warnings] };
+}
+
+// 衝突項目的說明，例如「1/5 邱」或「週六」
+export function describeMergeKey(conflict: MergeConflict, names: Map<string, string>): string {
+  const { field, key } = conflict;
+  const formatDate = (dateKey: string) => `${Number(dateKey.slice(5, 7))}/${Number(dateKey.slice(8, 10))}`;
+
+  switch (field) {
+    case 'schedule':
+    case 'availability':
+    case 'overtime': {
+      const { dateKey, pharmacistId } = splitCellKey(key);
+      return `${formatDate(dateKey)} ${names.get(pharmacistId) ?? pharmacistId}`;
+    }
+    case 'notes':
+    case 'holidays':
+      return formatDate(key);
+    case 'roster':
+    case 'fte':
+      return names.get(key) ?? key;
+    case 'coverageRules':
+      return `週${WEEKDAY_NAMES[Number(key)]}`;
+    case 'shiftDefinitions':
+      return `${key}班`;
+    default:
+      return key;
+  }
+}
+
+// 衝突一邊的值的說明
+export function describeMergeValue(field: MergeField, value: unknown): string {
+  if (value === undefined) {
+    return field === 'schedule' ? '（未填）' : field === 'availability' ? '可上班' : '（無）';
+  }
+
+  switch (field) {
+    case 'schedule':
+      return (value as Shift[]).join('') || '休';
+    case 'availability':
+      return AVAILABILITY_LABELS[value as Availability];
+    case 'overtime':
+      return describeOvertimeEntry(value as OvertimeEntry);
+    case 'roster': {
+      const pharmacist = value as Pharmacist | ArchivedPharmacist;
+      const archived = 'archivedAt' in pharmacist ? `，${pharmacist.archivedAt} 封存` : '';
+      return `${pharmacist.name}（${pharmacist.label}${archived}）`;
+    }
+    case 'months':
+      return MONTH_STATUS_LABELS[(value as MonthInfo).status];
+    case 'holidays': {
+      const holiday = value as Holiday;
+      return `${holiday.name}（${holiday.kind === 'holiday' ? '放假' : '補班'}）`;
+    }
+    case 'coverageRules': {
+      const rules = value as RequiredShifts;
+      return `早${rules.morning} 午${rules.afternoon} 晚${rules.evening}`;
+    }
+    case 'shiftDefinitions':
+      return describeShiftDefinition(value as ShiftDefinition);
+    case 'notes':
+    case 'fte':
+      return String(value);
+    default:
+      return JSON.stringify(value);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { LEGACY_SAVE_FILES } from "@/schemas/legacyFixtures";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { createSaveData } from "./saveLoadUtils";
+import { repairSaveData } from "./saveRepair";
+
+const saveFile = (overrides: Record<string, unknown> = {}) => ({
+  ...createSaveData(
+    new Date(2025, 0, 1),
+    createDefaultPharmacists(),
+    { "2025-01-02": { p1: ["早"], p2: ["晚"] } },
+    { "2025-01-02": "盤點" }
+  ),
+  ...overrides,
+});
+
+describe("repairSaveData", () => {
+  it("leaves valid save files unchanged", () => {
+    const data = saveFile();
+    const result = repairSaveData(data);
+
+    expect(result).toEqual({ success: true, data, changes: [], errors: [] });
+  });
+
+  it("truncates notes that are too long", () => {
+    const result = repairSaveData(saveFile({ notes: { "2025-01-02": "x".repeat(600) } }));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.notes["2025-01-02"]).toHaveLength(500);
+    expect(result.changes).toEqual(["notes.2025-01-02 超過 500 字，已截斷"]);
+  });
+
+  it("drops unknown shifts and keeps the rest of the cell", () => {
+    const result = repairSaveData(
+      saveFile({ schedule: { "2025-01-02": { p1: ["早", "夜", "晚"] } } })
+    );
+
+    expect(result.data?.schedule).toEqual({ "2025-01-02": { p1: ["早", "晚"] } });
+    expect(result.changes).toEqual(["schedule.2025-01-02.p1 移除未知班別「夜」"]);
+  });
+
+  it("deduplicates cells with too many shifts", () => {
+    const result = repairSaveData(
+      saveFile({ schedule: { "2025-01-02": { p1: ["晚", "早", "早", "晚", "午"] } } })
+    );
+
+    expect(result.data?.schedule["2025-01-02"].p1).toEqual(["早", "午", "晚"]);
+  });
+
+  it("keeps the first 20 pharmacists", () => {
+    const pharmacists = Array.from({ length: 21 }, (_, i) => ({
+      id: `p${i + 1}`,
+      name: `藥師${i + 1}`,
+      label: `${i + 1}`,
+      color: "#000000",
+    }));
+    const result = repairSaveData(saveFile({ pharmacists }));
+
+    expect(result.data?.pharmacists).toHaveLength(20);
+    expect(result.changes).toEqual(["藥師超過 20 位，移除 藥師21"]);
+  });
+
+  it("moves unknown fields to the extras bag", () => {
+    const result = repairSaveData(saveFile({ printSettings: { paper: "A4" } }));
+
+    expect(result.data?.extras).toEqual({ printSettings: { paper: "A4" } });
+    expect(result.data).not.toHaveProperty("printSettings");
+    expect(result.changes).toEqual(["未知欄位 printSettings 移到 extras 保留"]);
+  });
+
+  it("fixes pharmacist labels and colors", () => {
+    const [first, ...rest] = createDefaultPharmacists();
+    const result = repairSaveData(
+      saveFile({ pharmacists: [{ ...first, label: "", color: "red" }, ...rest] })
+    );
+
+    expect(result.data?.pharmacists[0]).toMatchObject({ label: "邱", color: "#166534" });
+    expect(result.changes).toHaveLength(2);
+  });
+
+  it("removes invalid entries and falls back to defaults for optional fields", () => {
+    const result = repairSaveData(
+      saveFile({
+        schedule: { "2025-1-2": { p1: ["早"] }, "2025-01-03": { p1: ["午"] } },
+        availability: { "2025-01-02": { p1: "sick" } },
+        coverageRules: [],
+      })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data?.schedule).toEqual({ "2025-01-03": { p1: ["午"] } });
+    expect(result.data?.availability).toEqual({ "2025-01-02": {} });
+    expect(result.data).not.toHaveProperty("coverageRules");
+    expect(result.changes).toHaveLength(3);
+  });
+
+  it("repairs older save files before upgrading them", () => {
+    const result = repairSaveData({
+      ...LEGACY_SAVE_FILES["1.1.0"],
+      schedule: { "2025-01-02": { 邱: ["早", "夜"] } },
+      notes: { "2025-01-02": "x".repeat(600) },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.version).toBe("2.0.1");
+    expect(Object.values(result.data!.schedule)).toEqual([{ p1: ["早"] }]);
+    expect(result.changes).toEqual([
+      "schedule.2025-01-02.邱 移除未知班別「夜」",
+      "notes.2025-01-02 超過 500 字，已截斷",
+    ]);
+  });
+
+  it("gives up when a required field is broken", () => {
+    expect(repairSaveData(saveFile({ pharmacists: [] }))).toMatchObject({
+      success: false,
+      errors: ["無法修復 pharmacists：至少需要一位藥師"],
+    });
+    expect(repairSaveData(saveFile({ version: "9.0.0" })).success).toBe(false);
+    expect(repairSaveData("save").success).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { CURRENT_VERSION, SaveData, SaveDataSchema, validateSaveData } from '@/schemas/saveData';
+import { HISTORICAL_SCHEMAS, migrateToLatest } from '@/schemas/migrations';
+import { PHARMACIST_COLORS } from './rosterUtils';
+import { SHIFT_ORDER } from './scheduleUtils';
+
+// 修復結果：changes 列出每一項修改，讓使用者確認後再載入
+export interface RepairResult {
+  success: boolean;
+  data?: SaveData;
+  changes: string[];
+  errors: string[];
+}
+
+type Path = (string | number)[];
+
+// 修復後仍不符合格式時最多再嘗試的次數（修改一處可能讓其他問題浮現）
+const MAX_PASSES = 5;
+
+// 必填欄位無法以移除修復
+const REQUIRED_FIELDS = new Set(['version', 'currentMonth', 'pharmacists', 'schedule', 'notes', 'savedAt']);
+
+// 標記要移除的陣列元素或物件屬性，一輪修復結束後再一併移除，避免索引位移
+const REMOVED = Symbol('removed');
+
+const formatPath = (path: Path) => path.join('.');
+
+const getAt = (root: unknown, path: Path): unknown =>
+  path.reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    root
+  );
+
+const setAt = (root: Record<string, unknown>, path: Path, value: unknown) => {
+  const parent = getAt(root, path.slice(0, -1));
+  if (typeof parent === 'object' && parent !== null) {
+    (parent as Record<string | number, unknown>)[path[path.length - 1]] = value;
+  }
+};
+
+// 移除標記為 REMOVED 的元素與屬性
+const compact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== REMOVED).map(compact);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== REMOVED)
+        .map(([key, item]) => [key, compact(item)])
+    );
+  }
+  return value;
+};
+
+const describeValue = (value: unknown) =>
+  typeof value === 'string' ? `「${value.length > 20 ? `${value.slice(0, 20)}…` : value}」` : '';
+
+// 修復單一問題，回傳修改說明；無法修復時回傳 null
+function fixIssue(root: Record<string, unknown>, issue: z.ZodIssue): string | null {
+  const { path } = issue;
+  const value = getAt(root, path);
+  const field = path[0];
+
+  // 未知欄位：移到 extras 保留
+  if (issue.code === 'unrecognized_keys' && path.length === 0) {
+    const extras = { ...(root.extras as Record<string, unknown> | undefined) };
+    issue.keys.forEach(key => {
+      extras[key] = root[key];
+      delete root[key];
+    });
+    root.extras = extras;
+    return `未知欄位 ${issue.keys.join('、')} 移到 extras 保留`;
+  }
+  if (issue.code === 'unrecognized_keys' && typeof value === 'object' && value !== null) {
+    issue.keys.forEach(key => delete (value as Record<string, unknown>)[key]);
+    return `${formatPath(path)} 移除未知的設定 ${issue.keys.join('、')}`;
+  }
+
+  // 字串過長：截斷（備註、假日名稱、藥師簡稱等）
+  if (issue.code === 'too_big' && issue.type === 'string' && typeof value === 'string') {
+    setAt(root, path, value.slice(0, Number(issue.maximum)));
+    return `${formatPath(path)} 超過 ${issue.maximum} 字，已截斷`;
+  }
+
+  // 藥師過多：保留前面的藥師，其餘的排班資料不會顯示
+  if (issue.code === 'too_big' && issue.type === 'array' && field === 'pharmacists' && path.length === 1) {
+    const pharmacists = value as { name?: unknown }[];
+    const removed = pharmacists.slice(Number(issue.maximum));
+    setAt(root, path, pharmacists.slice(0, Number(issue.maximum)));
+    return `藥師超過 ${issue.maximum} 位，移除 ${removed.map(p => String(p?.name)).join('、')}`;
+  }
+
+  // 同一格班別過多：去除重複後依班別順序保留
+  if (issue.code === 'too_big' && issue.type === 'array' && field === 'schedule' && Array.isArray(value)) {
+    const shifts = SHIFT_ORDER.filter(shift => value.includes(shift)).slice(0, Number(issue.maximum));
+    setAt(root, path, shifts);
+    return `${formatPath(path)} 班別過多，只保留 ${shifts.join('')}`;
+  }
+
+  // 未知的班別：移除該班別
+  if (issue.code === 'invalid_enum_value' && field === 'schedule' && path.length === 4) {
+    setAt(root, path, REMOVED);
+    return `${formatPath(path.slice(0, 3))} 移除未知班別${describeValue(value)}`;
+  }
+
+  // 藥師簡稱或顏色錯誤：改用姓名首字與預設顏色
+  if (field === 'pharmacists' || field === 'archivedPharmacists') {
+    const pharmacist = getAt(root, path.slice(0, 2)) as Record<string, unknown> | undefined;
+    const name = typeof pharmacist?.name === 'string' ? pharmacist.name : '';
+    if (path[2] === 'label' && name !== '') {
+      setAt(root, path, name.slice(0, 4));
+      return `${formatPath(path)} 無效，改為「${name.slice(0, 4)}」`;
+    }
+    if (path[2] === 'color') {
+      const color = PHARMACIST_COLORS[Number(path[1]) % PHARMACIST_COLORS.length];
+      setAt(root, path, color);
+      return `${formatPath(path)} 無效，改為 ${color}`;
+    }
+  }
+
+  // 存檔時間錯誤：改為現在
+  if (field === 'savedAt' && path.length === 1) {
+    root.savedAt = new Date().toISOString();
+    return '存檔時間無效，改為現在';
+  }
+
+  // 其他問題：移除該筆資料（藥師整筆移除）；整個欄位無效時，選填欄位改用預設值
+  if (path.length >= 2) {
+    const removedPath = field === 'pharmacists' || field === 'archivedPharmacists' ? path.slice(0, 2) : path;
+    setAt(root, removedPath, REMOVED);
+    return `移除無效的 ${formatPath(removedPath)}：${issue.message}`;
+  }
+  if (path.length === 1 && !REQUIRED_FIELDS.has(String(field))) {
+    delete root[field];
+    return `欄位 ${field} 無效，改用預設值：${issue.message}`;
+  }
+
+  return null;
+}
+
+// 依 schema 逐項修復，回傳修復後的資料；遇到無法修復的問題時回傳錯誤
+function repairAgainst(
+  data: Record<string, unknown>,
+  schema: z.ZodTypeAny,
+  changes: string[]
+): { data: Record<string, unknown>; error?: string } {
+  let root = data;
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const result = schema.safeParse(root);
+    if (result.success) break;
+
+    for (const issue of result.error.issues) {
+      const change = fixIssue(root, issue);
+      if (change === null) {
+        return { data: root, error: `無法修復 ${formatPath(issue.path) || '存檔'}：${issue.message}` };
+      }
+      changes.push(change);
+    }
+    root = compact(root) as Record<string, unknown>;
+  }
+  return { data: root };
+}
+
+// 修復無法通過驗證的存檔：舊版本先依其歷史格式修復並升級，再依最新格式逐項修正；
+// 必填欄位損壞或版本不明時無法修復
+export function repairSaveData(data: unknown): RepairResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, changes: [], errors: ['檔案內容不是存檔資料'] };
+  }
+
+  const changes: string[] = [];
+  let root = structuredClone(data) as Record<string, unknown>;
+
+  if (root.version !== CURRENT_VERSION) {
+    const version = typeof root.version === 'string' ? root.version : '1.0.0';
+    const schema = HISTORICAL_SCHEMAS[version];
+    if (!schema) {
+      return { success: false, changes, errors: [`不支援的版本: ${version}`] };
+    }
+    const legacy = repairAgainst(root, schema, changes);
+    if (legacy.error) {
+      return { success: false, changes, errors: [legacy.error] };
+    }
+
+    const migration = migrateToLatest(legacy.data);
+    if (!migration.success || !migration.data) {
+      return { success: false, changes, errors: [migration.error ?? '版本遷移失敗'] };
+    }
+    root = migration.data;
+  }
+
+  const repaired = repairAgainst(root, SaveDataSchema, changes);
+  if (repaired.error) {
+    return { success: false, changes, errors: [repaired.error] };
+  }
+
+  const validation = validateSaveData(repaired.data);
+  if (!validation.isValid) {
+    return { success: false, changes, errors: validation.errors };
+  }
+  return { success: true, data: validation.data, changes, errors: [] };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultPharmacists } from "./rosterUtils";
+import {
+  CompareSide,
+  applyCellChanges,
+  applyNoteChanges,
+  diffSchedules,
+} from "./scheduleDiff";
+
+const PHARMACISTS = createDefaultPharmacists();
+
+const side = (overrides: Partial<CompareSide> = {}): CompareSide => ({
+  pharmacists: PHARMACISTS,
+  archivedPharmacists: [],
+  schedule: {},
+  notes: {},
+  ...overrides,
+});
+
+const base = side({
+  schedule: {
+    "2025-01-02": { p1: ["早"], p2: ["晚"] },
+    "2025-01-03": { p1: ["午", "早"] },
+  },
+  notes: { "2025-01-02": "盤點", "2025-01-03": "進貨" },
+});
+
+const incoming = side({
+  schedule: {
+    "2025-01-02": { p1: ["早"], p3: ["午"] },
+    "2025-01-03": { p1: ["早", "晚"] },
+    "2025-02-01": { p4: ["早"] },
+  },
+  notes: { "2025-01-02": "盤點（改期）", "2025-01-04": "教育訓練" },
+});
+
+describe("diffSchedules", () => {
+  const diff = diffSchedules(base, incoming, ["2025-01"]);
+
+  it("reports added, removed and changed cells", () => {
+    expect(diff.cells).toEqual([
+      { dateKey: "2025-01-02", pharmacistId: "p2", kind: "removed", before: ["晚"], after: [] },
+      { dateKey: "2025-01-02", pharmacistId: "p3", kind: "added", before: [], after: ["午"] },
+      {
+        dateKey: "2025-01-03",
+        pharmacistId: "p1",
+        kind: "changed",
+        before: ["早", "午"],
+        after: ["早", "晚"],
+      },
+    ]);
+  });
+
+  it("ignores the order of shifts within a cell", () => {
+    const before = side({ schedule: { "2025-01-03": { p1: ["午", "早"] } } });
+    const after = side({ schedule: { "2025-01-03": { p1: ["早", "午"] } } });
+
+    expect(diffSchedules(before, after).cells).toEqual([]);
+  });
+
+  it("reports note changes", () => {
+    expect(diff.notes).toEqual([
+      { dateKey: "2025-01-02", kind: "changed", before: "盤點", after: "盤點（改期）" },
+      { dateKey: "2025-01-03", kind: "removed", before: "進貨", after: "" },
+      { dateKey: "2025-01-04", kind: "added", before: "", after: "教育訓練" },
+    ]);
+  });
+
+  it("compares only the given months, defaulting to those in the incoming side", () => {
+    expect(diff.cells.some((change) => change.dateKey.startsWith("2025-02"))).toBe(false);
+    expect(diffSchedules(base, incoming).cells).toContainEqual({
+      dateKey: "2025-02-01",
+      pharmacistId: "p4",
+      kind: "added",
+      before: [],
+      after: ["早"],
+    });
+  });
+
+  it("reports roster changes by id", () => {
+    const renamed = side({
+      pharmacists: [{ ...PHARMACISTS[0], name: "邱二" }, ...PHARMACISTS.slice(1, 3)],
+      archivedPharmacists: [
+        { id: "p9", name: "王", label: "王", color: "#166534", archivedAt: "2025-01-10" },
+      ],
+    });
+
+    expect(
+      diffSchedules(side(), renamed, ["2025-01"]).roster.map(({ id, kind }) => [id, kind])
+    ).toEqual([
+      ["p1", "changed"],
+      ["p9", "added"],
+      ["p4", "removed"],
+    ]);
+  });
+});
+
+describe("applying a selection", () => {
+  const diff = diffSchedules(base, incoming, ["2025-01"]);
+
+  it("accepts only the selected cells and leaves the rejected ones", () => {
+    const [removed, added, changed] = diff.cells;
+    const result = applyCellChanges(base.schedule, [removed, changed]);
+
+    expect(result).toEqual({
+      "2025-01-02": { p1: ["早"], p2: [] },
+      "2025-01-03": { p1: ["早", "晚"] },
+    });
+    expect(result["2025-01-02"]).not.toHaveProperty(added.pharmacistId);
+    expect(base.schedule["2025-01-02"].p2).toEqual(["晚"]);
+  });
+
+  it("adds cells on dates the schedule does not have yet", () => {
+    const result = applyCellChanges({}, [diff.cells[1]]);
+
+    expect(result).toEqual({ "2025-01-02": { p3: ["午"] } });
+  });
+
+  it("accepts note changes and deletes emptied notes", () => {
+    expect(applyNoteChanges(base.notes, diff.notes)).toEqual(incoming.notes);
+    expect(applyNoteChanges(base.notes, [diff.notes[2]])).toEqual({
+      ...base.notes,
+      "2025-01-04": "教育訓練",
+    });
+  });
+
+  it("reaches the incoming side when every change is accepted", () => {
+    const accepted = applyCellChanges(base.schedule, diff.cells);
+
+    expect(diffSchedules(side({ schedule: accepted }), incoming, ["2025-01"]).cells).toEqual([]);
+  });
+});
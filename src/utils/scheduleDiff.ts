@@ -0,0 +1,158 @@
+import { ArchivedPharmacist, Notes, Pharmacist, Schedule, Shift } from '@/types/schedule';
+import { SHIFT_ORDER } from './scheduleUtils';
+import { getWorkspaceMonths } from './workspaceUtils';
+
+// 比較的一方：目前的工作區、讀入的存檔或自動存檔快照
+export interface CompareSide {
+  pharmacists: Pharmacist[];
+  archivedPharmacists: ArchivedPharmacist[];
+  schedule: Schedule;
+  notes: Notes;
+}
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+// 單一格子（日期 × 藥師）的班別差異
+export interface CellChange {
+  dateKey: string;
+  pharmacistId: string;
+  kind: ChangeKind;
+  before: Shift[];
+  after: Shift[];
+}
+
+export interface NoteChange {
+  dateKey: string;
+  kind: ChangeKind;
+  before: string;
+  after: string;
+}
+
+// 藥師名單差異：新增、對方沒有、姓名／簡稱／顏色不同
+export interface RosterChange {
+  id: string;
+  kind: ChangeKind;
+  before?: Pharmacist;
+  after?: Pharmacist;
+}
+
+export interface ScheduleDiff {
+  cells: CellChange[];
+  notes: NoteChange[];
+  roster: RosterChange[];
+}
+
+// 要接受的差異
+export interface CompareSelection {
+  cells: CellChange[];
+  notes: NoteChange[];
+}
+
+// 顯示在排班表上的比較結果；canApply 為 false 時只能檢視（例如比較兩份快照）
+export interface ScheduleComparison {
+  title: string;
+  diff: ScheduleDiff;
+  canApply: boolean;
+}
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  added: '新增',
+  removed: '移除',
+  changed: '變更',
+};
+
+const normalizeShifts = (shifts: Shift[] | undefined): Shift[] =>
+  SHIFT_ORDER.filter(shift => shifts?.includes(shift));
+
+const getChangeKind = (hasBefore: boolean, hasAfter: boolean): ChangeKind =>
+  !hasBefore ? 'added' : !hasAfter ? 'removed' : 'changed';
+
+const inMonths = (monthKeys: Set<string>) => (dateKey: string) => monthKeys.has(dateKey.slice(0, 7));
+
+// 比較兩個版本。只比較 monthKeys 內的日期，未指定時為 incoming 包含的月份
+export function diffSchedules(
+  base: CompareSide,
+  incoming: CompareSide,
+  monthKeys: string[] = getWorkspaceMonths({
+    months: {},
+    schedule: incoming.schedule,
+    notes: incoming.notes,
+    availability: {},
+    overtime: {},
+  })
+): ScheduleDiff {
+  const isIncluded = inMonths(new Set(monthKeys));
+
+  const cells: CellChange[] = [];
+  const dateKeys = new Set([...Object.keys(base.schedule), ...Object.keys(incoming.schedule)]);
+  [...dateKeys].filter(isIncluded).sort().forEach(dateKey => {
+    const baseDay = base.schedule[dateKey] ?? {};
+    const incomingDay = incoming.schedule[dateKey] ?? {};
+    new Set([...Object.keys(baseDay), ...Object.keys(incomingDay)]).forEach(pharmacistId => {
+      const before = normalizeShifts(baseDay[pharmacistId]);
+      const after = normalizeShifts(incomingDay[pharmacistId]);
+      if (before.join('') === after.join('')) return;
+      cells.push({
+        dateKey,
+        pharmacistId,
+        kind: getChangeKind(before.length > 0, after.length > 0),
+        before,
+        after,
+      });
+    });
+  });
+
+  const notes: NoteChange[] = [];
+  const noteKeys = new Set([...Object.keys(base.notes), ...Object.keys(incoming.notes)]);
+  [...noteKeys].filter(isIncluded).sort().forEach(dateKey => {
+    const before = base.notes[dateKey] ?? '';
+    const after = incoming.notes[dateKey] ?? '';
+    if (before === after) return;
+    notes.push({ dateKey, kind: getChangeKind(before !== '', after !== ''), before, after });
+  });
+
+  const baseById = new Map([...base.pharmacists, ...base.archivedPharmacists].map(p => [p.id, p]));
+  const incomingById = new Map(
+    [...incoming.pharmacists, ...incoming.archivedPharmacists].map(p => [p.id, p])
+  );
+  const roster: RosterChange[] = [];
+  incomingById.forEach((after, id) => {
+    const before = baseById.get(id);
+    if (!before) {
+      roster.push({ id, kind: 'added', after });
+    } else if (
+      before.name !== after.name ||
+      before.label !== after.label ||
+      before.color !== after.color
+    ) {
+      roster.push({ id, kind: 'changed', before, after });
+    }
+  });
+  base.pharmacists.forEach(before => {
+    if (!incomingById.has(before.id)) roster.push({ id: before.id, kind: 'removed', before });
+  });
+
+  return { cells, notes, roster };
+}
+
+// 將選取的格子改為對方的班別
+export function applyCellChanges(schedule: Schedule, changes: CellChange[]): Schedule {
+  const result: Schedule = { ...schedule };
+  changes.forEach(({ dateKey, pharmacistId, after }) => {
+    result[dateKey] = { ...result[dateKey], [pharmacistId]: after };
+  });
+  return result;
+}
+
+// 將選取的備註改為對方的內容
+export function applyNoteChanges(notes: Notes, changes: NoteChange[]): Notes {
+  const result: Notes = { ...notes };
+  changes.forEach(({ dateKey, after }) => {
+    if (after === '') {
+      delete result[dateKey];
+    } else {
+      result[dateKey] = after;
+    }
+  });
+  return result;
+}
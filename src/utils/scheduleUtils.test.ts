@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDefinitions } from "@/types/schedule";
+import {
+  DEFAULT_SHIFT_DEFINITIONS,
+  calculateStats,
+  describeOvertimeEntry,
+  describeShiftDefinitions,
+  getOvertimeTime,
+  getShiftHours,
+  getShiftTime,
+  removeStaleOvertime,
+} from "./scheduleUtils";
+import { getWeekStartKey } from "./calendarDate";
+
+const DEFINITIONS: ShiftDefinitions = {
+  早: { start: "08:00", end: "12:00", breakMinutes: 0 },
+  午: { start: "13:00", end: "18:00", breakMinutes: 30 },
+  晚: {
+    start: "18:00",
+    end: "22:00",
+    breakMinutes: 0,
+    weekdayOverrides: { 6: { start: "18:00", end: "20:00", breakMinutes: 0 } },
+  },
+  加: { start: "22:00", end: "00:30", breakMinutes: 0 },
+};
+
+describe("shift definitions", () => {
+  it("subtracts breaks and handles shifts past midnight", () => {
+    expect(getShiftHours(DEFINITIONS["午"])).toBe(4.5);
+    expect(getShiftHours(DEFINITIONS["加"])).toBe(2.5);
+  });
+
+  it("applies weekday overrides, following rulesOf on holidays", () => {
+    const saturday = new Date(2025, 0, 4);
+    const friday = new Date(2025, 0, 3);
+
+    expect(getShiftTime("晚", saturday, DEFINITIONS).end).toBe("20:00");
+    expect(getShiftTime("晚", friday, DEFINITIONS).end).toBe("22:00");
+    expect(
+      getShiftTime("晚", friday, DEFINITIONS, {
+        "2025-01-03": { name: "補班", kind: "makeup", rulesOf: 6 },
+      }).end
+    ).toBe("20:00");
+  });
+
+  it("describes the defaults", () => {
+    expect(describeShiftDefinitions(DEFAULT_SHIFT_DEFINITIONS)[2]).toBe(
+      "晚班 17:30-21:30（週六 17:30-20:00）"
+    );
+  });
+});
+
+describe("overtime entries", () => {
+  const saturday = new Date(2025, 0, 4);
+
+  it("uses the 加 shift time without an entry", () => {
+    expect(getOvertimeTime(saturday, undefined, DEFINITIONS)).toEqual(DEFINITIONS["加"]);
+  });
+
+  it("starts at the 加 shift time, or after the attached period", () => {
+    expect(getOvertimeTime(saturday, { hours: 1.5, reason: "" }, DEFINITIONS)).toMatchObject({
+      start: "22:00",
+      end: "23:30",
+    });
+    expect(
+      getOvertimeTime(saturday, { hours: 1.5, reason: "", period: "晚" }, DEFINITIONS)
+    ).toMatchObject({ start: "20:00", end: "21:30" });
+  });
+
+  it("describes an entry", () => {
+    expect(describeOvertimeEntry({ hours: 2, reason: "盤點", period: "晚" })).toBe(
+      "2小時（接在晚班後）：盤點"
+    );
+    expect(describeOvertimeEntry({ hours: 1, reason: "" })).toBe("1小時");
+  });
+
+  it("drops entries whose cell no longer has 加", () => {
+    const entry = { hours: 1, reason: "" };
+    expect(
+      removeStaleOvertime(
+        { "2025-01-03": { p1: entry, p2: entry }, "2025-01-04": { p1: entry } },
+        { "2025-01-03": { p1: ["早", "加"], p2: ["早"] } }
+      )
+    ).toEqual({ "2025-01-03": { p1: entry } });
+  });
+});
+
+describe("getWeekStartKey", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStartKey("2025-01-01")).toBe("2024-12-30");
+    expect(getWeekStartKey("2025-01-05")).toBe("2024-12-30");
+    expect(getWeekStartKey("2025-01-06")).toBe("2025-01-06");
+  });
+});
+
+describe("calculateStats", () => {
+  const stats = calculateStats(
+    new Date(2025, 0, 1),
+    {
+      "2025-01-03": { p1: ["早", "午"] },
+      "2025-01-04": { p1: ["晚", "加"] },
+      "2025-01-06": { p1: ["早", "晚"], p2: ["午"] },
+    },
+    ["p1", "p2"],
+    {},
+    DEFINITIONS
+  );
+
+  it("counts hours and overtime hours, keeping 加 out of the shift count", () => {
+    expect(stats.p1).toMatchObject({
+      shifts: 5,
+      hours: 4 + 4.5 + 2 + 2.5 + 4 + 4,
+      overtimeSessions: 1,
+      overtimeHours: 2.5,
+    });
+    expect(stats.p2).toMatchObject({ shifts: 1, hours: 4.5, overtimeSessions: 0, overtimeHours: 0 });
+  });
+
+  it("uses the recorded overtime duration", () => {
+    const withEntry = calculateStats(
+      new Date(2025, 0, 1),
+      { "2025-01-04": { p1: ["晚", "加"] } },
+      ["p1"],
+      {},
+      DEFINITIONS,
+      { "2025-01-04": { p1: { hours: 3, reason: "盤點", period: "晚" } } }
+    );
+    expect(withEntry.p1).toMatchObject({ hours: 2 + 3, overtimeSessions: 1, overtimeHours: 3 });
+  });
+
+  it("totals hours per week, listing every week of the month", () => {
+    expect(Object.keys(stats.p1.weeklyHours)).toEqual([
+      "2024-12-30",
+      "2025-01-06",
+      "2025-01-13",
+      "2025-01-20",
+      "2025-01-27",
+    ]);
+    expect(stats.p1.weeklyHours["2024-12-30"]).toBe(13);
+    expect(stats.p1.weeklyHours["2025-01-06"]).toBe(8);
+    expect(stats.p2.weeklyHours["2025-01-13"]).toBe(0);
+  });
+
+  it("counts the neighbouring months' days of a week that crosses the month boundary", () => {
+    const crossing = calculateStats(
+      new Date(2025, 0, 1),
+      {
+        "2024-12-30": { p1: ["早"] },
+        "2025-01-03": { p1: ["早", "午"] },
+        "2025-02-01": { p1: ["晚"] },
+      },
+      ["p1"],
+      {},
+      DEFINITIONS
+    );
+
+    expect(crossing.p1.weeklyHours["2024-12-30"]).toBe(4 + 4 + 4.5);
+    expect(crossing.p1.weeklyHours["2025-01-27"]).toBe(2);
+    expect(crossing.p1).toMatchObject({ shifts: 2, hours: 4 + 4.5 });
+  });
+});
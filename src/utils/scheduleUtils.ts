@@ -1,4 +1,18 @@
-import { RequiredShifts, Shift } from '@/types/schedule';
+import {
+  Availability,
+  CoverageRules,
+  HolidayCalendar,
+  OvertimeEntry,
+  OvertimeMap,
+  RequiredShifts,
+  PharmacistStats,
+  Schedule,
+  Shift,
+  ShiftDefinition,
+  ShiftDefinitions,
+  ShiftTime,
+} from '@/types/schedule';
+import { addDays, getWeekStartKey, parseDateKey, toDateKey } from './calendarDate';
 
 export const getDaysInMonth = (date: Date): Date[] => {
   const year = date.getFullYear();
@@ -18,34 +32,217 @@ export const getDayName = (date: Date): string => {
   return days[date.getDay()];
 };
 
-export const getRequiredShifts = (date: Date): RequiredShifts => {
-  const dayOfWeek = date.getDay();
-  
-  switch (dayOfWeek) {
-    case 1: // 週一
-      return { morning: 2, afternoon: 2, evening: 2, maxPerPerson: 2 };
-    case 2:
-    case 3:
-    case 4:
-    case 5: // 週二~五
-      return { morning: 1, afternoon: 1, evening: 2 };
-    case 6: // 週六
-      return { morning: 2, afternoon: 1, evening: 1 };
-    case 0: // 週日
-      return { morning: 0, afternoon: 0, evening: 0 }; // 全天休息
+// 班別的顯示順序
+export const SHIFT_ORDER: Shift[] = ['早', '午', '晚', '加'];
+
+// 上班節數：加班另外計算，不算一節
+export const getSessionCount = (shifts: Shift[]): number =>
+  shifts.filter((shift) => shift !== '加').length;
+
+// 預設的班別時間（週六晚班提早結束）
+export const DEFAULT_SHIFT_DEFINITIONS: ShiftDefinitions = {
+  早: { start: '08:30', end: '12:30', breakMinutes: 0 },
+  午: { start: '13:30', end: '17:30', breakMinutes: 0 },
+  晚: {
+    start: '17:30',
+    end: '21:30',
+    breakMinutes: 0,
+    weekdayOverrides: { 6: { start: '17:30', end: '20:00', breakMinutes: 0 } },
+  },
+  加: { start: '21:30', end: '22:30', breakMinutes: 0 },
+};
+
+// 某日的班別時間：國定假日與補班日比照 rulesOf 的星期
+export const getShiftTime = (
+  shift: Shift,
+  date: Date,
+  definitions: ShiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+  holidays: HolidayCalendar = {}
+): ShiftTime => {
+  const definition = definitions[shift];
+  const dayOfWeek = holidays[toDateKey(date)]?.rulesOf ?? date.getDay();
+  return definition.weekdayOverrides?.[dayOfWeek] ?? definition;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (minutes: number) => {
+  const normalized = minutes % (24 * 60);
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+// 加班的時間：附掛時段時接在該時段下班之後，否則從加班班別的上班時間開始，長度為明細的時數；
+// 沒有明細時即為加班班別的時間
+export const getOvertimeTime = (
+  date: Date,
+  entry?: OvertimeEntry,
+  definitions: ShiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+  holidays: HolidayCalendar = {}
+): ShiftTime => {
+  const base = getShiftTime(entry?.period ?? '加', date, definitions, holidays);
+  if (!entry) return base;
+  const start = entry.period ? base.end : base.start;
+  return { start, end: fromMinutes(toMinutes(start) + entry.hours * 60), breakMinutes: 0 };
+};
+
+// 加班明細的說明，例如「2小時（接在晚班後）：盤點」
+export const describeOvertimeEntry = ({ hours, reason, period }: OvertimeEntry): string =>
+  `${hours}小時${period ? `（接在${period}班後）` : ''}${reason ? `：${reason}` : ''}`;
+
+// 移除已沒有排「加」的格子所留下的加班明細（例如匯入或接受差異後）
+export const removeStaleOvertime = (overtime: OvertimeMap, schedule: Schedule): OvertimeMap => {
+  const result: OvertimeMap = {};
+  Object.entries(overtime).forEach(([dateKey, day]) => {
+    const kept = Object.entries(day).filter(([pharmacistId]) =>
+      (schedule[dateKey]?.[pharmacistId] ?? []).includes('加')
+    );
+    if (kept.length > 0) result[dateKey] = Object.fromEntries(kept);
+  });
+  return result;
+};
+
+// 上班到下班的分鐘數；下班早於上班時跨到隔天
+const getSpanMinutes = ({ start, end }: ShiftTime) =>
+  (toMinutes(end) - toMinutes(start) + 24 * 60) % (24 * 60) || 24 * 60;
+
+// 班別的工時（小時），扣除休息時間
+export const getShiftHours = (time: ShiftTime): number =>
+  Math.max(0, getSpanMinutes(time) - time.breakMinutes) / 60;
+
+// 某日班別的起訖，以距當日 0 點的分鐘數表示（跨夜的班別結束時間超過 24 小時）；
+// 加班依 overtime 明細計算
+export const getShiftInterval = (
+  shift: Shift,
+  date: Date,
+  definitions: ShiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+  holidays: HolidayCalendar = {},
+  overtime?: OvertimeEntry
+): { start: number; end: number } => {
+  const time =
+    shift === '加'
+      ? getOvertimeTime(date, overtime, definitions, holidays)
+      : getShiftTime(shift, date, definitions, holidays);
+  const start = toMinutes(time.start);
+  return { start, end: start + getSpanMinutes(time) };
+};
+
+const describeShiftTime = ({ start, end, breakMinutes }: ShiftTime) =>
+  `${start}-${end}${breakMinutes > 0 ? `，休息${breakMinutes}分` : ''}`;
+
+// 單一班別的時間說明，例如「17:30-21:30（週六 17:30-20:00）」
+export const describeShiftDefinition = (definition: ShiftDefinition): string => {
+  const dayNames = ['日', '一', '二', '三', '四', '五', '六'];
+  const overrides = Object.entries(definition.weekdayOverrides ?? {}).map(
+    ([dayOfWeek, time]) => `週${dayNames[Number(dayOfWeek)]} ${describeShiftTime(time)}`
+  );
+  return `${describeShiftTime(definition)}${overrides.length > 0 ? `（${overrides.join('；')}）` : ''}`;
+};
+
+export const describeShiftDefinitions = (definitions: ShiftDefinitions): string[] =>
+  SHIFT_ORDER.map((shift) => `${shift}班 ${describeShiftDefinition(definitions[shift])}`);
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  leave: '請假',
+  noEvening: '不上晚班',
+  morningOnly: '只上早班',
+};
+
+// 取得與請假登記衝突的班別
+export const getAvailabilityConflicts = (
+  shifts: Shift[],
+  availability?: Availability
+): Shift[] => {
+  switch (availability) {
+    case 'leave':
+      return shifts;
+    case 'noEvening':
+      return shifts.filter((shift) => shift === '晚');
+    case 'morningOnly':
+      return shifts.filter((shift) => shift === '午' || shift === '晚');
     default:
-      return { morning: 0, afternoon: 0, evening: 0 };
+      return [];
+  }
+};
+
+// 預設排班規則（索引對應 getDay()）
+export const DEFAULT_COVERAGE_RULES: CoverageRules = [
+  { morning: 0, afternoon: 0, evening: 0 }, // 週日：全天休息
+  { morning: 2, afternoon: 2, evening: 2, maxPerPerson: 2 }, // 週一
+  { morning: 1, afternoon: 1, evening: 2 }, // 週二
+  { morning: 1, afternoon: 1, evening: 2 }, // 週三
+  { morning: 1, afternoon: 1, evening: 2 }, // 週四
+  { morning: 1, afternoon: 1, evening: 2 }, // 週五
+  { morning: 2, afternoon: 1, evening: 1 }, // 週六
+];
+
+// 國定假日與補班日會覆寫原本星期的排班規則
+export const getRequiredShifts = (
+  date: Date,
+  rules: CoverageRules = DEFAULT_COVERAGE_RULES,
+  holidays: HolidayCalendar = {}
+): RequiredShifts => {
+  const holiday = holidays[toDateKey(date)];
+  if (holiday) {
+    return holiday.rulesOf === null
+      ? { morning: 0, afternoon: 0, evening: 0 }
+      : rules[holiday.rulesOf] ?? { morning: 0, afternoon: 0, evening: 0 };
+  }
+  return rules[date.getDay()] ?? { morning: 0, afternoon: 0, evening: 0 };
+};
+
+// 三個時段都不需要人時視為公休
+export const isClosedDay = (required: RequiredShifts): boolean =>
+  required.morning === 0 && required.afternoon === 0 && required.evening === 0;
+
+// 產生排班規則說明，連續且相同的星期合併為一行（例如「週二~五」）
+export const describeCoverageRules = (rules: CoverageRules): string[] => {
+  const weekOrder = [1, 2, 3, 4, 5, 6, 0];
+  const dayNames = ['日', '一', '二', '三', '四', '五', '六'];
+  const sameRule = (a: RequiredShifts, b: RequiredShifts) =>
+    a.morning === b.morning &&
+    a.afternoon === b.afternoon &&
+    a.evening === b.evening &&
+    a.maxPerPerson === b.maxPerPerson;
+  const lines: string[] = [];
+
+  for (let i = 0; i < weekOrder.length; ) {
+    const rule = rules[weekOrder[i]];
+    let j = i + 1;
+    while (j < weekOrder.length && sameRule(rules[weekOrder[j]], rule)) j++;
+
+    const first = dayNames[weekOrder[i]];
+    const last = dayNames[weekOrder[j - 1]];
+    const label = j - i > 1 ? `週${first}~${last}` : `週${first}`;
+
+    if (isClosedDay(rule)) {
+      lines.push(`${label}：全天休息`);
+    } else {
+      const limit =
+        rule.maxPerPerson !== undefined ? `，每人最多${rule.maxPerPerson}節` : '';
+      lines.push(
+        `${label}：早${rule.morning}人，午${rule.afternoon}人，晚${rule.evening}人${limit}`
+      );
+    }
+    i = j;
   }
+
+  return lines;
 };
 
 export const calculateStats = (
   currentMonth: Date,
   schedule: { [dateKey: string]: { [pharmacist: string]: Shift[] } },
-  pharmacists: string[]
-) => {
+  pharmacists: string[],
+  holidays: HolidayCalendar = {},
+  shiftDefinitions: ShiftDefinitions = DEFAULT_SHIFT_DEFINITIONS,
+  overtime: OvertimeMap = {}
+): { [pharmacistId: string]: PharmacistStats } => {
   const days = getDaysInMonth(currentMonth);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const stats: { [key: string]: any } = {};
+  const weekStartKeys = [...new Set(days.map((day) => getWeekStartKey(toDateKey(day))))];
+  const stats: { [pharmacistId: string]: PharmacistStats } = {};
   
   pharmacists.forEach(pharmacist => {
     stats[pharmacist] = {
@@ -53,14 +250,44 @@ export const calculateStats = (
       shifts: 0,
       morningEveningDays: 0,
       mondayHolidays: 0,
-      saturdayHolidays: 0
+      saturdayHolidays: 0,
+      holidayWorkDays: 0,
+      hours: 0,
+      overtimeSessions: 0,
+      overtimeHours: 0,
+      weeklyHours: Object.fromEntries(weekStartKeys.map((weekStartKey) => [weekStartKey, 0])),
     };
   });
 
+  const getHours = (shift: Shift, dateKey: string, pharmacist: string) => {
+    const day = parseDateKey(dateKey);
+    const time =
+      shift === '加'
+        ? getOvertimeTime(day, overtime[dateKey]?.[pharmacist], shiftDefinitions, holidays)
+        : getShiftTime(shift, day, shiftDefinitions, holidays);
+    return getShiftHours(time);
+  };
+
+  // 跨月的週，每週工時另外加上相鄰月份那幾天的班
+  const dateKeys = new Set(days.map(toDateKey));
+  weekStartKeys.forEach(weekStartKey => {
+    for (let offset = 0; offset < 7; offset++) {
+      const dateKey = addDays(weekStartKey, offset);
+      if (dateKeys.has(dateKey)) continue;
+      pharmacists.forEach(pharmacist => {
+        (schedule[dateKey]?.[pharmacist] ?? []).forEach(shift => {
+          stats[pharmacist].weeklyHours[weekStartKey] += getHours(shift, dateKey, pharmacist);
+        });
+      });
+    }
+  });
+
   days.forEach(day => {
-    const dateKey = day.toISOString().split('T')[0];
+    const dateKey = toDateKey(day);
     const daySchedule = schedule[dateKey] || {};
     const dayOfWeek = day.getDay();
+    const isNationalHoliday = holidays[dateKey]?.kind === 'holiday';
+    const weekStartKey = getWeekStartKey(dateKey);
     
     pharmacists.forEach(pharmacist => {
       const shifts = daySchedule[pharmacist] || [];
@@ -70,13 +297,33 @@ export const calculateStats = (
         if (dayOfWeek === 1) stats[pharmacist].mondayHolidays++;
         if (dayOfWeek === 6) stats[pharmacist].saturdayHolidays++;
       } else {
-        stats[pharmacist].shifts += shifts.length;
+        stats[pharmacist].shifts += getSessionCount(shifts);
+        if (isNationalHoliday) stats[pharmacist].holidayWorkDays++;
         if (shifts.includes('早') && shifts.includes('晚')) {
           stats[pharmacist].morningEveningDays++;
         }
+        shifts.forEach(shift => {
+          const hours = getHours(shift, dateKey, pharmacist);
+          stats[pharmacist].hours += hours;
+          stats[pharmacist].weeklyHours[weekStartKey] += hours;
+          if (shift === '加') {
+            stats[pharmacist].overtimeSessions++;
+            stats[pharmacist].overtimeHours += hours;
+          }
+        });
       }
     });
   });
 
+  // 以分鐘計算的工時換算成小時後可能有浮點誤差
+  const round = (hours: number) => Math.round(hours * 100) / 100;
+  Object.values(stats).forEach(stat => {
+    stat.hours = round(stat.hours);
+    stat.overtimeHours = round(stat.overtimeHours);
+    Object.keys(stat.weeklyHours).forEach(weekStartKey => {
+      stat.weeklyHours[weekStartKey] = round(stat.weeklyHours[weekStartKey]);
+    });
+  });
+
   return stats;
-}; 
\ No newline at end of file
+};
\ No newline at end of file
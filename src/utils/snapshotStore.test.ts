@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDefaultPharmacists } from "./rosterUtils";
+import { createSaveData } from "./saveLoadUtils";
+import {
+  MAX_SNAPSHOTS,
+  QUARANTINE_FULL_ERROR,
+  SNAPSHOT_INTERVAL_MS,
+  listSnapshots,
+  quarantineSnapshot,
+  readSnapshot,
+  startNewSnapshot,
+  writeSnapshot,
+} from "./snapshotStore";
+
+const START = new Date("2025-01-10T09:00:00Z").getTime();
+const INDEX_KEY = "pharmacist-schedule-snapshots";
+
+// 以 Map 模擬 localStorage；設定 capacity 時超過總字數會丟出配額錯誤
+class MemoryStorage {
+  items = new Map<string, string>();
+  capacity = Infinity;
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    const used = [...this.items].reduce(
+      (sum, [k, v]) => (k === key ? sum : sum + v.length),
+      0
+    );
+    if (used + value.length > this.capacity) {
+      throw new DOMException("配額已滿", "QuotaExceededError");
+    }
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+let storage: MemoryStorage;
+
+// 內容各不相同的存檔，避免被視為重複而略過
+const saveData = (note: string) =>
+  createSaveData(new Date(2025, 0, 1), createDefaultPharmacists(), {}, { "2025-01-02": note });
+
+// 每份快照間隔超過合併時間，各自建立新快照
+const writeSeparate = (count: number) =>
+  Array.from({ length: count }, (_, i) => {
+    const now = new Date(START + i * SNAPSHOT_INTERVAL_MS * 2);
+    vi.setSystemTime(now);
+    startNewSnapshot();
+    writeSnapshot(saveData(`第${i}份`), now);
+    return listSnapshots()[0].id;
+  });
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal("localStorage", storage);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START);
+  startNewSnapshot();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("snapshot rotation", () => {
+  it("updates the active snapshot within the interval and starts a new one after it", () => {
+    writeSnapshot(saveData("a"), new Date(START));
+    writeSnapshot(saveData("b"), new Date(START + SNAPSHOT_INTERVAL_MS - 1));
+    expect(listSnapshots()).toHaveLength(1);
+    expect(readSnapshot(listSnapshots()[0].id)).toContain('"b"');
+
+    writeSnapshot(saveData("c"), new Date(START + SNAPSHOT_INTERVAL_MS * 2));
+    expect(listSnapshots()).toHaveLength(2);
+  });
+
+  it("skips writes that do not change the content", () => {
+    writeSnapshot(saveData("a"), new Date(START));
+    startNewSnapshot();
+    writeSnapshot(saveData("a"), new Date(START + SNAPSHOT_INTERVAL_MS * 2));
+
+    expect(listSnapshots()).toHaveLength(1);
+  });
+
+  it("keeps at most MAX_SNAPSHOTS snapshots, dropping the oldest", () => {
+    const ids = writeSeparate(MAX_SNAPSHOTS + 2);
+
+    expect(listSnapshots().map((meta) => meta.id)).toEqual(ids.slice(2).reverse());
+    expect(readSnapshot(ids[0])).toBeNull();
+  });
+
+  it("drops the oldest snapshots when storage is full", () => {
+    const ids = writeSeparate(3);
+    storage.capacity = [...storage.items.values()].reduce((sum, v) => sum + v.length, 0) + 10;
+
+    startNewSnapshot();
+    expect(writeSnapshot(saveData("新的一份"), new Date(START + SNAPSHOT_INTERVAL_MS * 10))).toEqual({
+      success: true,
+    });
+    expect(listSnapshots().map((meta) => meta.id)).not.toContain(ids[0]);
+    expect(listSnapshots().map((meta) => meta.id)).toContain(ids[2]);
+  });
+});
+
+describe("quarantine", () => {
+  it("keeps the content of a quarantined snapshot readable", () => {
+    const [id] = writeSeparate(1);
+    const raw = readSnapshot(id);
+
+    quarantineSnapshot(id, ["版本不符"]);
+    expect(listSnapshots()[0]).toMatchObject({ id, quarantine: { errors: ["版本不符"] } });
+    expect(readSnapshot(id)).toBe(raw);
+  });
+
+  it("never removes quarantined snapshots on its own", () => {
+    const ids = writeSeparate(MAX_SNAPSHOTS).slice(0, 8);
+    ids.forEach((id) => quarantineSnapshot(id, ["損壞"]));
+    writeSeparate(MAX_SNAPSHOTS + 2);
+
+    const quarantined = listSnapshots().filter((meta) => meta.quarantine);
+    expect(quarantined.map((meta) => meta.id).sort()).toEqual([...ids].sort());
+    ids.forEach((id) => expect(readSnapshot(id)).not.toBeNull());
+  });
+
+  it("fails the write instead of removing quarantined snapshots when storage is full", () => {
+    const [id] = writeSeparate(1);
+    quarantineSnapshot(id, ["損壞"]);
+    const raw = readSnapshot(id);
+    storage.capacity = [...storage.items.values()].reduce((sum, v) => sum + v.length, 0) + 10;
+
+    startNewSnapshot();
+    expect(writeSnapshot(saveData("新的一份"), new Date(START + SNAPSHOT_INTERVAL_MS * 10))).toEqual({
+      success: false,
+      error: QUARANTINE_FULL_ERROR,
+    });
+    expect(listSnapshots()).toMatchObject([{ id, quarantine: { errors: ["損壞"] } }]);
+    expect(readSnapshot(id)).toBe(raw);
+  });
+});
+
+describe("index rebuild", () => {
+  it("rebuilds a corrupt index from the stored snapshots", () => {
+    const ids = writeSeparate(3);
+    storage.setItem(INDEX_KEY, "{不是 JSON");
+
+    expect(listSnapshots().map((meta) => meta.id)).toEqual([...ids].reverse());
+    expect(JSON.parse(storage.getItem(INDEX_KEY)!)).toHaveLength(3);
+  });
+
+  it("quarantines snapshots whose content cannot be read", () => {
+    const [id] = writeSeparate(1);
+    storage.setItem(`pharmacist-schedule-snapshot:${id}`, "損壞的內容");
+    storage.removeItem(INDEX_KEY);
+
+    expect(listSnapshots()).toMatchObject([{ id, quarantine: { errors: ["快照內容無法解析"] } }]);
+    expect(readSnapshot(id)).toBe("損壞的內容");
+    expect(storage.getItem(`pharmacist-schedule-snapshot:${id}`)).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+import { SaveData } from '@/schemas/saveData';
+import { getWorkspaceMonths } from './workspaceUtils';
+
+// 自動存檔快照：以輪替的 localStorage 鍵保存多個時間點的版本，
+// 索引另存一份，損壞的快照移到隔離區保留，不會被自動刪除
+const SNAPSHOT_INDEX_KEY = 'pharmacist-schedule-snapshots';
+const SNAPSHOT_KEY_PREFIX = 'pharmacist-schedule-snapshot:';
+const QUARANTINE_KEY_PREFIX = 'pharmacist-schedule-quarantine:';
+// 舊版唯一的自動存檔位置，第一次讀取快照時轉為一份快照
+const LEGACY_AUTO_SAVE_KEY = 'pharmacist-schedule-autosave';
+
+// 保留的快照數量上限（不含隔離的快照）
+export const MAX_SNAPSHOTS = 20;
+
+// 同一次使用中，距離快照建立不到此時間的自動存檔直接更新該快照
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SnapshotMeta {
+  id: string;
+  createdAt: string;
+  savedAt: string;
+  currentMonth: string;
+  months: string[]; // 快照包含的月份
+  // 讀取失敗而被隔離的快照
+  quarantine?: {
+    at: string;
+    errors: string[];
+  };
+}
+
+// 目前這次使用持續寫入的快照；重新整理頁面或還原快照後改寫新的快照，避免覆蓋舊版本
+let activeSnapshotId: string | null = null;
+
+const snapshotKey = (meta: Pick<SnapshotMeta, 'id' | 'quarantine'>) =>
+  (meta.quarantine ? QUARANTINE_KEY_PREFIX : SNAPSHOT_KEY_PREFIX) + meta.id;
+
+const createSnapshotId = (date: Date) =>
+  `${date.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 從快照內容擷取索引資訊；內容無法辨識時回傳 null
+const describeSnapshot = (raw: string): Pick<SnapshotMeta, 'savedAt' | 'currentMonth' | 'months'> | null => {
+  try {
+    const data = JSON.parse(raw);
+    if (typeof data?.savedAt !== 'string' || typeof data?.currentMonth !== 'string') return null;
+    return {
+      savedAt: data.savedAt,
+      currentMonth: data.currentMonth,
+      months: getWorkspaceMonths({
+        months: data.months ?? {},
+        schedule: data.schedule ?? {},
+        notes: data.notes ?? {},
+        availability: data.availability ?? {},
+        overtime: data.overtime ?? {},
+      }),
+    };
+  } catch {
+    return null;
+  }
+};
+
+const writeIndex = (index: SnapshotMeta[]) => {
+  localStorage.setItem(SNAPSHOT_INDEX_KEY, JSON.stringify(index));
+};
+
+// 比較快照內容（忽略存檔時間）
+const isSameContent = (raw: string | null, data: SaveData) => {
+  if (raw === null) return false;
+  try {
+    return JSON.stringify({ ...JSON.parse(raw), savedAt: '' }) === JSON.stringify({ ...data, savedAt: '' });
+  } catch {
+    return false;
+  }
+};
+
+// 索引遺失或損壞時，掃描 localStorage 中的快照重建索引；無法辨識的快照移到隔離區
+const rebuildIndex = (): SnapshotMeta[] => {
+  const now = new Date().toISOString();
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter(
+    (key): key is string =>
+      key !== null && (key.startsWith(SNAPSHOT_KEY_PREFIX) || key.startsWith(QUARANTINE_KEY_PREFIX))
+  );
+
+  const index = keys.map(key => {
+    const quarantined = key.startsWith(QUARANTINE_KEY_PREFIX);
+    const id = key.slice((quarantined ? QUARANTINE_KEY_PREFIX : SNAPSHOT_KEY_PREFIX).length);
+    const raw = localStorage.getItem(key) ?? '';
+    const info = describeSnapshot(raw);
+    const meta: SnapshotMeta = {
+      id,
+      createdAt: info?.savedAt ?? now,
+      savedAt: info?.savedAt ?? now,
+      currentMonth: info?.currentMonth ?? '',
+      months: info?.months ?? [],
+    };
+
+    if (quarantined) {
+      meta.quarantine = { at: now, errors: ['索引重建時找到的隔離快照'] };
+    } else if (!info) {
+      localStorage.removeItem(key);
+      meta.quarantine = { at: now, errors: ['快照內容無法解析'] };
+      localStorage.setItem(snapshotKey(meta), raw);
+    }
+    return meta;
+  });
+
+  return index.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+const readIndex = (): SnapshotMeta[] => {
+  let index: SnapshotMeta[] | null = null;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SNAPSHOT_INDEX_KEY) ?? 'null');
+    if (Array.isArray(parsed)) index = parsed;
+  } catch {
+    // 索引損壞，於下方重建
+  }
+  if (!index) {
+    index = rebuildIndex();
+    if (index.length > 0) writeIndex(index);
+  }
+
+  // 轉入舊版的單一自動存檔；寫入成功後才移除舊資料
+  const legacy = localStorage.getItem(LEGACY_AUTO_SAVE_KEY);
+  if (legacy !== null) {
+    const info = describeSnapshot(legacy);
+    const now = new Date().toISOString();
+    const meta: SnapshotMeta = {
+      id: createSnapshotId(new Date()),
+      createdAt: info?.savedAt ?? now,
+      savedAt: info?.savedAt ?? now,
+      currentMonth: info?.currentMonth ?? '',
+      months: info?.months ?? [],
+      ...(!info && { quarantine: { at: now, errors: ['舊版自動存檔內容無法解析'] } }),
+    };
+    try {
+      localStorage.setItem(snapshotKey(meta), legacy);
+      index = [...index, meta].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+      writeIndex(index);
+      localStorage.removeItem(LEGACY_AUTO_SAVE_KEY);
+    } catch (error) {
+      console.error('轉換舊版自動存檔失敗:', error);
+    }
+  }
+
+  return index;
+};
+
+export interface SnapshotWriteResult {
+  success: boolean;
+  error?: string;
+}
+
+// 儲存空間不足且只剩隔離的快照時不會自動刪除，由使用者下載或刪除後才能繼續寫入
+export const QUARANTINE_FULL_ERROR =
+  '瀏覽器儲存空間已滿，剩下的都是隔離的快照。請在快照列表中下載並刪除不需要的隔離快照，才能繼續自動存檔';
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// 列出所有快照（由新到舊），包含隔離的快照
+export function listSnapshots(): SnapshotMeta[] {
+  return readIndex();
+}
+
+// 讀取快照的原始內容（隔離的快照也可讀取，以便下載保存）
+export function readSnapshot(id: string): string | null {
+  const meta = readIndex().find(entry => entry.id === id);
+  return meta ? localStorage.getItem(snapshotKey(meta)) : null;
+}
+
+// 寫入自動存檔：內容與最新快照相同時略過；同一次使用中短時間內的存檔更新同一份快照，
+// 否則建立新快照。超過數量上限或儲存空間不足時，移除最舊的正常快照；隔離的快照一律保留
+export function writeSnapshot(data: SaveData, now: Date = new Date()): SnapshotWriteResult {
+  const index = readIndex();
+  const latest = index.find(entry => !entry.quarantine);
+  const raw = JSON.stringify(data);
+
+  if (latest && isSameContent(localStorage.getItem(snapshotKey(latest)), data)) {
+    return { success: true };
+  }
+
+  const reuse =
+    latest !== undefined &&
+    latest.id === activeSnapshotId &&
+    now.getTime() - new Date(latest.createdAt).getTime() < SNAPSHOT_INTERVAL_MS;
+  const target: SnapshotMeta = reuse
+    ? latest
+    : { id: createSnapshotId(now), createdAt: now.toISOString(), savedAt: '', currentMonth: '', months: [] };
+  Object.assign(target, describeSnapshot(raw));
+
+  let next = reuse ? index : [target, ...index];
+  const evict = () => {
+    const oldest = [...next].reverse().find(entry => !entry.quarantine && entry.id !== target.id);
+    if (!oldest) return false;
+    localStorage.removeItem(snapshotKey(oldest));
+    next = next.filter(entry => entry.id !== oldest.id);
+    return true;
+  };
+
+  while (next.filter(entry => !entry.quarantine).length > MAX_SNAPSHOTS) {
+    evict();
+  }
+
+  for (;;) {
+    try {
+      localStorage.setItem(snapshotKey(target), raw);
+      writeIndex(next);
+      activeSnapshotId = target.id;
+      return { success: true };
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        console.error('寫入自動存檔快照失敗:', error);
+        return { success: false, error: '寫入自動存檔快照失敗' };
+      }
+      if (!evict()) {
+        console.error('寫入自動存檔快照失敗:', error);
+        return {
+          success: false,
+          error: next.some(entry => entry.quarantine) ? QUARANTINE_FULL_ERROR : '瀏覽器儲存空間已滿',
+        };
+      }
+    }
+  }
+}
+
+// 將損壞的快照移到隔離區並記錄原因，內容保持不變
+export function quarantineSnapshot(id: string, errors: string[]): void {
+  const index = readIndex();
+  const meta = index.find(entry => entry.id === id);
+  if (!meta || meta.quarantine) return;
+
+  const raw = localStorage.getItem(snapshotKey(meta));
+  localStorage.removeItem(snapshotKey(meta));
+  meta.quarantine = { at: new Date().toISOString(), errors };
+  if (raw !== null) localStorage.setItem(snapshotKey(meta), raw);
+  writeIndex(index);
+
+  if (activeSnapshotId === id) activeSnapshotId = null;
+}
+
+// 手動刪除快照（包含隔離的快照）
+export function deleteSnapshot(id: string): void {
+  const index = readIndex();
+  const meta = index.find(entry => entry.id === id);
+  if (!meta) return;
+
+  localStorage.removeItem(snapshotKey(meta));
+  writeIndex(index.filter(entry => entry.id !== id));
+  if (activeSnapshotId === id) activeSnapshotId = null;
+}
+
+// 下一次自動存檔建立新的快照（例如還原舊快照後，避免覆蓋較新的版本）
+export function startNewSnapshot(): void {
+  activeSnapshotId = null;
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import writeXlsxFile from "write-excel-file/browser";
+import { Notes, Schedule } from "@/types/schedule";
+import { createDefaultPharmacists } from "./rosterUtils";
+import {
+  buildScheduleRows,
+  buildStatsRows,
+  parseCsv,
+  parseScheduleRows,
+  parseShiftCell,
+  readSpreadsheetFile,
+  toCsv,
+} from "./spreadsheetUtils";
+
+const MONTH = new Date(2025, 0, 1);
+const PHARMACISTS = createDefaultPharmacists();
+
+const input = (schedule: Schedule = {}, notes: Notes = {}) => ({
+  currentMonth: MONTH,
+  roster: PHARMACISTS,
+  schedule,
+  notes,
+  holidays: { "2025-01-01": { name: "元旦", kind: "holiday" as const, rulesOf: null } },
+});
+
+describe("parseShiftCell", () => {
+  it("parses shift letters in any order and with separators", () => {
+    expect(parseShiftCell("早晚")).toEqual(["早", "晚"]);
+    expect(parseShiftCell("晚 / 早")).toEqual(["早", "晚"]);
+    expect(parseShiftCell("加午")).toEqual(["午", "加"]);
+  });
+
+  it("treats empty cells and 休 as a day off", () => {
+    expect(parseShiftCell("")).toEqual([]);
+    expect(parseShiftCell(" 休 ")).toEqual([]);
+    expect(parseShiftCell("-")).toEqual([]);
+  });
+
+  it("rejects unknown shifts", () => {
+    expect(parseShiftCell("夜")).toBeNull();
+    expect(parseShiftCell("早夜")).toBeNull();
+  });
+});
+
+describe("CSV", () => {
+  it("escapes and parses quotes, commas and line breaks", () => {
+    const rows = [["日期", "備註"], ["2025-01-02", '盤點, "全員"\n加班']];
+
+    expect(toCsv(rows)).toBe('日期,備註\r\n2025-01-02,"盤點, ""全員""\n加班"');
+    expect(parseCsv("﻿" + toCsv(rows))).toEqual(rows);
+  });
+
+  it("prefixes text that a spreadsheet would run as a formula", () => {
+    const rows = [["=HYPERLINK(\"http://x\")", "+886", "-加班", "@SUM(A1)", "盤點=2人", -1]];
+
+    expect(toCsv(rows)).toBe(`"'=HYPERLINK(""http://x"")",'+886,'-加班,'@SUM(A1),盤點=2人,-1`);
+  });
+});
+
+describe("buildScheduleRows / buildStatsRows", () => {
+  it("writes one row per day with notes and holiday names", () => {
+    const rows = buildScheduleRows(
+      input({ "2025-01-02": { p1: ["早", "晚"] } }, { "2025-01-02": "盤點" })
+    );
+
+    expect(rows[0]).toEqual(["日期", "星期", ...PHARMACISTS.map((p) => p.name), "備註"]);
+    expect(rows).toHaveLength(32);
+    expect(rows[1].slice(0, 2)).toEqual(["2025-01-01", "週三（元旦）"]);
+    expect(rows[2]).toEqual(["2025-01-02", "週四", "早晚", "", "", "", "盤點"]);
+  });
+
+  it("writes the stats of every pharmacist", () => {
+    const rows = buildStatsRows(input({ "2025-01-02": { p1: ["早", "晚"] } }));
+
+    expect(rows[0][0]).toBe("藥師");
+    expect(rows).toHaveLength(PHARMACISTS.length + 1);
+    expect(rows[1][0]).toBe(PHARMACISTS[0].name);
+    expect(rows[1][1]).toBe(2);
+  });
+});
+
+describe("parseScheduleRows", () => {
+  it("reads back an exported schedule", () => {
+    const schedule: Schedule = { "2025-01-02": { p1: ["早", "晚"], p2: ["午", "加"] } };
+    const notes: Notes = { "2025-01-02": "盤點" };
+    const rows = parseCsv(toCsv([...buildScheduleRows(input(schedule, notes)), [], ...buildStatsRows(input(schedule))]));
+
+    const result = parseScheduleRows(rows, PHARMACISTS, MONTH);
+    expect(result.success).toBe(true);
+    expect(result.monthKeys).toEqual(["2025-01"]);
+    expect(result.pharmacistIds).toEqual(PHARMACISTS.map((p) => p.id));
+    expect(result.schedule["2025-01-02"]).toEqual({ p1: ["早", "晚"], p2: ["午", "加"], p3: [], p4: [] });
+    expect(Object.keys(result.schedule)).toHaveLength(31);
+    expect(result.notes).toEqual(notes);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("reads back notes that were prefixed to stop formulas", () => {
+    const notes: Notes = { "2025-01-02": "=1+1", "2025-01-03": "-盤點" };
+    const rows = parseCsv(toCsv(buildScheduleRows(input({}, notes))));
+
+    expect(rows[2].at(-1)).toBe("'=1+1");
+    expect(parseScheduleRows(rows, PHARMACISTS, MONTH).notes).toEqual(notes);
+  });
+
+  it("maps columns by label and accepts short dates", () => {
+    const rows = [
+      ["排班表"],
+      ["日期", PHARMACISTS[1].label, "代班"],
+      ["1/3", "早午", "晚"],
+      ["1/4", "夜", ""],
+    ];
+
+    const result = parseScheduleRows(rows, PHARMACISTS, MONTH);
+    expect(result.success).toBe(true);
+    expect(result.hasNotes).toBe(false);
+    expect(result.schedule).toEqual({
+      "2025-01-03": { p2: ["早", "午"] },
+      "2025-01-04": {},
+    });
+    expect(result.warnings).toEqual([
+      "略過無法對應藥師的欄位「代班」",
+      `第 4 列「${PHARMACISTS[1].label}」：無法辨識「夜」，已略過`,
+    ]);
+  });
+
+  it("skips rows without a valid date", () => {
+    const result = parseScheduleRows(
+      [["日期", PHARMACISTS[0].name], ["2025-02-30", "早"], ["2025-02-03", "晚"]],
+      PHARMACISTS,
+      MONTH
+    );
+
+    expect(result.schedule).toEqual({ "2025-02-03": { p1: ["晚"] } });
+    expect(result.warnings).toEqual(["第 2 列：無法辨識日期「2025-02-30」，已略過"]);
+  });
+
+  it("fails without a date column or matching pharmacists", () => {
+    expect(parseScheduleRows([["姓名", "早"]], PHARMACISTS, MONTH).errors).toEqual(["找不到「日期」欄"]);
+    expect(parseScheduleRows([["日期", "王"]], PHARMACISTS, MONTH).errors).toEqual([
+      "表頭中沒有任何欄位對應到目前的藥師",
+    ]);
+  });
+
+  it("validates notes through the schema", () => {
+    const result = parseScheduleRows(
+      [["日期", PHARMACISTS[0].name, "備註"], ["2025-01-02", "早", "x".repeat(501)]],
+      PHARMACISTS,
+      MONTH
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/^2025-01-02:/);
+  });
+});
+
+describe("readSpreadsheetFile", () => {
+  it("reads the 排班 sheet of an .xlsx workbook", async () => {
+    const blob = await writeXlsxFile([
+      { sheet: "統計", data: [["藥師", "班數"]] },
+      {
+        sheet: "排班",
+        dateFormat: "yyyy-mm-dd",
+        data: [["日期", "邱"], [new Date(Date.UTC(2025, 0, 2)), "早晚"], ["2025-01-03", null]],
+      },
+    ]).toBlob();
+    const rows = await readSpreadsheetFile(new File([blob], "排班.xlsx"));
+
+    expect(rows).toEqual([["日期", "邱"], ["2025-01-02", "早晚"], ["2025-01-03", ""]]);
+  });
+
+  it("rejects legacy .xls files", async () => {
+    await expect(readSpreadsheetFile(new File([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0])], "排班.xls"))).rejects.toThrow();
+  });
+});
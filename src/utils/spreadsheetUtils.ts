@@ -0,0 +1,372 @@
+import readXlsxFile from 'read-excel-file/browser';
+import writeXlsxFile, { SheetData } from 'write-excel-file/browser';
+import { NotesSchema, ScheduleSchema } from '@/schemas/saveData';
+import {
+  HolidayCalendar,
+  Notes,
+  OvertimeMap,
+  Pharmacist,
+  PharmacistStatKey,
+  Schedule,
+  Shift,
+  ShiftDefinitions,
+} from '@/types/schedule';
+import { calculateStats, getDayName, getDaysInMonth, SHIFT_ORDER } from './scheduleUtils';
+import { toDateKey } from './calendarDate';
+import { downloadBlob } from './download';
+import { buildOvertimeReportRows } from './overtimeReport';
+
+// 試算表格式：日期 × 藥師的排班表，最後一欄為備註；統計與加班明細各存一個工作表（CSV 依序接在排班表後，中間空一列）
+const DATE_HEADER = '日期';
+const WEEKDAY_HEADER = '星期';
+const NOTE_HEADER = '備註';
+const SCHEDULE_SHEET = '排班';
+const STATS_SHEET = '統計';
+const OVERTIME_SHEET = '加班';
+
+const STATS_COLUMNS: { key: PharmacistStatKey; label: string }[] = [
+  { key: 'shifts', label: '班數' },
+  { key: 'holidays', label: '休假天數' },
+  { key: 'morningEveningDays', label: '早晚班天數' },
+  { key: 'mondayHolidays', label: '週一休假' },
+  { key: 'saturdayHolidays', label: '週六休假' },
+  { key: 'holidayWorkDays', label: '國定假日上班' },
+  { key: 'hours', label: '總工時' },
+  { key: 'overtimeSessions', label: '加班次數' },
+  { key: 'overtimeHours', label: '加班工時' },
+];
+
+// 格子中班別之間允許的分隔字元
+const SHIFT_SEPARATORS = /[\s,，、/+]/g;
+// 代表休息的格子內容
+const OFF_VALUES = new Set(['', '休', '-', '—']);
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const SPREADSHEET_FORMAT_LABELS: Record<SpreadsheetFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+};
+
+export interface SpreadsheetExportInput {
+  currentMonth: Date;
+  roster: Pharmacist[];
+  schedule: Schedule;
+  notes: Notes;
+  holidays: HolidayCalendar;
+  shiftDefinitions?: ShiftDefinitions;
+  overtime?: OvertimeMap;
+}
+
+export interface SpreadsheetImportResult {
+  success: boolean;
+  schedule: Schedule;
+  notes: Notes;
+  // 匯入資料涵蓋的月份
+  monthKeys: string[];
+  // 對應到藥師的欄位
+  pharmacistIds: string[];
+  // 有備註欄時，匯入日期中空白的備註代表清除
+  hasNotes: boolean;
+  errors: string[];
+  // 略過的欄位與格子
+  warnings: string[];
+}
+
+// 排班表：每天一列；國定假日名稱附在星期欄，匯入時不讀取
+export function buildScheduleRows({ currentMonth, roster, schedule, notes, holidays }: SpreadsheetExportInput): string[][] {
+  const header = [DATE_HEADER, WEEKDAY_HEADER, ...roster.map(p => p.name), NOTE_HEADER];
+  const rows = getDaysInMonth(currentMonth).map(day => {
+    const dateKey = toDateKey(day);
+    const holiday = holidays[dateKey];
+    return [
+      dateKey,
+      holiday ? `週${getDayName(day)}（${holiday.name}）` : `週${getDayName(day)}`,
+      ...roster.map(p => (schedule[dateKey]?.[p.id] ?? []).join('')),
+      notes[dateKey] ?? '',
+    ];
+  });
+  return [header, ...rows];
+}
+
+// 統計表：每位藥師一列，數值來自 calculateStats；每週工時接在後面，以該週週一的日期為欄名
+export function buildStatsRows({
+  currentMonth,
+  roster,
+  schedule,
+  holidays,
+  shiftDefinitions,
+  overtime,
+}: SpreadsheetExportInput): (string | number)[][] {
+  const stats = calculateStats(currentMonth, schedule, roster.map(p => p.id), holidays, shiftDefinitions, overtime);
+  const weekStartKeys = Object.keys(stats[roster[0]?.id]?.weeklyHours ?? {});
+  return [
+    ['藥師', ...STATS_COLUMNS.map(column => column.label), ...weekStartKeys.map(key => `${key} 週工時`)],
+    ...roster.map(p => [
+      p.name,
+      ...STATS_COLUMNS.map(column => stats[p.id][column.key]),
+      ...weekStartKeys.map(key => stats[p.id].weeklyHours[key]),
+    ]),
+  ];
+}
+
+// 以 = + - @ 開頭的文字會被試算表當成公式執行，匯出時在前面加上 '；匯入備註時再去掉
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const escapeFormula = (value: string | number) =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const unescapeFormula = (text: string) =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(value => escapeCsvCell(escapeFormula(value))).join(',')).join('\r\n');
+}
+
+// 解析 CSV（RFC 4180：雙引號包住的欄位可以包含逗號、換行與成對的雙引號）
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const fileBaseName = (currentMonth: Date) =>
+  `藥師排班_${currentMonth.getFullYear()}年${String(currentMonth.getMonth() + 1).padStart(2, '0')}月`;
+
+// 匯出 CSV；加上 BOM 讓 Excel 以 UTF-8 開啟
+export function exportScheduleCsv(input: SpreadsheetExportInput): void {
+  const csv = toCsv([
+    ...buildScheduleRows(input),
+    [],
+    ...buildStatsRows(input),
+    [],
+    ...buildOvertimeReportRows(input),
+  ]);
+  downloadBlob(new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8' }), `${fileBaseName(input.currentMonth)}.csv`);
+}
+
+type SheetRows = (string | number)[][];
+
+// 寫出 .xlsx 活頁簿並下載；columns 為各欄寬度（字元數）
+const downloadWorkbook = async (
+  sheets: { sheet: string; rows: SheetRows; columns?: number[] }[],
+  fileName: string
+) => {
+  const blob = await writeXlsxFile(
+    sheets.map(({ sheet, rows, columns }) => ({
+      sheet,
+      data: rows.map(row => row.map(escapeFormula)) as SheetData,
+      ...(columns && { columns: columns.map(width => ({ width })) }),
+    }))
+  ).toBlob();
+  downloadBlob(blob, fileName);
+};
+
+// 匯出 Excel 活頁簿：排班、統計與加班明細各一個工作表
+export async function exportScheduleXlsx(input: SpreadsheetExportInput): Promise<void> {
+  await downloadWorkbook(
+    [
+      {
+        sheet: SCHEDULE_SHEET,
+        rows: buildScheduleRows(input),
+        columns: [12, 6, ...input.roster.map(() => 8), 30],
+      },
+      { sheet: STATS_SHEET, rows: buildStatsRows(input) },
+      { sheet: OVERTIME_SHEET, rows: buildOvertimeReportRows(input) },
+    ],
+    `${fileBaseName(input.currentMonth)}.xlsx`
+  );
+}
+
+export async function exportSpreadsheet(format: SpreadsheetFormat, input: SpreadsheetExportInput): Promise<void> {
+  if (format === 'csv') {
+    exportScheduleCsv(input);
+  } else {
+    await exportScheduleXlsx(input);
+  }
+}
+
+// 只匯出本月的加班報表
+export async function exportOvertimeReport(format: SpreadsheetFormat, input: SpreadsheetExportInput): Promise<void> {
+  const rows = buildOvertimeReportRows(input);
+  const name = `${fileBaseName(input.currentMonth)}_加班報表`;
+  if (format === 'csv') {
+    downloadBlob(new Blob(['﻿' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${name}.csv`);
+  } else {
+    await downloadWorkbook([{ sheet: OVERTIME_SHEET, rows }], `${name}.xlsx`);
+  }
+}
+
+// .xlsx 的日期格子讀入時為 UTC 午夜的 Date，轉回日期鍵
+const formatSheetCell = (cell: unknown): string =>
+  cell === null || cell === undefined
+    ? ''
+    : cell instanceof Date
+      ? cell.toISOString().slice(0, 10)
+      : String(cell);
+
+// 讀取試算表檔案的排班工作表（沒有「排班」工作表時使用第一個）；只支援 CSV 與 .xlsx
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return parseCsv(await file.text());
+  }
+
+  const sheets = await readXlsxFile(file);
+  const sheet = sheets.find(entry => entry.sheet === SCHEDULE_SHEET) ?? sheets[0];
+  if (!sheet) return [];
+  return sheet.data.map(row => row.map(formatSheetCell));
+}
+
+// 將「早晚」、「早/午」、「休」等格子內容轉為班別；無法辨識時回傳 null
+export function parseShiftCell(text: string): Shift[] | null {
+  const compact = text.replace(SHIFT_SEPARATORS, '');
+  if (OFF_VALUES.has(compact)) return [];
+  const chars = [...compact];
+  if (!chars.every(char => (SHIFT_ORDER as string[]).includes(char))) return null;
+  return SHIFT_ORDER.filter(shift => chars.includes(shift));
+}
+
+// 日期格子：YYYY-MM-DD、YYYY/M/D，或只有 M/D（以 fallbackMonth 的年份補上）
+const parseDateCell = (text: string, fallbackMonth: Date): string | null => {
+  const full = text.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const short = text.trim().match(/^(\d{1,2})\/(\d{1,2})$/);
+  const [year, month, day] = full
+    ? [Number(full[1]), Number(full[2]), Number(full[3])]
+    : short
+    ? [fallbackMonth.getFullYear(), Number(short[1]), Number(short[2])]
+    : [NaN, NaN, NaN];
+  const date = new Date(year, month - 1, day);
+  if (Number.isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+};
+
+// 將試算表的列轉為排班與備註：表頭以姓名或簡稱對應藥師，排班表之後的空白列以下不讀取
+export function parseScheduleRows(
+  rows: string[][],
+  pharmacists: Pharmacist[],
+  fallbackMonth: Date
+): SpreadsheetImportResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const schedule: Schedule = {};
+  const notes: Notes = {};
+  const fail = (...messages: string[]): SpreadsheetImportResult => ({
+    success: false,
+    schedule: {},
+    notes: {},
+    monthKeys: [],
+    pharmacistIds: [],
+    hasNotes: false,
+    errors: messages,
+    warnings,
+  });
+
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() === DATE_HEADER));
+  if (headerIndex === -1) return fail(`找不到「${DATE_HEADER}」欄`);
+
+  const header = rows[headerIndex].map(cell => cell.trim());
+  const dateColumn = header.indexOf(DATE_HEADER);
+  const noteColumn = header.indexOf(NOTE_HEADER);
+  const columns = new Map<number, string>();
+  header.forEach((title, index) => {
+    if ([dateColumn, noteColumn].includes(index) || title === WEEKDAY_HEADER || title === '') return;
+    const pharmacist =
+      pharmacists.find(p => p.name === title) ?? pharmacists.find(p => p.label === title);
+    if (pharmacist && ![...columns.values()].includes(pharmacist.id)) {
+      columns.set(index, pharmacist.id);
+    } else {
+      warnings.push(`略過無法對應藥師的欄位「${title}」`);
+    }
+  });
+  if (columns.size === 0) return fail('表頭中沒有任何欄位對應到目前的藥師');
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every(cell => cell.trim() === '')) {
+      if (Object.keys(schedule).length > 0) break;
+      continue;
+    }
+
+    const dateKey = parseDateCell(row[dateColumn] ?? '', fallbackMonth);
+    if (!dateKey) {
+      warnings.push(`第 ${i + 1} 列：無法辨識日期「${row[dateColumn] ?? ''}」，已略過`);
+      continue;
+    }
+
+    schedule[dateKey] = {};
+    columns.forEach((pharmacistId, column) => {
+      const text = row[column] ?? '';
+      const shifts = parseShiftCell(text);
+      if (shifts === null) {
+        warnings.push(`第 ${i + 1} 列「${header[column]}」：無法辨識「${text}」，已略過`);
+        return;
+      }
+      schedule[dateKey][pharmacistId] = shifts;
+    });
+
+    const note = noteColumn === -1 ? '' : unescapeFormula((row[noteColumn] ?? '').trim());
+    if (note !== '') notes[dateKey] = note;
+  }
+
+  [ScheduleSchema.safeParse(schedule), NotesSchema.safeParse(notes)].forEach(result => {
+    if (!result.success) {
+      errors.push(...result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`));
+    }
+  });
+  if (errors.length > 0) return fail(...errors);
+  if (Object.keys(schedule).length === 0) return fail('試算表中沒有任何排班資料');
+
+  return {
+    success: true,
+    schedule,
+    notes,
+    monthKeys: [...new Set(Object.keys(schedule).map(dateKey => dateKey.slice(0, 7)))].sort(),
+    pharmacistIds: [...columns.values()],
+    hasNotes: noteColumn !== -1,
+    errors: [],
+    warnings,
+  };
+}
+
+// 匯入的月份鍵（供顯示）
+export const formatImportMonths = (monthKeys: string[]) =>
+  monthKeys.map(monthKey => `${monthKey.slice(0, 4)}年${Number(monthKey.slice(5, 7))}月`).join('、');
@@ -0,0 +1,136 @@
+import { AvailabilityMap, MonthIndex, MonthStatus, Notes, OvertimeMap, Schedule } from '@/types/schedule';
+import { parseMonthKey, toMonthKey } from './calendarDate';
+
+// 工作區中以日期為鍵、可依月份切分的資料
+export interface WorkspaceData {
+  months: MonthIndex;
+  schedule: Schedule;
+  notes: Notes;
+  availability: AvailabilityMap;
+  overtime: OvertimeMap;
+}
+
+export const MONTH_STATUS_LABELS: Record<MonthStatus, string> = {
+  draft: '草稿',
+  locked: '已鎖定',
+  published: '已發布',
+};
+
+// 列出起訖月份（含）之間的所有月份
+export function getMonthKeyRange(from: string, to: string): string[] {
+  const [fromKey, toKey] = from <= to ? [from, to] : [to, from];
+  const keys: string[] = [];
+  const cursor = parseMonthKey(fromKey);
+
+  while (toMonthKey(cursor) <= toKey) {
+    keys.push(toMonthKey(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return keys;
+}
+
+// 工作區中有資料或已登記狀態的月份（由舊到新）
+export function getWorkspaceMonths(data: WorkspaceData): string[] {
+  const keys = new Set(Object.keys(data.months));
+  [data.schedule, data.notes, data.availability, data.overtime].forEach(map => {
+    Object.keys(map).forEach(dateKey => keys.add(dateKey.slice(0, 7)));
+  });
+  return [...keys].sort();
+}
+
+export function getMonthStatus(months: MonthIndex, monthKey: string): MonthStatus {
+  return months[monthKey]?.status ?? 'draft';
+}
+
+// 鎖定或已發布的月份不可編輯
+export function isMonthEditable(months: MonthIndex, monthKey: string): boolean {
+  return getMonthStatus(months, monthKey) === 'draft';
+}
+
+const pickMonths = <T>(data: Record<string, T>, monthKeys: Set<string>): Record<string, T> =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => monthKeys.has(key.slice(0, 7))));
+
+const omitMonths = <T>(data: Record<string, T>, monthKeys: Set<string>): Record<string, T> =>
+  Object.fromEntries(Object.entries(data).filter(([key]) => !monthKeys.has(key.slice(0, 7))));
+
+// 批次修改後還原鎖定或已發布月份的原始內容
+export function keepLockedMonths<T>(
+  months: MonthIndex,
+  next: Record<string, T>,
+  previous: Record<string, T>
+): Record<string, T> {
+  const locked = new Set(Object.keys(months).filter(key => !isMonthEditable(months, key)));
+  if (locked.size === 0) return next;
+  return { ...omitMonths(next, locked), ...pickMonths(previous, locked) };
+}
+
+// 取出指定月份的資料；月份索引會列出每個月份，作為檔案包含範圍的紀錄
+export function sliceWorkspace(data: WorkspaceData, monthKeys: string[]): WorkspaceData {
+  const keys = new Set(monthKeys);
+  return {
+    months: Object.fromEntries(
+      monthKeys.map(key => [key, data.months[key] ?? { status: 'draft' as const }])
+    ),
+    schedule: pickMonths(data.schedule, keys),
+    notes: pickMonths(data.notes, keys),
+    availability: pickMonths(data.availability, keys),
+    overtime: pickMonths(data.overtime, keys),
+  };
+}
+
+// 以匯入資料取代工作區中相同月份的內容，其他月份保持不變
+export function mergeWorkspace(
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+  monthKeys: string[] = getWorkspaceMonths(incoming)
+): WorkspaceData {
+  const keys = new Set(monthKeys);
+  return {
+    months: { ...omitMonths(current.months, keys), ...pickMonths(incoming.months, keys) },
+    schedule: { ...omitMonths(current.schedule, keys), ...pickMonths(incoming.schedule, keys) },
+    notes: { ...omitMonths(current.notes, keys), ...pickMonths(incoming.notes, keys) },
+    availability: {
+      ...omitMonths(current.availability, keys),
+      ...pickMonths(incoming.availability, keys),
+    },
+    overtime: { ...omitMonths(current.overtime, keys), ...pickMonths(incoming.overtime, keys) },
+  };
+}
+
+export interface WorkspaceDiffSummary {
+  shifts: number; // 班別不同的格子數（日期 × 藥師）
+  notes: number; // 內容不同的備註數
+  availability: number; // 請假登記不同的筆數
+  overtime: number; // 加班明細不同的筆數
+}
+
+const countCellChanges = <T>(
+  a: Record<string, Record<string, T>>,
+  b: Record<string, Record<string, T>>,
+  isSame: (x: T | undefined, y: T | undefined) => boolean
+): number => {
+  let count = 0;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(dateKey => {
+    const dayA = a[dateKey] ?? {};
+    const dayB = b[dateKey] ?? {};
+    new Set([...Object.keys(dayA), ...Object.keys(dayB)]).forEach(id => {
+      if (!isSame(dayA[id], dayB[id])) count++;
+    });
+  });
+  return count;
+};
+
+// 比較兩份工作區資料的差異數量；沒有班別與空陣列視為相同
+export function summarizeWorkspaceDiff(a: WorkspaceData, b: WorkspaceData): WorkspaceDiffSummary {
+  const sameShifts = (x: string[] | undefined, y: string[] | undefined) =>
+    (x ?? []).join('') === (y ?? []).join('');
+  const noteKeys = new Set([...Object.keys(a.notes), ...Object.keys(b.notes)]);
+
+  return {
+    shifts: countCellChanges(a.schedule, b.schedule, sameShifts),
+    notes: [...noteKeys].filter(key => (a.notes[key] ?? '') !== (b.notes[key] ?? '')).length,
+    availability: countCellChanges(a.availability, b.availability, (x, y) => x === y),
+    overtime: countCellChanges(a.overtime, b.overtime, (x, y) => JSON.stringify(x) === JSON.stringify(y)),
+  };
+}